@@ -1,50 +1,172 @@
-
-import React, { useMemo, useState } from 'react';
-import { DataRow, UserProfile, ColumnMetadata } from '../types';
+import React, { useCallback, useMemo, useState, useEffect, useRef } from 'react';
+import { DataRow, UserProfile, ColumnMetadata, Dataset, DatasetViewState, ComparisonDataset, FilterQuery, KpiDefinition, DashboardLayout, ChartSettings, PivotConfig, PivotDrillThrough, BpSettings } from '../types';
 import Dashboard from '../components/Dashboard';
 import DataTable from '../components/DataTable';
 import ChartBuilder from '../components/ChartBuilder';
-import { LayoutDashboard, Table as TableIcon, PieChart, Filter, Search, User, Briefcase, FileText } from 'lucide-react';
+import FilterBuilder from '../components/FilterBuilder';
+import PivotTableView from '../components/PivotTableView';
+import BpAnalysis from '../components/BpAnalysis';
+import ReportDialog from '../components/ReportDialog';
+import { isCategoricalType } from '../utils/dataParsing';
+import { createDefaultKpiDefinitions, evaluateKpis } from '../utils/kpis';
+import { createChartWidget, createDefaultDashboards } from '../utils/dashboards';
+import { createPivotConfig, matchesDrillThrough, sanitizePivotConfig } from '../utils/pivot';
+import { compileFilterQuery, countConditions, createEmptyQuery, describeCondition, isValidCondition, parseFilterText, removeTextSpan } from '../utils/filterQuery';
+import { LayoutDashboard, Table as TableIcon, PieChart, Filter, Search, User, Briefcase, FileText, Database, GitCompare, SlidersHorizontal, X, Printer, Rows, Grid3x3, Trophy } from 'lucide-react';
 
 interface AnalysisPageProps {
   data: DataRow[];
   profile: UserProfile;
+  columns?: ColumnMetadata[];
+  importedFileName?: string;
+  datasets?: Dataset[];
+  activeDatasetId?: string | null;
+  comparisonDatasetId?: string | null;
+  onSelectDataset?: (id: string) => void;
+  onSelectComparison?: (id: string | null) => void;
+  onViewChange?: (id: string, changes: Partial<DatasetViewState>) => void;
 }
 
-const AnalysisPage: React.FC<AnalysisPageProps> = ({ data, profile }) => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'table' | 'charts'>('dashboard');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [globalCategory, setGlobalCategory] = useState('All');
+const AnalysisPage: React.FC<AnalysisPageProps> = ({
+  data: fallbackData,
+  profile,
+  columns: fallbackColumns,
+  importedFileName,
+  datasets = [],
+  activeDatasetId = null,
+  comparisonDatasetId = null,
+  onSelectDataset,
+  onSelectComparison,
+  onViewChange
+}) => {
+  const activeDataset = datasets.find(d => d.id === activeDatasetId) ?? null;
+  const comparisonDataset = datasets.find(d => d.id === comparisonDatasetId && d.id !== activeDatasetId) ?? null;
+  const data = activeDataset?.data ?? fallbackData;
+  const columns = activeDataset?.columns ?? fallbackColumns;
+
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'table' | 'charts' | 'debate'>('dashboard');
+  const [searchTerm, setSearchTerm] = useState(activeDataset?.view.searchTerm ?? '');
+  const [globalCategory, setGlobalCategory] = useState(activeDataset?.view.globalCategory ?? 'All');
+  const [filterQuery, setFilterQuery] = useState<FilterQuery>(activeDataset?.view.filters ?? createEmptyQuery());
+  const [kpiDefinitions, setKpiDefinitions] = useState<KpiDefinition[] | null>(activeDataset?.view.kpis ?? null);
+  const [dashboards, setDashboards] = useState<DashboardLayout[] | null>(activeDataset?.view.dashboards ?? null);
+  const [activeDashboardId, setActiveDashboardId] = useState<string | null>(activeDataset?.view.activeDashboardId ?? null);
+  const [pivotConfig, setPivotConfig] = useState<PivotConfig | null>(activeDataset?.view.pivot ?? null);
+  const [bpSettings, setBpSettings] = useState<BpSettings | null>(activeDataset?.view.bp ?? null);
+  const [tableMode, setTableMode] = useState<'rows' | 'pivot'>('rows');
+  const [drillThrough, setDrillThrough] = useState<PivotDrillThrough | null>(null);
+  const [showFilterBuilder, setShowFilterBuilder] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [loadedDatasetId, setLoadedDatasetId] = useState(activeDatasetId);
+
+  // Cada conjunto de datos recupera sus propios filtros al volver a seleccionarlo
+  if (loadedDatasetId !== activeDatasetId) {
+    setLoadedDatasetId(activeDatasetId);
+    setSearchTerm(activeDataset?.view.searchTerm ?? '');
+    setGlobalCategory(activeDataset?.view.globalCategory ?? 'All');
+    setFilterQuery(activeDataset?.view.filters ?? createEmptyQuery());
+    setKpiDefinitions(activeDataset?.view.kpis ?? null);
+    setDashboards(activeDataset?.view.dashboards ?? null);
+    setActiveDashboardId(activeDataset?.view.activeDashboardId ?? null);
+    setPivotConfig(activeDataset?.view.pivot ?? null);
+    setBpSettings(activeDataset?.view.bp ?? null);
+    setDrillThrough(null);
+  }
+
+  // El padre puede recrear la función en cada render: se lee siempre la última
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+
+  useEffect(() => {
+    if (activeDatasetId) onViewChangeRef.current?.(activeDatasetId, {
+      searchTerm, globalCategory, filters: filterQuery, kpis: kpiDefinitions, dashboards, activeDashboardId, pivot: pivotConfig, bp: bpSettings
+    });
+  }, [activeDatasetId, searchTerm, globalCategory, filterQuery, kpiDefinitions, dashboards, activeDashboardId, pivotConfig, bpSettings]);
+
+  // Hasta que el analista modifique algo se usa la composición predefinida
+  const dashboardLayouts = useMemo(() => dashboards ?? createDefaultDashboards(), [dashboards]);
+
+  const pinChart = (dashboardId: string, chart: ChartSettings, title: string) => {
+    setDashboards(dashboardLayouts.map(d => d.id === dashboardId ? { ...d, widgets: [...d.widgets, createChartWidget(chart, title)] } : d));
+  };
 
   // Intelligent metadata detection
   const metadata = useMemo(() => {
     if (data.length === 0) return [];
     const headers = Object.keys(data[0]);
+    // Los tipos elegidos por el analista durante la importación tienen prioridad
+    if (columns && columns.length > 0) {
+      return columns.filter(col => headers.includes(col.name));
+    }
     return headers.map(header => {
       const numericCount = data.filter(row => typeof row[header] === 'number').length;
       const type = numericCount > data.length / 2 ? 'number' : 'string';
       return { name: header, type } as ColumnMetadata;
     });
-  }, [data]);
+  }, [data, columns]);
+
+  const categoryColumn = useMemo(() => {
+    return (metadata.find(m => m.type === 'category') ?? metadata.find(m => isCategoricalType(m.type)))?.name;
+  }, [metadata]);
 
   const categories = useMemo(() => {
-    const stringCols = metadata.filter(m => m.type === 'string');
-    if (stringCols.length === 0) return [];
-    const firstCol = stringCols[0].name;
-    const vals = new Set(data.map(d => String(d[firstCol])).filter(v => v !== ''));
+    if (!categoryColumn) return [];
+    const vals = new Set(data.map(d => String(d[categoryColumn])).filter(v => v !== ''));
     return Array.from(vals).slice(0, 30);
-  }, [data, metadata]);
-
-  const filteredData = useMemo(() => {
-    return data.filter(row => {
-      const matchesSearch = Object.values(row).some(val => 
-        String(val).toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      const stringCol = metadata.find(m => m.type === 'string')?.name;
-      const matchesCategory = globalCategory === 'All' || (stringCol && String(row[stringCol]) === globalCategory);
-      return matchesSearch && matchesCategory;
-    });
-  }, [data, searchTerm, globalCategory, metadata]);
+  }, [data, categoryColumn]);
+
+  // La caja de búsqueda admite sintaxis de filtro: team:"Oxford A" speaks>=75
+  const parsedSearch = useMemo(() => parseFilterText(searchTerm, metadata), [searchTerm, metadata]);
+
+  // Top N y medias se calculan sobre cada conjunto, así que el filtro se compila por conjunto
+  const filterRows = useCallback((rows: DataRow[]) => {
+    const matchesSearch = compileFilterQuery(parsedSearch.query, rows, metadata);
+    const matchesQuery = compileFilterQuery(filterQuery, rows, metadata);
+    return rows.filter(row =>
+      matchesSearch(row) &&
+      matchesQuery(row) &&
+      (globalCategory === 'All' || (!!categoryColumn && String(row[categoryColumn]) === globalCategory))
+    );
+  }, [parsedSearch, filterQuery, metadata, globalCategory, categoryColumn]);
+
+  const filteredData = useMemo(() => filterRows(data), [data, filterRows]);
+
+  // La tabla dinámica parte de los datos ya filtrados; el detalle se acota además a la celda pulsada
+  const pivot = useMemo(
+    () => sanitizePivotConfig(pivotConfig ?? createPivotConfig(), metadata.map(m => m.name)),
+    [pivotConfig, metadata]
+  );
+  const tableData = useMemo(
+    () => drillThrough ? filteredData.filter(row => matchesDrillThrough(row, drillThrough)) : filteredData,
+    [filteredData, drillThrough]
+  );
+
+  // El conjunto de comparación se filtra con los mismos criterios que el activo
+  const comparison = useMemo<ComparisonDataset | null>(() => {
+    if (!comparisonDataset) return null;
+    return { name: comparisonDataset.name, data: filterRows(comparisonDataset.data) };
+  }, [comparisonDataset, filterRows]);
+
+  const removeQueryCondition = (groupId: string, conditionId: string) => {
+    setFilterQuery(prev => ({
+      ...prev,
+      groups: prev.groups
+        .map(g => g.id === groupId ? { ...g, conditions: g.conditions.filter(c => c.id !== conditionId) } : g)
+        .filter(g => g.conditions.length > 0)
+    }));
+  };
+
+  const searchChips = parsedSearch.query.groups.flatMap(g => g.conditions);
+  const queryChips = filterQuery.groups.flatMap(g => g.conditions.map(condition => ({ groupId: g.id, condition })));
+  const hasChips = searchChips.length > 0 || queryChips.length > 0 || globalCategory !== 'All';
+
+  // Descripción legible de los filtros, para dejar constancia en los informes
+  const activeFilterLabels = [
+    ...searchChips.map(condition => describeCondition(condition, metadata)),
+    ...queryChips.map(({ condition }) => describeCondition(condition, metadata)),
+    ...(globalCategory !== 'All' && categoryColumn ? [`${categoryColumn} = "${globalCategory}"`] : [])
+  ];
 
   return (
     <div className="bg-[#F8F9FA] min-h-screen">
@@ -84,23 +206,64 @@ const AnalysisPage: React.FC<AnalysisPageProps> = ({ data, profile }) => {
             </div>
 
             <div className="flex flex-col items-end gap-4 w-full lg:w-auto">
-              <div className="inline-flex bg-gray-100 p-1 rounded-2xl border border-gray-200 shadow-inner">
-                {[
-                  { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
-                  { id: 'table', label: 'Tablas', icon: TableIcon },
-                  { id: 'charts', label: 'Gráficos', icon: PieChart }
-                ].map(tab => (
-                  <button 
-                    key={tab.id}
-                    onClick={() => setActiveTab(tab.id as any)}
-                    className={`flex items-center gap-2 px-6 py-3 rounded-xl text-xs font-black uppercase tracking-tighter transition-all ${
-                      activeTab === tab.id ? 'bg-white text-deepblue-900 shadow-md ring-1 ring-black/5' : 'text-gray-400 hover:text-gray-600'
-                    }`}
-                  >
-                    <tab.icon size={14} />
-                    {tab.label}
-                  </button>
-                ))}
+              {datasets.length > 0 && (
+                <div className="flex flex-wrap items-center justify-end gap-3">
+                  <div className="flex items-center gap-2 bg-gray-50 border border-gray-200 rounded-xl px-3 py-2">
+                    <Database size={14} className="text-gold-600" />
+                    <select
+                      value={activeDatasetId ?? ''}
+                      onChange={(e) => onSelectDataset?.(e.target.value)}
+                      className="bg-transparent text-xs font-bold text-gray-700 outline-none cursor-pointer"
+                    >
+                      {datasets.map(d => (
+                        <option key={d.id} value={d.id}>{d.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {datasets.length > 1 && (
+                    <div className={`flex items-center gap-2 border rounded-xl px-3 py-2 ${comparisonDataset ? 'bg-gold-50 border-gold-200' : 'bg-gray-50 border-gray-200'}`}>
+                      <GitCompare size={14} className="text-deepblue-900" />
+                      <select
+                        value={comparisonDataset?.id ?? ''}
+                        onChange={(e) => onSelectComparison?.(e.target.value || null)}
+                        className="bg-transparent text-xs font-bold text-gray-700 outline-none cursor-pointer"
+                      >
+                        <option value="">Sin comparación</option>
+                        {datasets.filter(d => d.id !== activeDatasetId).map(d => (
+                          <option key={d.id} value={d.id}>Comparar con {d.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setShowReport(true)}
+                  className="flex items-center gap-2 px-5 py-3 bg-deepblue-950 text-white rounded-2xl text-xs font-black uppercase tracking-tighter hover:bg-gold-600 transition-all shadow-md"
+                >
+                  <Printer size={14} />
+                  Informe
+                </button>
+                <div className="inline-flex bg-gray-100 p-1 rounded-2xl border border-gray-200 shadow-inner">
+                  {[
+                    { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+                    { id: 'table', label: 'Tablas', icon: TableIcon },
+                    { id: 'charts', label: 'Gráficos', icon: PieChart },
+                    { id: 'debate', label: 'Debate BP', icon: Trophy }
+                  ].map(tab => (
+                    <button 
+                      key={tab.id}
+                      onClick={() => setActiveTab(tab.id as any)}
+                      className={`flex items-center gap-2 px-6 py-3 rounded-xl text-xs font-black uppercase tracking-tighter transition-all ${
+                        activeTab === tab.id ? 'bg-white text-deepblue-900 shadow-md ring-1 ring-black/5' : 'text-gray-400 hover:text-gray-600'
+                      }`}
+                    >
+                      <tab.icon size={14} />
+                      {tab.label}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
@@ -114,7 +277,7 @@ const AnalysisPage: React.FC<AnalysisPageProps> = ({ data, profile }) => {
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
             <input 
               type="text" 
-              placeholder="Búsqueda rápida de registros..." 
+              placeholder='Buscar o filtrar: team:"Oxford A" speaks>=75'
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full bg-white/10 border border-white/10 rounded-xl py-2.5 pl-11 pr-4 text-white text-sm focus:bg-white focus:text-gray-900 outline-none transition-all font-medium"
@@ -135,19 +298,186 @@ const AnalysisPage: React.FC<AnalysisPageProps> = ({ data, profile }) => {
             </select>
           </div>
 
+          <button
+            onClick={() => setShowFilterBuilder(prev => !prev)}
+            className={`flex items-center gap-2 rounded-xl py-2.5 px-4 text-xs font-bold tracking-tight border transition-all ${
+              showFilterBuilder ? 'bg-gold-500 text-deepblue-950 border-gold-500' : 'bg-white/10 text-white border-white/10 hover:border-gold-500'
+            }`}
+          >
+            <SlidersHorizontal size={14} />
+            Filtros
+            {countConditions(filterQuery) > 0 && (
+              <span className="px-1.5 py-0.5 rounded-md bg-deepblue-950 text-gold-400 text-[10px] font-black">{countConditions(filterQuery)}</span>
+            )}
+          </button>
+
           <div className="ml-auto flex items-center gap-3 text-white/40 font-black text-[10px] uppercase tracking-widest">
             <div className="w-2 h-2 rounded-full bg-gold-500 animate-pulse shadow-[0_0_10px_rgba(212,175,55,0.8)]"></div>
             Análisis de {filteredData.length} registros
           </div>
         </div>
+
+        {hasChips && (
+          <div className="max-w-7xl mx-auto px-6 pt-4 flex flex-wrap items-center gap-2">
+            {searchChips.map(condition => (
+              <span
+                key={condition.id}
+                className={`flex items-center gap-2 pl-3 pr-1.5 py-1 rounded-lg border text-[11px] font-bold ${
+                  isValidCondition(condition) ? 'border-gold-500/40 text-gold-400' : 'border-red-400/60 text-red-300'
+                }`}
+              >
+                {describeCondition(condition, metadata)}
+                <button
+                  onClick={() => setSearchTerm(removeTextSpan(searchTerm, parsedSearch.spans[condition.id]))}
+                  className="p-0.5 rounded text-white/40 hover:text-white"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+            {queryChips.map(({ groupId, condition }) => (
+              <span
+                key={condition.id}
+                className={`flex items-center gap-2 pl-3 pr-1.5 py-1 rounded-lg bg-white/10 text-[11px] font-bold ${
+                  isValidCondition(condition) ? 'text-white' : 'text-red-300'
+                }`}
+              >
+                {describeCondition(condition, metadata)}
+                <button onClick={() => removeQueryCondition(groupId, condition.id)} className="p-0.5 rounded text-white/40 hover:text-white">
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+            {globalCategory !== 'All' && (
+              <span className="flex items-center gap-2 pl-3 pr-1.5 py-1 rounded-lg bg-white/10 text-white text-[11px] font-bold">
+                {categoryColumn} = "{globalCategory}"
+                <button onClick={() => setGlobalCategory('All')} className="p-0.5 rounded text-white/40 hover:text-white">
+                  <X size={12} />
+                </button>
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Content Area */}
-      <div className="max-w-7xl mx-auto px-6 py-10">
-        {activeTab === 'dashboard' && <Dashboard data={filteredData} metadata={metadata} profileImage={profile.image} />}
-        {activeTab === 'table' && <DataTable data={filteredData} metadata={metadata} />}
-        {activeTab === 'charts' && <ChartBuilder data={filteredData} metadata={metadata} />}
+      <div ref={contentRef} className="max-w-7xl mx-auto px-6 py-10">
+        {showFilterBuilder && (
+          <FilterBuilder
+            query={filterQuery}
+            metadata={metadata}
+            onChange={setFilterQuery}
+            onClose={() => setShowFilterBuilder(false)}
+          />
+        )}
+        {activeTab === 'dashboard' && (
+          <Dashboard
+            data={filteredData}
+            metadata={metadata}
+            datasetName={activeDataset?.name}
+            comparison={comparison}
+            fullData={data}
+            kpiDefinitions={kpiDefinitions}
+            onKpiDefinitionsChange={setKpiDefinitions}
+            dashboards={dashboardLayouts}
+            activeDashboardId={activeDashboardId}
+            onDashboardsChange={setDashboards}
+            onActiveDashboardChange={setActiveDashboardId}
+          />
+        )}
+        {activeTab === 'table' && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="inline-flex bg-white p-1 rounded-2xl border border-gray-200 shadow-sm">
+                {[
+                  { id: 'rows', label: 'Registros', icon: Rows },
+                  { id: 'pivot', label: 'Tabla Dinámica', icon: Grid3x3 }
+                ].map(mode => (
+                  <button
+                    key={mode.id}
+                    onClick={() => setTableMode(mode.id as 'rows' | 'pivot')}
+                    className={`flex items-center gap-2 px-5 py-2 rounded-xl text-xs font-black uppercase tracking-tighter transition-all ${
+                      tableMode === mode.id ? 'bg-deepblue-950 text-white shadow-md' : 'text-gray-400 hover:text-gray-700'
+                    }`}
+                  >
+                    <mode.icon size={14} />
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              {tableMode === 'rows' && drillThrough && (
+                <span className="flex items-center gap-2 pl-4 pr-2 py-2 rounded-xl bg-gold-50 border border-gold-200 text-xs font-bold text-gold-700">
+                  Detalle: {drillThrough.label} · {tableData.length.toLocaleString()} registros
+                  <button onClick={() => setDrillThrough(null)} className="p-0.5 rounded text-gold-500 hover:text-gold-800">
+                    <X size={14} />
+                  </button>
+                </span>
+              )}
+            </div>
+            {tableMode === 'pivot' ? (
+              <PivotTableView
+                data={filteredData}
+                metadata={metadata}
+                config={pivot}
+                onConfigChange={setPivotConfig}
+                onDrillThrough={(drill) => {
+                  setDrillThrough(drill);
+                  setTableMode('rows');
+                }}
+              />
+            ) : (
+              <DataTable
+                key={activeDatasetId ?? 'default'}
+                data={tableData}
+                metadata={metadata}
+                fullData={data}
+                importedFileName={activeDataset?.fileName ?? importedFileName}
+                initialView={activeDataset?.view.table}
+                onViewChange={(table) => activeDatasetId && onViewChange?.(activeDatasetId, { table })}
+              />
+            )}
+          </div>
+        )}
+        {activeTab === 'charts' && (
+          <ChartBuilder
+            key={activeDatasetId ?? 'default'}
+            data={filteredData}
+            metadata={metadata}
+            datasetName={activeDataset?.name}
+            comparison={comparison}
+            initialSettings={activeDataset?.view.chart}
+            onSettingsChange={(chart) => activeDatasetId && onViewChange?.(activeDatasetId, { chart })}
+            dashboards={dashboardLayouts}
+            onPin={pinChart}
+          />
+        )}
+        {activeTab === 'debate' && (
+          <BpAnalysis
+            key={activeDatasetId ?? 'default'}
+            data={filteredData}
+            metadata={metadata}
+            datasetName={activeDataset?.name}
+            settings={bpSettings}
+            onSettingsChange={setBpSettings}
+          />
+        )}
       </div>
+
+      {showReport && (
+        <ReportDialog
+          profile={profile}
+          datasetName={activeDataset?.name}
+          importedFileName={activeDataset?.fileName ?? importedFileName}
+          comparisonName={comparison?.name}
+          data={filteredData}
+          totalRows={data.length}
+          metadata={metadata}
+          kpis={evaluateKpis(kpiDefinitions ?? createDefaultKpiDefinitions(metadata), { data: filteredData, metadata, comparison, unfiltered: data })}
+          filters={activeFilterLabels}
+          chartContainer={contentRef.current}
+          onClose={() => setShowReport(false)}
+        />
+      )}
     </div>
   );
 };
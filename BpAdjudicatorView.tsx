@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { BpColumnMapping, DataRow } from '../types';
+import { ADJUDICATOR_FLAG_LABELS, MIN_ADJUDICATOR_SCORES, adjudicatorTable, analyzeAdjudicators } from '../utils/bpAdjudicators';
+import DataTable from '../components/DataTable';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
+import { Gavel, AlertTriangle } from 'lucide-react';
+
+interface BpAdjudicatorViewProps {
+  data: DataRow[];
+  mapping: BpColumnMapping;
+  datasetName?: string;
+}
+
+type DeviationBase = 'speakerDeviation' | 'roomDeviation' | 'tournamentDeviation';
+
+const BpAdjudicatorView: React.FC<BpAdjudicatorViewProps> = ({ data, mapping, datasetName }) => {
+  const [base, setBase] = useState<DeviationBase>('speakerDeviation');
+
+  const analysis = useMemo(() => analyzeAdjudicators(data, mapping), [data, mapping]);
+  const table = useMemo(() => adjudicatorTable(analysis.adjudicators), [analysis]);
+  const flagged = analysis.adjudicators.filter(a => a.flags.length > 0);
+
+  const chartData = useMemo(() => analysis.adjudicators
+    .filter(a => isFinite(a[base]))
+    .map(a => ({ name: a.adjudicator, value: Math.round(a[base] * 100) / 100, flagged: a.flags.length > 0 }))
+    .sort((a, b) => b.value - a.value), [analysis, base]);
+
+  const toggleClass = (active: boolean) => `px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+    active ? 'bg-deepblue-950 text-white shadow-md' : 'text-gray-400 hover:text-gray-700'
+  }`;
+
+  if (!mapping.adjudicator || !mapping.speakerScore) {
+    return <p className="text-sm text-gray-400 italic">Asigne las columnas de juez y puntuación del orador para analizar a los jueces.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden">
+        <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-col md:flex-row justify-between items-center gap-6">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gold-50 rounded-2xl">
+              <Gavel className="text-gold-600" size={20} />
+            </div>
+            <div>
+              <h3 className="text-xl font-serif font-bold text-gray-900">Sesgo de Jueces</h3>
+              <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">
+                Media del torneo {isFinite(analysis.tournamentMean) ? analysis.tournamentMean.toFixed(2) : '—'} · mínimo {MIN_ADJUDICATOR_SCORES} puntuaciones para marcar atípicos
+              </p>
+            </div>
+          </div>
+          <div className="inline-flex bg-gray-100 p-1 rounded-2xl border border-gray-200">
+            <button onClick={() => setBase('speakerDeviation')} className={toggleClass(base === 'speakerDeviation')}>Frente a los Oradores</button>
+            <button onClick={() => setBase('roomDeviation')} className={toggleClass(base === 'roomDeviation')}>Frente a la Sala</button>
+            <button onClick={() => setBase('tournamentDeviation')} className={toggleClass(base === 'tournamentDeviation')}>Frente al Torneo</button>
+          </div>
+        </div>
+        <div className="p-8 max-h-[560px] overflow-y-auto">
+          <div style={{ height: Math.max(320, chartData.length * 28) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} layout="vertical" margin={{ left: 40, right: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#F1F5F9" />
+                <XAxis type="number" axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 11}} />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  axisLine={false}
+                  tickLine={false}
+                  width={120}
+                  interval={0}
+                  tick={{fill: '#94A3B8', fontSize: 10, fontWeight: 700}}
+                />
+                <Tooltip
+                  cursor={{fill: '#F8FAFC'}}
+                  contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', padding: '16px' }}
+                />
+                <ReferenceLine x={0} stroke="#94A3B8" />
+                <Bar dataKey="value" name="Desviación" radius={[0, 6, 6, 0]} barSize={16}>
+                  {chartData.map(entry => (
+                    <Cell key={entry.name} fill={entry.flagged ? '#dc2626' : entry.value >= 0 ? '#d4af37' : '#1e3a8a'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </section>
+
+      {flagged.length > 0 && (
+        <div className="bg-white rounded-3xl p-6 border border-gold-200 shadow-sm space-y-2">
+          {flagged.map(a => (
+            <p key={a.adjudicator} className="flex items-start gap-2 text-xs text-gray-700">
+              <AlertTriangle size={12} className="text-gold-500 mt-0.5 shrink-0" />
+              <span>
+                <span className="font-bold">{a.adjudicator}</span>: {a.flags.map(f => ADJUDICATOR_FLAG_LABELS[f].toLowerCase()).join(', ')}
+                {' '}({a.speakerDeviation >= 0 ? '+' : ''}{a.speakerDeviation.toFixed(2)} frente a lo que esos oradores reciben de otros jueces, en {a.scores} puntuaciones).
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      <DataTable
+        data={table.data}
+        metadata={table.columns}
+        importedFileName={`${datasetName ?? 'debate'}_jueces`}
+      />
+    </div>
+  );
+};
+
+export default BpAdjudicatorView;
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { BpSettings, ColumnMetadata, DataRow } from '../types';
+import { BP_ROLES, extractTeamResults, missingBpRoles, resolveBpSettings } from '../utils/bpResults';
+import { computeSpeakerTab, computeTeamStandings, speakerTabTable, summarizeBreak, teamStandingsTable } from '../utils/bpStandings';
+import BpMappingPanel from '../components/BpMappingPanel';
+import BpMotionView from '../components/BpMotionView';
+import BpAdjudicatorView from '../components/BpAdjudicatorView';
+import DataTable from '../components/DataTable';
+import { Trophy, Users, Mic, Flag, AlertTriangle, Settings2, Scale, Gavel } from 'lucide-react';
+
+interface BpAnalysisProps {
+  data: DataRow[];
+  metadata: ColumnMetadata[];
+  datasetName?: string;
+  settings?: BpSettings | null;
+  onSettingsChange: (settings: BpSettings) => void;
+}
+
+type BpView = 'teams' | 'speakers' | 'motions' | 'adjudicators';
+
+const BpAnalysis: React.FC<BpAnalysisProps> = ({ data, metadata, datasetName, settings: savedSettings, onSettingsChange }) => {
+  const settings = useMemo(() => resolveBpSettings(savedSettings, metadata), [savedSettings, metadata]);
+  const missing = missingBpRoles(settings.mapping);
+  const [view, setView] = useState<BpView>('teams');
+  const [showMapping, setShowMapping] = useState(missing.length > 0);
+
+  const extraction = useMemo(
+    () => missing.length === 0 ? extractTeamResults(data, settings.mapping) : null,
+    [data, settings.mapping, missing.length]
+  );
+  const standings = useMemo(
+    () => extraction ? computeTeamStandings(extraction.results, settings.tiebreaks, settings.breakSize) : [],
+    [extraction, settings.tiebreaks, settings.breakSize]
+  );
+  const breakSummary = useMemo(() => summarizeBreak(standings, settings.breakSize), [standings, settings.breakSize]);
+  const speakers = useMemo(() => computeSpeakerTab(data, settings.mapping), [data, settings.mapping]);
+  const table = useMemo(
+    () => view === 'speakers' ? speakerTabTable(speakers) : teamStandingsTable(standings),
+    [view, standings, speakers]
+  );
+
+  const summaryCards = [
+    { label: 'Equipos', value: standings.length.toLocaleString(), icon: Users },
+    { label: 'Rondas', value: (extraction?.rounds.length ?? 0).toLocaleString(), icon: Flag },
+    {
+      label: `Corte a ${settings.breakSize}`,
+      value: breakSummary.threshold !== null ? `${breakSummary.threshold} pts` : '—',
+      icon: Trophy
+    },
+    { label: 'Oradores', value: speakers.length.toLocaleString(), icon: Mic }
+  ];
+
+  const baseName = datasetName ?? 'debate';
+
+  return (
+    <div className="space-y-8 animate-fadeIn">
+      <section className="bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden">
+        <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-col md:flex-row justify-between items-center gap-6">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gold-50 rounded-2xl">
+              <Trophy className="text-gold-600" size={20} />
+            </div>
+            <div>
+              <h3 className="text-xl font-serif font-bold text-gray-900">Debate British Parliamentary</h3>
+              <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">
+                3/2/1/0 puntos por sala · desempate por {settings.tiebreaks.map(t => t === 'speaks' ? 'speaks' : 'primeros').join(' y ')}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => setShowMapping(!showMapping)}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest bg-white border border-gray-200 text-gray-600 hover:bg-gray-50 transition-all"
+          >
+            <Settings2 size={14} />
+            Columnas
+          </button>
+        </div>
+        {showMapping && (
+          <div className="p-8 border-b border-gray-100">
+            <BpMappingPanel settings={settings} metadata={metadata} onChange={onSettingsChange} />
+          </div>
+        )}
+        {missing.length > 0 && (
+          <p className="px-8 py-5 flex items-center gap-2 text-xs font-bold text-gold-700 bg-gold-50/40">
+            <AlertTriangle size={14} />
+            Asigne las columnas de {missing.map(role => BP_ROLES.find(r => r.id === role)?.label).join(', ')} para calcular la clasificación.
+          </p>
+        )}
+      </section>
+
+      {extraction && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+            {summaryCards.map(card => (
+              <div key={card.label} className="bg-white rounded-3xl p-6 border border-gray-100 shadow-sm flex items-center gap-5">
+                <div className="p-4 rounded-2xl bg-gold-50">
+                  <card.icon className="text-gold-600" size={24} />
+                </div>
+                <div>
+                  <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{card.label}</p>
+                  <h3 className="text-2xl font-serif font-bold text-gray-900">{card.value}</h3>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {(breakSummary.tiedAtLine.length > 0 || extraction.issues.length > 0) && (
+            <div className="bg-white rounded-3xl p-6 border border-gold-200 shadow-sm space-y-2">
+              {breakSummary.tiedAtLine.length > 0 && (
+                <p className="text-xs font-bold text-gray-700">
+                  {breakSummary.breaking} equipos rompen con seguridad; {breakSummary.tiedAtLine.length} empatan en el corte
+                  ({breakSummary.tiedAtLine.join(', ')}) y se disputan {settings.breakSize - breakSummary.breaking} {settings.breakSize - breakSummary.breaking === 1 ? 'plaza' : 'plazas'}.
+                </p>
+              )}
+              {extraction.issues.map(issue => (
+                <p key={issue} className="flex items-start gap-2 text-xs text-gray-500">
+                  <AlertTriangle size={12} className="text-gold-500 mt-0.5 shrink-0" />
+                  {issue}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="inline-flex bg-white p-1 rounded-2xl border border-gray-200 shadow-sm">
+            {[
+              { id: 'teams', label: 'Clasificación de Equipos', icon: Users },
+              { id: 'speakers', label: 'Tab de Oradores', icon: Mic },
+              { id: 'motions', label: 'Mociones', icon: Scale },
+              { id: 'adjudicators', label: 'Jueces', icon: Gavel }
+            ].map(option => (
+              <button
+                key={option.id}
+                onClick={() => setView(option.id as BpView)}
+                className={`flex items-center gap-2 px-5 py-2 rounded-xl text-xs font-black uppercase tracking-tighter transition-all ${
+                  view === option.id ? 'bg-deepblue-950 text-white shadow-md' : 'text-gray-400 hover:text-gray-700'
+                }`}
+              >
+                <option.icon size={14} />
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {view === 'motions' ? (
+            <BpMotionView results={extraction.results} hasMotionCategory={!!settings.mapping.motionCategory} datasetName={datasetName} />
+          ) : view === 'adjudicators' ? (
+            <BpAdjudicatorView data={data} mapping={settings.mapping} datasetName={datasetName} />
+          ) : view === 'speakers' && speakers.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">Asigne las columnas de orador y puntuación para ver el tab de oradores.</p>
+          ) : (
+            <DataTable
+              key={view}
+              data={table.data}
+              metadata={table.columns}
+              importedFileName={`${baseName}_${view === 'teams' ? 'clasificacion' : 'oradores'}`}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BpAnalysis;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { BpRole, BpSettings, BpTiebreak, ColumnMetadata } from '../types';
+import { BP_ROLES } from '../utils/bpResults';
+import { BP_TIEBREAKS } from '../utils/bpStandings';
+
+interface BpMappingPanelProps {
+  settings: BpSettings;
+  metadata: ColumnMetadata[];
+  onChange: (settings: BpSettings) => void;
+}
+
+// Órdenes de desempate admitidos tras los puntos
+const TIEBREAK_ORDERS: BpTiebreak[][] = [['speaks', 'firsts'], ['firsts', 'speaks']];
+
+const BpMappingPanel: React.FC<BpMappingPanelProps> = ({ settings, metadata, onChange }) => {
+  const setRole = (role: BpRole, column: string) => onChange({ ...settings, mapping: { ...settings.mapping, [role]: column } });
+
+  const selectClass = "w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-gold-500/20";
+  const label = "block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2";
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-5">
+      {BP_ROLES.map(role => (
+        <div key={role.id}>
+          <label className={label}>
+            {role.label}
+            {role.required && <span className="text-gold-600"> *</span>}
+          </label>
+          <select value={settings.mapping[role.id]} onChange={e => setRole(role.id, e.target.value)} className={selectClass}>
+            <option value="">Sin asignar</option>
+            {metadata.filter(m => !role.numeric || m.type === 'number').map(m => (
+              <option key={m.name} value={m.name}>{m.name}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+      <div>
+        <label className={label}>Equipos en el Break</label>
+        <input
+          type="number"
+          min={1}
+          value={settings.breakSize}
+          onChange={e => onChange({ ...settings, breakSize: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+          className={selectClass}
+        />
+      </div>
+      <div>
+        <label className={label}>Desempate</label>
+        <select
+          value={settings.tiebreaks.join(',')}
+          onChange={e => onChange({ ...settings, tiebreaks: e.target.value.split(',') as BpTiebreak[] })}
+          className={selectClass}
+        >
+          {TIEBREAK_ORDERS.map(order => (
+            <option key={order.join(',')} value={order.join(',')}>
+              Puntos → {order.map(id => BP_TIEBREAKS.find(t => t.id === id)?.label).join(' → ')}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default BpMappingPanel;
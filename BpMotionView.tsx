@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { BpPosition } from '../types';
+import { BP_POSITIONS, BP_POSITION_LABELS, BpTeamResult } from '../utils/bpResults';
+import { MotionGrouping, SIGNIFICANCE_LEVEL, analyzeMotionBalance, motionBalanceTable, overallSideBalance } from '../utils/bpMotions';
+import DataTable from '../components/DataTable';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Scale, AlertTriangle } from 'lucide-react';
+
+interface BpMotionViewProps {
+  results: BpTeamResult[];
+  hasMotionCategory: boolean;
+  datasetName?: string;
+}
+
+type SideMetric = 'avgPoints' | 'firstRate';
+
+const POSITION_COLORS: Record<BpPosition, string> = {
+  OG: '#1e3a8a',
+  OO: '#d4af37',
+  CG: '#3b82f6',
+  CO: '#64748b'
+};
+
+// En una sala equilibrada cada posición promedia 1,5 puntos y gana una de cada cuatro veces
+const EXPECTED: Record<SideMetric, number> = { avgPoints: 1.5, firstRate: 25 };
+
+const BpMotionView: React.FC<BpMotionViewProps> = ({ results, hasMotionCategory, datasetName }) => {
+  const [grouping, setGrouping] = useState<MotionGrouping>('motion');
+  const [metric, setMetric] = useState<SideMetric>('avgPoints');
+
+  const overall = useMemo(() => overallSideBalance(results), [results]);
+  const balances = useMemo(() => analyzeMotionBalance(results, grouping), [results, grouping]);
+  const table = useMemo(() => motionBalanceTable(balances, grouping), [balances, grouping]);
+  const flagged = balances.filter(b => b.skewed);
+
+  const chartData = useMemo(() => [overall, ...balances].map(b => {
+    const entry: Record<string, string | number> = { name: b.label };
+    BP_POSITIONS.forEach(p => {
+      const value = metric === 'avgPoints' ? b.sides[p].avgPoints : b.sides[p].firstRate * 100;
+      entry[p] = isFinite(value) ? Math.round(value * 100) / 100 : 0;
+    });
+    return entry;
+  }), [overall, balances, metric]);
+
+  const toggleClass = (active: boolean) => `px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+    active ? 'bg-deepblue-950 text-white shadow-md' : 'text-gray-400 hover:text-gray-700'
+  }`;
+
+  if (BP_POSITIONS.every(p => overall.sides[p].debates === 0)) {
+    return <p className="text-sm text-gray-400 italic">Asigne la columna de posición (OG/OO/CG/CO) para analizar el balance de las mociones.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden">
+        <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-col md:flex-row justify-between items-center gap-6">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gold-50 rounded-2xl">
+              <Scale className="text-gold-600" size={20} />
+            </div>
+            <div>
+              <h3 className="text-xl font-serif font-bold text-gray-900">Balance de Posiciones</h3>
+              <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">
+                Chi² posición × puesto · significativo con p &lt; {SIGNIFICANCE_LEVEL}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {hasMotionCategory && (
+              <div className="inline-flex bg-gray-100 p-1 rounded-2xl border border-gray-200">
+                <button onClick={() => setGrouping('motion')} className={toggleClass(grouping === 'motion')}>Por Moción</button>
+                <button onClick={() => setGrouping('motionCategory')} className={toggleClass(grouping === 'motionCategory')}>Por Categoría</button>
+              </div>
+            )}
+            <div className="inline-flex bg-gray-100 p-1 rounded-2xl border border-gray-200">
+              <button onClick={() => setMetric('avgPoints')} className={toggleClass(metric === 'avgPoints')}>Puntos Medios</button>
+              <button onClick={() => setMetric('firstRate')} className={toggleClass(metric === 'firstRate')}>% Primeros</button>
+            </div>
+          </div>
+        </div>
+        <div className="p-8 h-[420px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ bottom: 60 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+              <XAxis
+                dataKey="name"
+                axisLine={false}
+                tickLine={false}
+                tick={{fill: '#94A3B8', fontSize: 10, fontWeight: 700}}
+                angle={-30}
+                textAnchor="end"
+                interval={0}
+              />
+              <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 11}} />
+              <Tooltip
+                cursor={{fill: '#F8FAFC'}}
+                contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', padding: '16px' }}
+              />
+              <Legend iconType="circle" verticalAlign="top" height={36} />
+              <ReferenceLine y={EXPECTED[metric]} stroke="#94A3B8" strokeDasharray="4 4" />
+              {BP_POSITIONS.map(p => (
+                <Bar key={p} dataKey={p} name={BP_POSITION_LABELS[p]} fill={POSITION_COLORS[p]} radius={[6, 6, 0, 0]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </section>
+
+      {flagged.length > 0 && (
+        <div className="bg-white rounded-3xl p-6 border border-gold-200 shadow-sm space-y-2">
+          {flagged.map(b => (
+            <p key={b.label} className="flex items-start gap-2 text-xs text-gray-700">
+              <AlertTriangle size={12} className="text-gold-500 mt-0.5 shrink-0" />
+              <span>
+                <span className="font-bold">{b.label}</span> favoreció a {b.favoured && BP_POSITION_LABELS[b.favoured]}
+                {' '}({b.favoured && b.sides[b.favoured].avgPoints.toFixed(2)} pts de media, χ² = {b.chiSquare.toFixed(2)}, p = {b.pValue.toFixed(3)}).
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      <DataTable
+        key={grouping}
+        data={table.data}
+        metadata={table.columns}
+        importedFileName={`${datasetName ?? 'debate'}_mociones`}
+      />
+    </div>
+  );
+};
+
+export default BpMotionView;
@@ -1,60 +1,130 @@
-
-import React, { useState, useMemo } from 'react';
-import { DataRow, ColumnMetadata } from '../types';
-import { 
-  BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, 
-  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, AreaChart, Area
-} from 'recharts';
-import { Settings, BarChart as BarIcon, LineChart as LineIcon, PieChart as PieIcon, Layers, BarChart3 } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { DataRow, ColumnMetadata, ChartType, TimePeriod, ChartSettings, ComparisonDataset, DashboardLayout, ChartAggregation, ChartSortOrder, BarMode, HistogramBinRule } from '../types';
+import { isCategoricalType } from '../utils/dataParsing';
+import { CHART_DEFAULTS, describeChart, histogramSeries, isMultiSeriesChart, isTimeSeriesChart, xAxisColumns } from '../utils/chartData';
+import { binIndex, computeBinLayout, describeBinRule, HISTOGRAM_BIN_RULES, MAX_BINS, parseBinEdges } from '../utils/histogram';
+import { CHART_AGGREGATIONS, CHART_SORT_ORDERS, isNumericAggregation, OTHER_LABEL } from '../utils/aggregation';
+import ChartExportMenu from '../components/ChartExportMenu';
+import ChartView from '../components/ChartView';
+import DistributionStats from '../components/DistributionStats';
+import { Settings, BarChart as BarIcon, LineChart as LineIcon, PieChart as PieIcon, Layers, BarChart3, Pin, Check, ScatterChart, CandlestickChart, Grid3x3 } from 'lucide-react';
 
 interface ChartBuilderProps {
   data: DataRow[];
   metadata: ColumnMetadata[];
+  datasetName?: string;
+  comparison?: ComparisonDataset | null;
+  initialSettings?: ChartSettings | null;
+  onSettingsChange?: (settings: ChartSettings) => void;
+  dashboards?: DashboardLayout[];
+  onPin?: (dashboardId: string, settings: ChartSettings, title: string) => void;
 }
 
-type ChartType = 'bar' | 'line' | 'pie' | 'histogram';
-
-const ChartBuilder: React.FC<ChartBuilderProps> = ({ data, metadata }) => {
-  const [chartType, setChartType] = useState<ChartType>('bar');
-  const [xAxis, setXAxis] = useState<string>(metadata.find(m => m.type === 'string')?.name || metadata[0].name);
-  const [yAxis, setYAxis] = useState<string>(metadata.find(m => m.type === 'number')?.name || metadata[0].name);
-
-  // General Chart Data Processing
-  const chartData = useMemo(() => {
-    if (chartType === 'histogram') {
-      const values = data.map(d => Number(d[yAxis])).filter(v => !isNaN(v));
-      if (values.length === 0) return [];
-      const min = Math.min(...values);
-      const max = Math.max(...values);
-      const bins = 10;
-      const step = (max - min) / bins;
-      const distribution = Array.from({ length: bins }).map((_, i) => ({
-        range: `${(min + i * step).toFixed(1)} - ${(min + (i + 1) * step).toFixed(1)}`,
-        frequency: 0
-      }));
-      values.forEach(v => {
-        const binIndex = Math.min(Math.floor((v - min) / step), bins - 1);
-        distribution[binIndex].frequency++;
-      });
-      return distribution;
-    }
+const ChartBuilder: React.FC<ChartBuilderProps> = ({
+  data, metadata, datasetName, comparison, initialSettings, onSettingsChange, dashboards = [], onPin
+}) => {
+  const hasColumn = (name?: string) => !!name && metadata.some(m => m.name === name);
+
+  const [chartType, setChartType] = useState<ChartType>(initialSettings?.chartType ?? 'bar');
+  const [xAxis, setXAxis] = useState<string>(hasColumn(initialSettings?.xAxis) ? initialSettings!.xAxis : metadata.find(m => isCategoricalType(m.type))?.name || metadata[0].name);
+  const [yAxis, setYAxis] = useState<string>(hasColumn(initialSettings?.yAxis) ? initialSettings!.yAxis : metadata.find(m => m.type === 'number')?.name || metadata[0].name);
+  const [period, setPeriod] = useState<TimePeriod>(initialSettings?.period ?? 'day');
+  const [roundColumn, setRoundColumn] = useState<string>(hasColumn(initialSettings?.roundColumn) ? initialSettings!.roundColumn : metadata.find(m => isCategoricalType(m.type))?.name || '');
+  const [rollingWindow, setRollingWindow] = useState(initialSettings?.rollingWindow ?? 1);
+  const [aggregation, setAggregation] = useState<ChartAggregation>(initialSettings?.aggregation ?? CHART_DEFAULTS.aggregation);
+  const [sortOrder, setSortOrder] = useState<ChartSortOrder>(initialSettings?.sortOrder ?? CHART_DEFAULTS.sortOrder);
+  const [topN, setTopN] = useState(initialSettings?.topN ?? CHART_DEFAULTS.topN);
+  const [otherBucket, setOtherBucket] = useState(initialSettings?.otherBucket ?? CHART_DEFAULTS.otherBucket);
+  const [extraMetrics, setExtraMetrics] = useState<string[]>((initialSettings?.extraMetrics ?? []).filter(hasColumn));
+  const [secondaryAxis, setSecondaryAxis] = useState<string[]>(initialSettings?.secondaryAxis ?? []);
+  const [seriesColumn, setSeriesColumn] = useState(hasColumn(initialSettings?.seriesColumn) ? initialSettings!.seriesColumn : '');
+  const [barMode, setBarMode] = useState<BarMode>(initialSettings?.barMode ?? CHART_DEFAULTS.barMode);
+  const [sizeColumn, setSizeColumn] = useState(hasColumn(initialSettings?.sizeColumn) ? initialSettings!.sizeColumn : '');
+  const [trendLine, setTrendLine] = useState(initialSettings?.trendLine ?? CHART_DEFAULTS.trendLine);
+  const [binRule, setBinRule] = useState<HistogramBinRule>(initialSettings?.binRule ?? CHART_DEFAULTS.binRule);
+  const [binCount, setBinCount] = useState(initialSettings?.binCount ?? CHART_DEFAULTS.binCount);
+  const [binEdges, setBinEdges] = useState<number[]>(initialSettings?.binEdges ?? CHART_DEFAULTS.binEdges);
+  const [edgesText, setEdgesText] = useState(binEdges.join('; '));
+  const [showDensity, setShowDensity] = useState(initialSettings?.showDensity ?? CHART_DEFAULTS.showDensity);
+
+  const settings = useMemo<ChartSettings>(
+    () => ({
+      chartType, xAxis, yAxis, period, roundColumn, rollingWindow, aggregation, sortOrder, topN, otherBucket,
+      extraMetrics, secondaryAxis, seriesColumn, barMode, sizeColumn, trendLine, binRule, binCount, binEdges, showDensity
+    }),
+    [
+      chartType, xAxis, yAxis, period, roundColumn, rollingWindow, aggregation, sortOrder, topN, otherBucket,
+      extraMetrics, secondaryAxis, seriesColumn, barMode, sizeColumn, trendLine, binRule, binCount, binEdges, showDensity
+    ]
+  );
+  const [showPinMenu, setShowPinMenu] = useState(false);
+  const [pinnedTo, setPinnedTo] = useState<string | null>(null);
+
+  const onSettingsChangeRef = useRef(onSettingsChange);
+  onSettingsChangeRef.current = onSettingsChange;
+
+  useEffect(() => {
+    onSettingsChangeRef.current?.(settings);
+  }, [settings]);
 
-    // Categorical grouping for other charts
-    const grouped: { [key: string]: number[] } = {};
-    data.slice(0, 500).forEach(d => {
-      const xVal = String(d[xAxis] || 'N/A');
-      const yVal = Number(d[yAxis]) || 0;
-      if (!grouped[xVal]) grouped[xVal] = [];
-      grouped[xVal].push(yVal);
-    });
+  useEffect(() => {
+    if (!pinnedTo) return;
+    const timer = setTimeout(() => setPinnedTo(null), 2500);
+    return () => clearTimeout(timer);
+  }, [pinnedTo]);
 
-    return Object.keys(grouped).map(key => ({
-      name: key,
-      value: grouped[key].reduce((a, b) => a + b, 0) / grouped[key].length
-    })).sort((a, b) => b.value - a.value).slice(0, 15);
-  }, [data, xAxis, yAxis, chartType]);
+  const isTimeSeries = isTimeSeriesChart(settings, metadata);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { title: chartTitle, label: chartLabel, subtitle: chartSubtitle, measure } = describeChart(settings, metadata);
+  const usesAggregation = chartType === 'bar' || chartType === 'line' || chartType === 'pie';
+  const isMultiSeries = isMultiSeriesChart(settings);
+  const usesGrouping = (usesAggregation && !isTimeSeries) || chartType === 'box';
+  // Recuento y valores únicos también tienen sentido sobre columnas de texto
+  const metricColumns = usesAggregation && !isNumericAggregation(aggregation) ? metadata : metadata.filter(m => m.type === 'number');
+
+  const supportsSeries = chartType === 'bar' || chartType === 'line';
+  const showsBarMode = (chartType === 'bar' && isMultiSeries) || (chartType === 'histogram' && seriesColumn !== '');
+
+  // Mismas series y cortes que el gráfico, para el panel de estadísticos y el texto de ayuda
+  const distribution = useMemo(() => {
+    if (chartType !== 'histogram') return null;
+    const groups = histogramSeries(settings, data, datasetName, comparison);
+    const values = groups.flatMap(group => group.values);
+    const layout = computeBinLayout(values, binRule, binCount, binEdges);
+    return {
+      groups: groups.map(group => ({ label: group.definition.label, values: group.values })),
+      layout,
+      outside: values.filter(value => binIndex(layout.edges, value) < 0).length
+    };
+  }, [chartType, settings, data, datasetName, comparison, binRule, binCount, binEdges]);
+  const toggleListItem = (list: string[], item: string) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  const changeChartType = (next: ChartType) => {
+    setChartType(next);
+    const numericY = next === 'histogram' || next === 'scatter' || next === 'box';
+    const nextY = numericY && metadata.find(m => m.name === yAxis)?.type !== 'number'
+      ? metadata.find(m => m.type === 'number')?.name ?? yAxis
+      : yAxis;
+    setYAxis(nextY);
+    // Cada tipo admite ejes X distintos: numérico para dispersión, categórico para cajas
+    const validX = xAxisColumns(next, metadata);
+    if (next !== 'histogram' && next !== 'heatmap' && !validX.some(m => m.name === xAxis)) {
+      setXAxis(validX.find(m => m.name !== nextY)?.name ?? validX[0]?.name ?? xAxis);
+    }
+  };
+
+  const changeAggregation = (next: ChartAggregation) => {
+    setAggregation(next);
+    if (isNumericAggregation(next) && metadata.find(m => m.name === yAxis)?.type !== 'number') {
+      setYAxis(metadata.find(m => m.type === 'number')?.name ?? yAxis);
+    }
+  };
 
-  const COLORS = ['#1e3a8a', '#d4af37', '#64748b', '#3b82f6', '#10b981', '#F59E0B', '#EF4444'];
+  const pinTo = (dashboard: DashboardLayout) => {
+    onPin?.(dashboard.id, settings, chartLabel);
+    setShowPinMenu(false);
+    setPinnedTo(dashboard.name);
+  };
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 animate-fadeIn">
@@ -74,11 +144,14 @@ const ChartBuilder: React.FC<ChartBuilderProps> = ({ data, metadata }) => {
                   { id: 'bar', icon: BarIcon, label: 'Barras' },
                   { id: 'line', icon: LineIcon, label: 'Evolución' },
                   { id: 'pie', icon: PieIcon, label: 'Sector' },
-                  { id: 'histogram', icon: BarChart3, label: 'Histograma' }
+                  { id: 'histogram', icon: BarChart3, label: 'Histograma' },
+                  { id: 'scatter', icon: ScatterChart, label: 'Dispersión' },
+                  { id: 'box', icon: CandlestickChart, label: 'Cajas' },
+                  { id: 'heatmap', icon: Grid3x3, label: 'Correlación' }
                 ].map(type => (
                   <button 
                     key={type.id}
-                    onClick={() => setChartType(type.id as any)}
+                    onClick={() => changeChartType(type.id as ChartType)}
                     className={`flex flex-col items-center gap-2 p-4 rounded-2xl transition-all border ${chartType === type.id ? 'bg-deepblue-950 text-white border-deepblue-950 shadow-lg scale-105' : 'bg-gray-50 text-gray-400 border-gray-100 hover:bg-gray-100'}`}
                   >
                     <type.icon size={18} />
@@ -89,7 +162,12 @@ const ChartBuilder: React.FC<ChartBuilderProps> = ({ data, metadata }) => {
             </div>
 
             <div className="space-y-5 pt-4 border-t border-gray-50">
-              {chartType !== 'histogram' && (
+              {chartType === 'heatmap' && (
+                <p className="text-xs text-gray-500 leading-relaxed">
+                  Coeficiente de Pearson entre todas las columnas numéricas, calculado sobre las filas con ambos valores.
+                </p>
+              )}
+              {chartType !== 'histogram' && chartType !== 'heatmap' && (
                 <div>
                   <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Dimensión (X)</label>
                   <select 
@@ -97,24 +175,287 @@ const ChartBuilder: React.FC<ChartBuilderProps> = ({ data, metadata }) => {
                     onChange={(e) => setXAxis(e.target.value)}
                     className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
                   >
-                    {metadata.filter(m => m.type === 'string').map(m => (
+                    {xAxisColumns(chartType, metadata).map(m => (
                       <option key={m.name} value={m.name}>{m.name}</option>
                     ))}
                   </select>
                 </div>
               )}
-              <div>
-                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Métrica (Y)</label>
-                <select 
-                  value={yAxis}
-                  onChange={(e) => setYAxis(e.target.value)}
-                  className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
-                >
-                  {metadata.filter(m => m.type === 'number').map(m => (
-                    <option key={m.name} value={m.name}>{m.name}</option>
-                  ))}
-                </select>
-              </div>
+              {chartType !== 'heatmap' && (
+                <div>
+                  <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Métrica (Y)</label>
+                  <select 
+                    value={yAxis}
+                    onChange={(e) => setYAxis(e.target.value)}
+                    className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                  >
+                    {metricColumns.map(m => (
+                      <option key={m.name} value={m.name}>{m.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {chartType === 'scatter' && (
+                <>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Color</label>
+                    <select 
+                      value={seriesColumn}
+                      onChange={(e) => setSeriesColumn(e.target.value)}
+                      className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      <option value="">Sin color</option>
+                      {metadata.filter(m => isCategoricalType(m.type)).map(m => (
+                        <option key={m.name} value={m.name}>{m.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Tamaño</label>
+                    <select 
+                      value={sizeColumn}
+                      onChange={(e) => setSizeColumn(e.target.value)}
+                      className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      <option value="">Tamaño fijo</option>
+                      {metadata.filter(m => m.type === 'number').map(m => (
+                        <option key={m.name} value={m.name}>{m.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input type="checkbox" checked={trendLine} onChange={() => setTrendLine(!trendLine)} className="accent-gold-500" />
+                    <span className="text-[10px] font-bold text-gray-500 uppercase">Línea de tendencia (R²)</span>
+                  </label>
+                </>
+              )}
+              {usesAggregation && (
+                <div>
+                  <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Agregación</label>
+                  <select 
+                    value={aggregation}
+                    onChange={(e) => changeAggregation(e.target.value as ChartAggregation)}
+                    className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                  >
+                    {CHART_AGGREGATIONS.map(a => (
+                      <option key={a.id} value={a.id}>{a.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {supportsSeries && (
+                <>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Métricas Adicionales</label>
+                    <div className="space-y-1.5 max-h-48 overflow-y-auto">
+                      {metadata.filter(m => m.type === 'number' && m.name !== yAxis).map(m => {
+                        const selected = extraMetrics.includes(m.name);
+                        return (
+                          <div key={m.name} className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-gray-50 border border-gray-100">
+                            <label className="flex items-center gap-2 cursor-pointer min-w-0">
+                              <input type="checkbox" checked={selected} onChange={() => setExtraMetrics(toggleListItem(extraMetrics, m.name))} className="accent-gold-500" />
+                              <span className="text-xs font-medium text-gray-700 truncate">{m.name}</span>
+                            </label>
+                            {selected && (
+                              <button
+                                onClick={() => setSecondaryAxis(toggleListItem(secondaryAxis, m.name))}
+                                title="Mostrar en el eje Y secundario"
+                                className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-tight transition-all ${
+                                  secondaryAxis.includes(m.name) ? 'bg-deepblue-950 text-gold-400' : 'bg-white border border-gray-200 text-gray-400'
+                                }`}
+                              >
+                                Eje Der.
+                              </button>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Serie (Color)</label>
+                    <select 
+                      value={seriesColumn}
+                      onChange={(e) => setSeriesColumn(e.target.value)}
+                      className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      <option value="">Sin dividir</option>
+                      {metadata.filter(m => isCategoricalType(m.type) && m.name !== xAxis).map(m => (
+                        <option key={m.name} value={m.name}>{m.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+              {chartType === 'histogram' && (
+                <>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Intervalos</label>
+                    <select 
+                      value={binRule}
+                      onChange={(e) => setBinRule(e.target.value as HistogramBinRule)}
+                      className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      {HISTOGRAM_BIN_RULES.map(rule => (
+                        <option key={rule.id} value={rule.id}>{rule.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {binRule === 'fixed' && (
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Número de Intervalos</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_BINS}
+                        value={binCount}
+                        onChange={(e) => setBinCount(Math.min(MAX_BINS, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+                        className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                      />
+                    </div>
+                  )}
+                  {binRule === 'custom' && (
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Cortes</label>
+                      <input
+                        type="text"
+                        value={edgesText}
+                        onChange={(e) => {
+                          setEdgesText(e.target.value);
+                          setBinEdges(parseBinEdges(e.target.value));
+                        }}
+                        placeholder="0; 10; 25; 50; 100"
+                        className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                      />
+                      <p className="text-[10px] text-gray-400 mt-2">
+                        {distribution?.layout.rule === 'custom'
+                          ? 'Separe los cortes con punto y coma o espacios.'
+                          : 'Indique al menos dos cortes; mientras tanto se aplica Sturges.'}
+                      </p>
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Dividir por Categoría</label>
+                    <select 
+                      value={seriesColumn}
+                      onChange={(e) => setSeriesColumn(e.target.value)}
+                      className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      <option value="">Sin dividir</option>
+                      {metadata.filter(m => isCategoricalType(m.type)).map(m => (
+                        <option key={m.name} value={m.name}>{m.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input type="checkbox" checked={showDensity} onChange={() => setShowDensity(!showDensity)} className="accent-gold-500" />
+                    <span className="text-[10px] font-bold text-gray-500 uppercase">Curva de densidad</span>
+                  </label>
+                </>
+              )}
+              {showsBarMode && (
+                <div>
+                  <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Modo de Barras</label>
+                  <div className="grid grid-cols-3 gap-1 bg-gray-50 border border-gray-100 rounded-xl p-1">
+                    {([
+                      { id: 'grouped', label: 'Agrupadas' },
+                      { id: 'stacked', label: 'Apiladas' },
+                      { id: 'percent', label: '100%' }
+                    ] as { id: BarMode; label: string }[]).map(mode => (
+                      <button
+                        key={mode.id}
+                        onClick={() => setBarMode(mode.id)}
+                        className={`py-2 rounded-lg text-[9px] font-black uppercase tracking-tight transition-all ${
+                          barMode === mode.id ? 'bg-deepblue-950 text-white shadow' : 'text-gray-400 hover:text-gray-600'
+                        }`}
+                      >
+                        {mode.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {usesGrouping && (
+                <>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Orden</label>
+                    <select 
+                      value={sortOrder}
+                      onChange={(e) => setSortOrder(e.target.value as ChartSortOrder)}
+                      className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      {CHART_SORT_ORDERS.map(o => (
+                        <option key={o.id} value={o.id}>{o.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Categorías Mostradas</label>
+                    <select 
+                      value={topN}
+                      onChange={(e) => setTopN(Number(e.target.value))}
+                      className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      {[5, 10, 15, 25, 50].map(n => (
+                        <option key={n} value={n}>Top {n}</option>
+                      ))}
+                      <option value={0}>Todas</option>
+                    </select>
+                  </div>
+                  {topN > 0 && chartType !== 'box' && (
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input type="checkbox" checked={otherBucket} onChange={() => setOtherBucket(!otherBucket)} className="accent-gold-500" />
+                      <span className="text-[10px] font-bold text-gray-500 uppercase">Agrupar el resto en "{OTHER_LABEL}"</span>
+                    </label>
+                  )}
+                </>
+              )}
+              {isTimeSeries && (
+                <>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Periodo</label>
+                    <select 
+                      value={period}
+                      onChange={(e) => setPeriod(e.target.value as TimePeriod)}
+                      className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      <option value="day">Día</option>
+                      <option value="week">Semana</option>
+                      <option value="month">Mes</option>
+                      <option value="round">Ronda del torneo</option>
+                    </select>
+                  </div>
+                  {period === 'round' && (
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Columna de Ronda</label>
+                      <select 
+                        value={roundColumn}
+                        onChange={(e) => setRoundColumn(e.target.value)}
+                        className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                      >
+                        {metadata.filter(m => m.name !== xAxis).map(m => (
+                          <option key={m.name} value={m.name}>{m.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {!isMultiSeries && (
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-400 uppercase mb-2">Media Móvil</label>
+                      <select 
+                        value={rollingWindow}
+                        onChange={(e) => setRollingWindow(Number(e.target.value))}
+                        className="w-full bg-gray-50 border border-gray-200 rounded-xl py-3 px-4 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                      >
+                        <option value={1}>Sin suavizado</option>
+                        <option value={3}>3 periodos</option>
+                        <option value={5}>5 periodos</option>
+                        <option value={7}>7 periodos</option>
+                      </select>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -125,7 +466,10 @@ const ChartBuilder: React.FC<ChartBuilderProps> = ({ data, metadata }) => {
               <h4 className="text-[10px] font-bold uppercase tracking-widest">Contexto Académico</h4>
            </div>
            <p className="text-[10px] text-blue-200/50 leading-relaxed">
-             Los histogramas permiten visualizar la frecuencia de distribución de sus datos numéricos en 10 intervalos automáticos.
+             {distribution
+               ? `Este histograma agrupa ${yAxis} en ${describeBinRule(distribution.layout)}.`
+               : 'Los histogramas permiten visualizar la frecuencia de distribución de sus datos numéricos con el criterio de intervalos que elija.'}
+             {distribution && distribution.outside > 0 && ` ${distribution.outside} valores quedan fuera de los cortes.`}
            </p>
         </div>
       </div>
@@ -135,67 +479,53 @@ const ChartBuilder: React.FC<ChartBuilderProps> = ({ data, metadata }) => {
         <div className="mb-12 border-b border-gray-50 pb-8 flex justify-between items-end">
           <div>
             <h2 className="text-3xl font-serif font-bold text-gray-900 tracking-tight">
-              {chartType === 'histogram' ? `Distribución de ${yAxis}` : `Análisis Comparativo`}
+              {chartTitle}
             </h2>
             <p className="text-sm text-gray-400 font-medium mt-1">
-              Visualizando <span className="text-gold-600 font-black">{yAxis}</span> {chartType !== 'histogram' ? `por ${xAxis}` : 'en intervalos de frecuencia'}
+              Visualizando <span className="text-gold-600 font-black">{measure}</span> {chartSubtitle}
             </p>
           </div>
-        </div>
-
-        <div className="flex-grow">
-          <ResponsiveContainer width="100%" height="100%">
-            {chartType === 'histogram' ? (
-              <BarChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
-                <XAxis dataKey="range" axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 9, fontWeight: 700}} height={50} />
-                <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} />
-                <Tooltip contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }} />
-                <Bar dataKey="frequency" fill="#1e3a8a" radius={[10, 10, 0, 0]} />
-              </BarChart>
-            ) : chartType === 'bar' ? (
-              <BarChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
-                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 9, fontWeight: 700}} height={60} angle={-25} textAnchor="end" />
-                <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} />
-                <Tooltip cursor={{fill: '#F8FAFC'}} contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }} />
-                <Bar dataKey="value" fill="#d4af37" radius={[10, 10, 0, 0]} barSize={40} />
-              </BarChart>
-            ) : chartType === 'line' ? (
-              <AreaChart data={chartData}>
-                <defs>
-                  <linearGradient id="colorVal" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#1e3a8a" stopOpacity={0.3}/>
-                    <stop offset="95%" stopColor="#1e3a8a" stopOpacity={0}/>
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
-                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} height={60} />
-                <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} />
-                <Tooltip />
-                <Area type="monotone" dataKey="value" stroke="#1e3a8a" strokeWidth={4} fillOpacity={1} fill="url(#colorVal)" />
-              </AreaChart>
-            ) : (
-              <PieChart>
-                <Pie
-                  data={chartData}
-                  cx="50%"
-                  cy="45%"
-                  innerRadius={110}
-                  outerRadius={160}
-                  paddingAngle={8}
-                  dataKey="value"
+          <div className="flex items-center gap-3">
+            {onPin && dashboards.length > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => dashboards.length === 1 ? pinTo(dashboards[0]) : setShowPinMenu(!showPinMenu)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                    pinnedTo ? 'bg-green-50 text-green-700 border border-green-100' : 'bg-white border border-gray-200 text-gray-500 hover:bg-gray-50'
+                  }`}
                 >
-                  {chartData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Pie>
-                <Tooltip />
-                <Legend iconType="circle" />
-              </PieChart>
+                  {pinnedTo ? <Check size={12} /> : <Pin size={12} />}
+                  {pinnedTo ? `Fijado en ${pinnedTo}` : 'Fijar al Dashboard'}
+                </button>
+                {showPinMenu && (
+                  <div className="absolute right-0 mt-2 w-56 bg-white rounded-2xl shadow-xl border border-gray-100 p-2 z-20">
+                    {dashboards.map(dashboard => (
+                      <button
+                        key={dashboard.id}
+                        onClick={() => pinTo(dashboard)}
+                        className="w-full text-left px-4 py-2 rounded-xl text-xs font-bold text-gray-700 hover:bg-gold-50 transition-all"
+                      >
+                        {dashboard.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             )}
-          </ResponsiveContainer>
+            <ChartExportMenu targetRef={chartRef} title={chartLabel} />
+          </div>
+        </div>
+
+        <div ref={chartRef} data-chart-title={chartLabel} className="flex-grow">
+          <ChartView
+            settings={settings}
+            data={data}
+            metadata={metadata}
+            datasetName={datasetName}
+            comparison={comparison}
+          />
         </div>
+        {distribution && <DistributionStats groups={distribution.groups} />}
       </div>
     </div>
   );
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { exportChartPng, exportChartSvg } from '../utils/chartExport';
+import { ImageDown } from 'lucide-react';
+
+interface ChartExportMenuProps {
+  targetRef: React.RefObject<HTMLElement>;
+  title: string;
+}
+
+const SCALES = [1, 2, 3, 4];
+
+const ChartExportMenu: React.FC<ChartExportMenuProps> = ({ targetRef, title }) => {
+  const [scale, setScale] = useState(2);
+
+  const handlePng = () => {
+    if (!targetRef.current) return;
+    exportChartPng(targetRef.current, title, scale).catch(error => {
+      console.error("Error al exportar el gráfico:", error);
+      alert("No se pudo exportar el gráfico como PNG.");
+    });
+  };
+
+  const buttonClass = "px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-gold-600 hover:bg-white transition-all";
+
+  return (
+    <div className="flex items-center gap-1 bg-gray-50 border border-gray-100 rounded-xl p-1">
+      <ImageDown size={14} className="text-gray-400 mx-1" />
+      <button onClick={() => targetRef.current && exportChartSvg(targetRef.current, title)} className={buttonClass}>SVG</button>
+      <button onClick={handlePng} className={buttonClass}>PNG</button>
+      <select
+        value={scale}
+        onChange={(e) => setScale(Number(e.target.value))}
+        title="Resolución del PNG"
+        className="bg-transparent text-[10px] font-black text-gray-400 outline-none cursor-pointer pr-1"
+      >
+        {SCALES.map(s => <option key={s} value={s}>{s}x</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default ChartExportMenu;
@@ -0,0 +1,330 @@
+import React, { useMemo, useState } from 'react';
+import { DataRow, ColumnMetadata, ChartSettings, ComparisonDataset } from '../types';
+import {
+  BoxPlotDatum, buildBoxPlotData, buildChartData, buildHistogramData, buildMultiSeriesData, buildScatterData, isMultiSeriesChart, isTimeSeriesChart, withChartDefaults
+} from '../utils/chartData';
+import CorrelationHeatmap from '../components/CorrelationHeatmap';
+import {
+  BarChart, Bar, Line, PieChart, Pie, Cell, ScatterChart, Scatter, ZAxis, ReferenceLine,
+  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, Area, ComposedChart
+} from 'recharts';
+
+interface ChartViewProps {
+  settings: ChartSettings;
+  data: DataRow[];
+  metadata: ColumnMetadata[];
+  datasetName?: string;
+  comparison?: ComparisonDataset | null;
+  compact?: boolean;
+}
+
+const COLORS = ['#1e3a8a', '#d4af37', '#64748b', '#3b82f6', '#10b981', '#F59E0B', '#EF4444'];
+const SERIES_COLORS = [...COLORS, '#8b5cf6', '#0ea5e9', '#f97316', '#14b8a6', '#ec4899'];
+const AXIS_TICK = { fill: '#94A3B8', fontSize: 10 };
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+const TOOLTIP_STYLE = { borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' };
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface BoxShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  fill?: string;
+  payload?: BoxPlotDatum;
+}
+
+// Recharts entrega el rectángulo del rango completo; el resto de cotas se interpolan dentro de él
+const BoxShape: React.FC<BoxShapeProps> = ({ x = 0, y = 0, width = 0, height = 0, fill = '#1e3a8a', payload }) => {
+  if (!payload) return null;
+  const top = Math.min(y, y + height);
+  const bottom = Math.max(y, y + height);
+  const [low, high] = payload.range;
+  const toPixel = (value: number) => high === low ? (top + bottom) / 2 : bottom - ((value - low) / (high - low)) * (bottom - top);
+  const cx = x + width / 2;
+  const boxWidth = Math.min(width * 0.6, 56);
+  const capWidth = boxWidth / 2;
+  const q1 = toPixel(payload.q1);
+  const q3 = toPixel(payload.q3);
+
+  return (
+    <g>
+      <line x1={cx} x2={cx} y1={toPixel(payload.max)} y2={toPixel(payload.min)} stroke="#64748B" strokeWidth={1.5} />
+      <line x1={cx - capWidth / 2} x2={cx + capWidth / 2} y1={toPixel(payload.max)} y2={toPixel(payload.max)} stroke="#64748B" strokeWidth={1.5} />
+      <line x1={cx - capWidth / 2} x2={cx + capWidth / 2} y1={toPixel(payload.min)} y2={toPixel(payload.min)} stroke="#64748B" strokeWidth={1.5} />
+      <rect x={cx - boxWidth / 2} y={Math.min(q1, q3)} width={boxWidth} height={Math.max(1, Math.abs(q1 - q3))} rx={6} fill={fill} fillOpacity={0.85} />
+      <line x1={cx - boxWidth / 2} x2={cx + boxWidth / 2} y1={toPixel(payload.median)} y2={toPixel(payload.median)} stroke="#d4af37" strokeWidth={3} />
+      {payload.outliers.map((value, i) => (
+        <circle key={i} cx={cx} cy={toPixel(value)} r={3.5} fill="#FFFFFF" stroke="#EF4444" strokeWidth={1.5} />
+      ))}
+    </g>
+  );
+};
+
+const BoxTooltip: React.FC<{ active?: boolean; payload?: { payload: BoxPlotDatum }[] }> = ({ active, payload }) => {
+  if (!active || !payload?.length) return null;
+  const box = payload[0].payload;
+  const rows: [string, string][] = [
+    ['Máximo', formatNumber(box.max)],
+    ['Q3', formatNumber(box.q3)],
+    ['Mediana', formatNumber(box.median)],
+    ['Q1', formatNumber(box.q1)],
+    ['Mínimo', formatNumber(box.min)],
+    ['Observaciones', String(box.count)],
+    ['Atípicos', String(box.outliers.length)]
+  ];
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-4 text-xs">
+      <p className="font-black text-gray-900 mb-2">{box.name}</p>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-6">
+          <span className="text-gray-400 font-bold">{label}</span>
+          <span className="font-black text-gray-700">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ChartView: React.FC<ChartViewProps> = ({ settings, data, metadata, datasetName, comparison, compact = false }) => {
+  const { chartType, xAxis, yAxis, rollingWindow, barMode, sizeColumn } = withChartDefaults(settings);
+  const isTimeSeries = isTimeSeriesChart(settings, metadata);
+  const isMultiSeries = isMultiSeriesChart(settings);
+  const seriesName = datasetName || yAxis;
+  const isStatistical = chartType === 'histogram' || chartType === 'scatter' || chartType === 'box' || chartType === 'heatmap';
+  const chartData = useMemo(
+    () => isMultiSeries || isStatistical ? [] : buildChartData(settings, metadata, data, comparison),
+    [settings, metadata, data, comparison, isMultiSeries, isStatistical]
+  );
+  const histogram = useMemo(
+    () => chartType === 'histogram' ? buildHistogramData(settings, data, datasetName, comparison) : null,
+    [chartType, settings, data, datasetName, comparison]
+  );
+  const scatter = useMemo(
+    () => chartType === 'scatter' ? buildScatterData(settings, data, datasetName, comparison) : null,
+    [chartType, settings, data, datasetName, comparison]
+  );
+  const boxes = useMemo(
+    () => chartType === 'box' ? buildBoxPlotData(settings, data) : [],
+    [chartType, settings, data]
+  );
+  const multiSeries = useMemo(
+    () => isMultiSeries ? buildMultiSeriesData(settings, metadata, data, comparison) : null,
+    [settings, metadata, data, comparison, isMultiSeries]
+  );
+
+  // La leyenda activa y desactiva series; las ocultas conservan su entrada atenuada
+  const [hiddenSeries, setHiddenSeries] = useState<string[]>([]);
+  const [hiddenFor, setHiddenFor] = useState(settings);
+  if (hiddenFor !== settings) {
+    setHiddenFor(settings);
+    setHiddenSeries([]);
+  }
+  const isHidden = (key: string) => hiddenSeries.includes(key);
+  const toggleSeries = (entry: { dataKey?: unknown; value?: unknown }) => {
+    // Los puntos de dispersión no tienen dataKey: se identifican por su nombre
+    const key = String(entry.dataKey ?? entry.value);
+    setHiddenSeries(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+  const hasRightAxis = !!multiSeries?.series.some(series => series.axis === 'right');
+  const legendProps = { iconType: 'circle' as const, verticalAlign: 'top' as const, height: 36, onClick: toggleSeries, wrapperStyle: { cursor: 'pointer' } };
+  // Varios gráficos conviven en el dashboard: los degradados necesitan ids propios
+  const gradientId = useMemo(() => `gradient-${Math.random().toString(36).slice(2, 8)}`, []);
+
+  if (chartType === 'heatmap') return <CorrelationHeatmap data={data} metadata={metadata} />;
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      {scatter ? (
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="3 3" stroke="#F1F5F9" />
+          <XAxis type="number" dataKey="x" name={xAxis} domain={['auto', 'auto']} axisLine={false} tickLine={false} tick={AXIS_TICK} height={40} />
+          <YAxis type="number" dataKey="y" name={yAxis} domain={['auto', 'auto']} axisLine={false} tickLine={false} tick={AXIS_TICK} />
+          <ZAxis type="number" dataKey="z" name={sizeColumn || undefined} range={sizeColumn ? [30, 400] : [50, 50]} />
+          <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={TOOLTIP_STYLE} />
+          {scatter.groups.length > 1 && <Legend {...legendProps} />}
+          {scatter.groups.map((group, index) => (
+            <Scatter
+              key={group.name}
+              name={group.name}
+              data={group.points}
+              fill={SERIES_COLORS[index % SERIES_COLORS.length]}
+              fillOpacity={0.65}
+              isAnimationActive={scatter.shown < 500}
+              hide={isHidden(group.name)}
+            />
+          ))}
+          {scatter.trend && (
+            <ReferenceLine
+              segment={[scatter.trend.from, scatter.trend.to]}
+              stroke="#d4af37"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              ifOverflow="extendDomain"
+              label={{ value: `R² = ${scatter.trend.r2.toFixed(3)}`, position: 'insideTopRight', fill: '#b8860b', fontSize: 11, fontWeight: 700 }}
+            />
+          )}
+        </ScatterChart>
+      ) : chartType === 'box' ? (
+        <BarChart data={boxes}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{...AXIS_TICK, fontSize: 9, fontWeight: 700}} height={60} angle={-25} textAnchor="end" />
+          <YAxis domain={['auto', 'auto']} axisLine={false} tickLine={false} tick={AXIS_TICK} />
+          <Tooltip cursor={{fill: '#F8FAFC'}} content={<BoxTooltip />} />
+          <Bar dataKey="range" name={yAxis} fill="#1e3a8a" shape={<BoxShape />} isAnimationActive={false} />
+        </BarChart>
+      ) : multiSeries && chartType === 'bar' ? (
+        <BarChart data={multiSeries.data} stackOffset={barMode === 'percent' ? 'expand' : 'none'}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{...AXIS_TICK, fontSize: 9, fontWeight: 700}} height={60} angle={-25} textAnchor="end" />
+          <YAxis yAxisId="left" axisLine={false} tickLine={false} tick={AXIS_TICK} tickFormatter={barMode === 'percent' ? formatPercent : undefined} />
+          {hasRightAxis && (
+            <YAxis yAxisId="right" orientation="right" axisLine={false} tickLine={false} tick={AXIS_TICK} tickFormatter={barMode === 'percent' ? formatPercent : undefined} />
+          )}
+          <Tooltip cursor={{fill: '#F8FAFC'}} contentStyle={TOOLTIP_STYLE} />
+          <Legend {...legendProps} />
+          {multiSeries.series.map((series, index) => (
+            <Bar
+              key={series.key}
+              dataKey={series.key}
+              name={series.label}
+              yAxisId={series.axis}
+              stackId={barMode === 'grouped' ? undefined : series.axis}
+              fill={SERIES_COLORS[index % SERIES_COLORS.length]}
+              fillOpacity={series.fromComparison ? 0.5 : 1}
+              radius={barMode === 'grouped' ? [6, 6, 0, 0] : undefined}
+              hide={isHidden(series.key)}
+            />
+          ))}
+        </BarChart>
+      ) : multiSeries ? (
+        <ComposedChart data={multiSeries.data}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={AXIS_TICK} height={60} />
+          <YAxis yAxisId="left" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+          {hasRightAxis && <YAxis yAxisId="right" orientation="right" axisLine={false} tickLine={false} tick={AXIS_TICK} />}
+          <Tooltip contentStyle={TOOLTIP_STYLE} />
+          <Legend {...legendProps} />
+          {multiSeries.series.map((series, index) => (
+            <Line
+              key={series.key}
+              type="monotone"
+              dataKey={series.key}
+              name={series.label}
+              yAxisId={series.axis}
+              stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+              strokeWidth={3}
+              strokeDasharray={series.fromComparison ? '6 4' : undefined}
+              dot={false}
+              connectNulls
+              hide={isHidden(series.key)}
+            />
+          ))}
+        </ComposedChart>
+      ) : histogram ? (
+        <ComposedChart data={histogram.bins} stackOffset={barMode === 'percent' && histogram.series.length > 1 ? 'expand' : 'none'}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{...AXIS_TICK, fontSize: 9, fontWeight: 700}} height={60} angle={histogram.bins.length > 12 ? -25 : 0} textAnchor={histogram.bins.length > 12 ? 'end' : 'middle'} />
+          <YAxis axisLine={false} tickLine={false} tick={AXIS_TICK} tickFormatter={barMode === 'percent' && histogram.series.length > 1 ? formatPercent : undefined} />
+          <Tooltip cursor={{fill: '#F8FAFC'}} contentStyle={TOOLTIP_STYLE} formatter={(value: number) => formatNumber(value)} />
+          {histogram.series.length > 1 && <Legend {...legendProps} />}
+          {histogram.series.map((series, index) => (
+            <Bar
+              key={series.key}
+              dataKey={series.key}
+              name={series.label}
+              stackId={histogram.series.length > 1 && barMode !== 'grouped' ? 'bins' : undefined}
+              fill={SERIES_COLORS[index % SERIES_COLORS.length]}
+              fillOpacity={series.fromComparison ? 0.5 : 1}
+              radius={barMode === 'grouped' ? [10, 10, 0, 0] : undefined}
+              hide={isHidden(series.key)}
+            />
+          ))}
+          {/* Las curvas de densidad no admiten apilado: solo se dibujan con barras agrupadas */}
+          {(barMode === 'grouped' || histogram.series.length === 1) && histogram.series.map((series, index) => (
+            <Line
+              key={`${series.key}Density`}
+              type="monotone"
+              dataKey={`${series.key}Density`}
+              name={`Densidad · ${series.label}`}
+              stroke={index === 0 && histogram.series.length === 1 ? '#d4af37' : SERIES_COLORS[index % SERIES_COLORS.length]}
+              strokeWidth={2.5}
+              dot={false}
+              legendType="none"
+              hide={isHidden(series.key)}
+            />
+          ))}
+        </ComposedChart>
+      ) : chartType === 'bar' ? (
+        <BarChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 9, fontWeight: 700}} height={60} angle={-25} textAnchor="end" />
+          <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} />
+          <Tooltip cursor={{fill: '#F8FAFC'}} contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }} />
+          <Bar dataKey="value" name={seriesName} fill="#d4af37" radius={[10, 10, 0, 0]} barSize={comparison ? 20 : 40} hide={isHidden('value')} />
+          {comparison && <Bar dataKey="comparison" name={comparison.name} fill="#1e3a8a" radius={[10, 10, 0, 0]} barSize={20} hide={isHidden('comparison')} />}
+          {comparison && <Legend {...legendProps} />}
+        </BarChart>
+      ) : isTimeSeries ? (
+        <ComposedChart data={chartData}>
+          <defs>
+            <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#1e3a8a" stopOpacity={0.3}/>
+              <stop offset="95%" stopColor="#1e3a8a" stopOpacity={0}/>
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} height={60} />
+          <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} />
+          <Tooltip />
+          <Area type="monotone" dataKey="value" name={seriesName} stroke="#1e3a8a" strokeWidth={3} fillOpacity={1} fill={`url(#${gradientId})`} hide={isHidden('value')} />
+          {rollingWindow > 1 && (
+            <Line type="monotone" dataKey="rolling" name={`Media móvil (${rollingWindow})`} stroke="#d4af37" strokeWidth={3} dot={false} hide={isHidden('rolling')} />
+          )}
+          {comparison && (
+            <Line type="monotone" dataKey="comparison" name={comparison.name} stroke="#64748b" strokeWidth={2} strokeDasharray="6 4" dot={false} hide={isHidden('comparison')} />
+          )}
+          {comparison && <Legend {...legendProps} />}
+        </ComposedChart>
+      ) : chartType === 'line' ? (
+        <ComposedChart data={chartData}>
+          <defs>
+            <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#1e3a8a" stopOpacity={0.3}/>
+              <stop offset="95%" stopColor="#1e3a8a" stopOpacity={0}/>
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} height={60} />
+          <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 10}} />
+          <Tooltip />
+          <Area type="monotone" dataKey="value" name={seriesName} stroke="#1e3a8a" strokeWidth={4} fillOpacity={1} fill={`url(#${gradientId})`} hide={isHidden('value')} />
+          {comparison && (
+            <Line type="monotone" dataKey="comparison" name={comparison.name} stroke="#d4af37" strokeWidth={3} dot={false} hide={isHidden('comparison')} />
+          )}
+          {comparison && <Legend {...legendProps} />}
+        </ComposedChart>
+      ) : (
+        <PieChart>
+          <Pie
+            data={chartData}
+            cx="50%"
+            cy="45%"
+            innerRadius={compact ? '45%' : 110}
+            outerRadius={compact ? '70%' : 160}
+            paddingAngle={8}
+            dataKey="value"
+          >
+            {chartData.map((_, index) => (
+              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip />
+          <Legend iconType="circle" />
+        </PieChart>
+      )}
+    </ResponsiveContainer>
+  );
+};
+
+export default ChartView;
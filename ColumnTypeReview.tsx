@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { ColumnMetadata, ColumnType, DateOrder, ImportReview, NumberLocale } from '../types';
+import { coerceValue } from '../utils/dataParsing';
+import { Columns, Check, X } from 'lucide-react';
+
+interface ColumnTypeReviewProps {
+  review: ImportReview;
+  onConfirm: (columns: ColumnMetadata[]) => void;
+  onCancel: () => void;
+}
+
+const TYPE_OPTIONS: { id: ColumnType; label: string }[] = [
+  { id: 'number', label: 'Número' },
+  { id: 'string', label: 'Texto' },
+  { id: 'date', label: 'Fecha' },
+  { id: 'category', label: 'Categoría' },
+  { id: 'boolean', label: 'Booleano' }
+];
+
+const LOCALE_OPTIONS: { id: NumberLocale; label: string }[] = [
+  { id: 'es-ES', label: '1.234,56 (es-ES)' },
+  { id: 'en-US', label: '1,234.56 (en-US)' }
+];
+
+const DATE_ORDER_OPTIONS: { id: DateOrder; label: string }[] = [
+  { id: 'dmy', label: 'dd/mm/aaaa' },
+  { id: 'mdy', label: 'mm/dd/aaaa' }
+];
+
+const SAMPLE_SIZE = 3;
+
+const ColumnTypeReview: React.FC<ColumnTypeReviewProps> = ({ review, onConfirm, onCancel }) => {
+  const [columns, setColumns] = useState<ColumnMetadata[]>(review.columns);
+
+  const updateColumn = (index: number, changes: Partial<ColumnMetadata>) => {
+    setColumns(prev => prev.map((col, i) => {
+      if (i !== index) return col;
+      const next = { ...col, ...changes };
+      if (next.type === 'number' && !next.numberLocale) next.numberLocale = 'en-US';
+      if (next.type === 'date' && !next.dateOrder) next.dateOrder = 'dmy';
+      return next;
+    }));
+  };
+
+  const formatCoerced = (value: string | number, column: ColumnMetadata) => {
+    const coerced = coerceValue(value, column);
+    return coerced === '' ? '∅' : String(coerced);
+  };
+
+  const samplesFor = (column: ColumnMetadata) =>
+    review.preview
+      .map(row => row[column.name])
+      .filter(value => value !== '' && value !== undefined)
+      .slice(0, SAMPLE_SIZE);
+
+  return (
+    <section className="mt-12 bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden animate-fadeIn">
+      <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-col md:flex-row justify-between items-center gap-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gold-50 rounded-2xl">
+            <Columns className="text-gold-600" size={20} />
+          </div>
+          <div>
+            <h3 className="text-xl font-serif font-bold text-gray-900">Revisión de Columnas</h3>
+            <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">
+              {review.fileName}{review.datasetName && ` · ${review.datasetName}`} · {review.rowCount.toLocaleString()} registros · {columns.length} columnas
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest bg-white border border-gray-200 text-gray-600 hover:bg-gray-50 transition-all"
+          >
+            <X size={14} />
+            Descartar
+          </button>
+          <button
+            onClick={() => onConfirm(columns)}
+            className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md"
+          >
+            <Check size={14} />
+            Confirmar Tipos
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-white border-b border-gray-100">
+              {['Columna', 'Tipo', 'Formato', 'Muestra Interpretada'].map(label => (
+                <th key={label} className="px-6 py-5 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {columns.map((column, index) => (
+              <tr key={column.name} className="hover:bg-gold-50/10 transition-colors">
+                <td className="px-6 py-4 text-sm text-gray-900 font-bold">{column.name}</td>
+                <td className="px-6 py-4">
+                  <select
+                    value={column.type}
+                    onChange={(e) => updateColumn(index, { type: e.target.value as ColumnType })}
+                    className="bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                  >
+                    {TYPE_OPTIONS.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-6 py-4">
+                  {column.type === 'number' ? (
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={column.numberLocale ?? 'en-US'}
+                        onChange={(e) => updateColumn(index, { numberLocale: e.target.value as NumberLocale })}
+                        className="bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                      >
+                        {LOCALE_OPTIONS.map(option => (
+                          <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                      </select>
+                      {column.unit && (
+                        <span className="px-2.5 py-1 rounded-md bg-gold-50 text-gold-700 text-[10px] font-black">{column.unit}</span>
+                      )}
+                    </div>
+                  ) : column.type === 'date' ? (
+                    <select
+                      value={column.dateOrder ?? 'dmy'}
+                      onChange={(e) => updateColumn(index, { dateOrder: e.target.value as DateOrder })}
+                      className="bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    >
+                      {DATE_ORDER_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-gray-300">-</span>
+                  )}
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex flex-wrap gap-2">
+                    {samplesFor(column).map((value, idx) => (
+                      <span key={idx} className="font-mono text-[11px] text-gray-500 bg-gray-50 px-2.5 py-1 rounded-md border border-gray-100">
+                        {String(value)} → <span className="text-deepblue-900 font-bold">{formatCoerced(value, column)}</span>
+                      </span>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default ColumnTypeReview;
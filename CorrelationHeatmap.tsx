@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import { ColumnMetadata, DataRow } from '../types';
+import { buildCorrelationMatrix } from '../utils/chartData';
+
+interface CorrelationHeatmapProps {
+  data: DataRow[];
+  metadata: ColumnMetadata[];
+}
+
+const CELL = 56;
+const LABEL_SPACE = 130;
+const SCALE_SPACE = 70;
+
+const NEGATIVE = [185, 28, 28];
+const POSITIVE = [30, 58, 138];
+
+// Escala divergente: rojo para -1, blanco para 0 y azul profundo para +1
+const correlationColor = (r: number | null) => {
+  if (r === null) return '#F1F5F9';
+  const target = r < 0 ? NEGATIVE : POSITIVE;
+  const t = Math.min(1, Math.abs(r));
+  const [red, green, blue] = target.map(c => Math.round(255 + (c - 255) * t));
+  return `rgb(${red}, ${green}, ${blue})`;
+};
+
+const truncate = (label: string, max = 18) => label.length > max ? `${label.slice(0, max - 1)}…` : label;
+
+const CorrelationHeatmap: React.FC<CorrelationHeatmapProps> = ({ data, metadata }) => {
+  const { columns, matrix } = useMemo(() => buildCorrelationMatrix(metadata, data), [metadata, data]);
+  const gradientId = useMemo(() => `correlation-${Math.random().toString(36).slice(2, 8)}`, []);
+
+  if (columns.length < 2) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-gray-400 font-medium">
+        Se necesitan al menos dos columnas numéricas para calcular correlaciones.
+      </div>
+    );
+  }
+
+  const size = columns.length * CELL;
+  const width = LABEL_SPACE + size + SCALE_SPACE;
+  const height = LABEL_SPACE + size + 10;
+
+  return (
+    <svg data-chart-surface viewBox={`0 0 ${width} ${height}`} width="100%" height="100%" fontFamily="inherit">
+      <defs>
+        <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stopColor={correlationColor(1)} />
+          <stop offset="50%" stopColor={correlationColor(0)} />
+          <stop offset="100%" stopColor={correlationColor(-1)} />
+        </linearGradient>
+      </defs>
+
+      {columns.map((column, i) => (
+        <g key={column}>
+          <text x={LABEL_SPACE - 8} y={LABEL_SPACE + i * CELL + CELL / 2} textAnchor="end" dominantBaseline="middle" fontSize={10} fontWeight={700} fill="#64748B">
+            <title>{column}</title>
+            {truncate(column)}
+          </text>
+          <text
+            transform={`translate(${LABEL_SPACE + i * CELL + CELL / 2}, ${LABEL_SPACE - 8}) rotate(-45)`}
+            fontSize={10}
+            fontWeight={700}
+            fill="#64748B"
+          >
+            <title>{column}</title>
+            {truncate(column)}
+          </text>
+        </g>
+      ))}
+
+      {matrix.map((row, i) => row.map((r, j) => (
+        <g key={`${i}-${j}`}>
+          <rect
+            x={LABEL_SPACE + j * CELL}
+            y={LABEL_SPACE + i * CELL}
+            width={CELL - 2}
+            height={CELL - 2}
+            rx={8}
+            fill={correlationColor(r)}
+          >
+            <title>{`${columns[i]} × ${columns[j]}: ${r === null ? 'sin datos suficientes' : `r = ${r.toFixed(3)}`}`}</title>
+          </rect>
+          <text
+            x={LABEL_SPACE + j * CELL + (CELL - 2) / 2}
+            y={LABEL_SPACE + i * CELL + (CELL - 2) / 2}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize={11}
+            fontWeight={700}
+            fill={r !== null && Math.abs(r) > 0.5 ? '#FFFFFF' : '#334155'}
+            pointerEvents="none"
+          >
+            {r === null ? '—' : r.toFixed(2)}
+          </text>
+        </g>
+      )))}
+
+      <rect x={LABEL_SPACE + size + 20} y={LABEL_SPACE} width={14} height={size - 2} rx={7} fill={`url(#${gradientId})`} />
+      {[1, 0, -1].map((value, i) => (
+        <text key={value} x={LABEL_SPACE + size + 40} y={LABEL_SPACE + (i * (size - 2)) / 2} dominantBaseline="middle" fontSize={10} fontWeight={700} fill="#94A3B8">
+          {value > 0 ? '+1' : value}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+export default CorrelationHeatmap;
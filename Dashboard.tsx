@@ -1,156 +1,409 @@
 
-import React, { useMemo } from 'react';
-import { DataRow, ColumnMetadata } from '../types';
+import React, { useMemo, useState } from 'react';
+import { DataRow, ColumnMetadata, ComparisonDataset, KpiAggregation, KpiDefinition, DashboardLayout, DashboardWidget } from '../types';
+import { isCategoricalType } from '../utils/dataParsing';
+import { createDefaultKpiDefinitions, createKpiDefinition, evaluateKpis, formatKpiValue, kpiDelta } from '../utils/kpis';
+import { BUILTIN_WIDGETS, createBuiltinWidget, createDashboard, moveWidget, nextDashboardName } from '../utils/dashboards';
+import { describeChart } from '../utils/chartData';
+import { aggregateByGroup } from '../utils/aggregation';
+import KpiEditor from '../components/KpiEditor';
+import DashboardWidgetCard from '../components/DashboardWidgetCard';
+import ChartView from '../components/ChartView';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Legend } from 'recharts';
-import { TrendingUp, Calculator, Hash, ArrowUpRight, ArrowDownRight, Activity, Percent } from 'lucide-react';
+import { Calculator, Hash, ArrowUpRight, ArrowDownRight, Activity, Percent, Sigma, Fingerprint, CircleSlash, Braces, Settings2, Plus, RotateCcw, LayoutGrid, X } from 'lucide-react';
 
 interface DashboardProps {
   data: DataRow[];
   metadata: ColumnMetadata[];
-  profileImage: string | null;
+  datasetName?: string;
+  comparison?: ComparisonDataset | null;
+  fullData?: DataRow[];
+  kpiDefinitions?: KpiDefinition[] | null;
+  onKpiDefinitionsChange?: (definitions: KpiDefinition[] | null) => void;
+  dashboards: DashboardLayout[];
+  activeDashboardId?: string | null;
+  onDashboardsChange?: (dashboards: DashboardLayout[]) => void;
+  onActiveDashboardChange?: (id: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ data, metadata, profileImage }) => {
+const KPI_STYLES = [
+  { color: 'text-deepblue-900', bg: 'bg-blue-50' },
+  { color: 'text-gold-700', bg: 'bg-gold-50' },
+  { color: 'text-green-700', bg: 'bg-green-50' },
+  { color: 'text-red-700', bg: 'bg-red-50' }
+];
+
+const KPI_ICONS: Record<KpiAggregation, typeof Hash> = {
+  count: Hash,
+  sum: Sigma,
+  mean: Calculator,
+  median: Calculator,
+  percentile: Percent,
+  stdDev: Activity,
+  min: ArrowDownRight,
+  max: ArrowUpRight,
+  distinct: Fingerprint,
+  nulls: CircleSlash,
+  formula: Braces
+};
+
+const Dashboard: React.FC<DashboardProps> = ({
+  data, metadata, datasetName, comparison, fullData, kpiDefinitions, onKpiDefinitionsChange,
+  dashboards, activeDashboardId, onDashboardsChange, onActiveDashboardChange
+}) => {
   const numCols = useMemo(() => metadata.filter(m => m.type === 'number'), [metadata]);
-  const strCols = useMemo(() => metadata.filter(m => m.type === 'string'), [metadata]);
-
-  const kpis = useMemo(() => {
-    if (data.length === 0 || numCols.length === 0) return [];
-    const mainCol = numCols[0].name;
-    const values = data.map(d => Number(d[mainCol])).filter(v => !isNaN(v));
-    
-    const count = data.length;
-    const avg = values.reduce((a, b) => a + b, 0) / (values.length || 1);
-    const max = Math.max(...values);
-    const min = Math.min(...values);
-
-    return [
-      { label: 'Total Registros', value: count, icon: Hash, color: 'text-deepblue-900', bg: 'bg-blue-50' },
-      { label: `Promedio (${mainCol})`, value: avg.toLocaleString(undefined, {maximumFractionDigits: 2}), icon: Calculator, color: 'text-gold-700', bg: 'bg-gold-50' },
-      { label: 'Valor Máximo', value: max.toLocaleString(), icon: ArrowUpRight, color: 'text-green-700', bg: 'bg-green-50' },
-      { label: 'Valor Mínimo', value: min.toLocaleString(), icon: ArrowDownRight, color: 'text-red-700', bg: 'bg-red-50' },
-    ];
-  }, [data, numCols]);
+  const strCols = useMemo(() => metadata.filter(m => isCategoricalType(m.type)), [metadata]);
+  const [isEditingKpis, setIsEditingKpis] = useState(false);
+
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [showWidgetMenu, setShowWidgetMenu] = useState(false);
+
+  const activeDashboard = dashboards.find(d => d.id === activeDashboardId) ?? dashboards[0];
+
+  // Sin disposición guardada se muestran los indicadores por defecto del conjunto
+  const definitions = useMemo(
+    () => kpiDefinitions ?? createDefaultKpiDefinitions(metadata),
+    [kpiDefinitions, metadata]
+  );
+  const kpis = useMemo(
+    () => evaluateKpis(definitions, { data, metadata, comparison, unfiltered: fullData }),
+    [definitions, data, metadata, comparison, fullData]
+  );
+
+  const updateDefinitions = (next: KpiDefinition[]) => onKpiDefinitionsChange?.(next);
+  const changeDefinition = (id: string, changes: Partial<KpiDefinition>) =>
+    updateDefinitions(definitions.map(d => d.id === id ? { ...d, ...changes } : d));
+  const moveDefinition = (index: number, offset: number) => {
+    const next = [...definitions];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    updateDefinitions(next);
+  };
+
+  const updateWidgets = (update: (widgets: DashboardWidget[]) => DashboardWidget[]) =>
+    onDashboardsChange?.(dashboards.map(d => d.id === activeDashboard.id ? { ...d, widgets: update(d.widgets) } : d));
 
+  const addDashboard = () => {
+    const dashboard = createDashboard(nextDashboardName(dashboards));
+    onDashboardsChange?.([...dashboards, dashboard]);
+    onActiveDashboardChange?.(dashboard.id);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) {
+      onDashboardsChange?.(dashboards.map(d => d.id === renamingId ? { ...d, name: draftName.trim() } : d));
+    }
+    setRenamingId(null);
+  };
+
+  const removeDashboard = (dashboard: DashboardLayout) => {
+    if (!window.confirm(`¿Eliminar el dashboard "${dashboard.name}" y sus widgets?`)) return;
+    const remaining = dashboards.filter(d => d.id !== dashboard.id);
+    onDashboardsChange?.(remaining);
+    onActiveDashboardChange?.(remaining[0].id);
+  };
+
+  const dropOn = (targetId: string) => {
+    if (draggingId) updateWidgets(widgets => moveWidget(widgets, draggingId, targetId));
+    setDraggingId(null);
+    setDropTargetId(null);
+  };
+
+  // Mismo motor de agregación que el constructor, sobre todas las filas filtradas
   const chartData = useMemo(() => {
     const stringCol = strCols[0]?.name;
     const numCol = numCols[0]?.name;
     if (!stringCol || !numCol) return [];
-    
-    const grouped: { [key: string]: number[] } = {};
-    data.slice(0, 100).forEach(d => {
-      const key = String(d[stringCol]);
-      grouped[key] = grouped[key] || [];
-      grouped[key].push(Number(d[numCol]));
-    });
-
-    return Object.keys(grouped).slice(0, 10).map(key => ({
-      name: key,
-      value: grouped[key].reduce((a, b) => a + b, 0) / grouped[key].length
-    })).sort((a, b) => b.value - a.value);
-  }, [data, numCols, strCols]);
+    return aggregateByGroup(
+      data,
+      { groupBy: stringCol, measure: numCol, aggregation: 'mean', sortOrder: 'value-desc', topN: 10, otherBucket: false },
+      comparison?.data
+    );
+  }, [data, numCols, strCols, comparison]);
 
   const COLORS = ['#1e3a8a', '#d4af37', '#64748b', '#3b82f6', '#10b981'];
 
   return (
     <div className="space-y-8 animate-fadeIn">
       {/* Key Performance Indicators */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-        {kpis.map((kpi, idx) => (
-          <div key={idx} className="bg-white rounded-3xl p-6 border border-gray-100 shadow-sm flex items-center gap-5 transition-transform hover:-translate-y-1">
-            <div className={`p-4 rounded-2xl ${kpi.bg}`}>
-              <kpi.icon className={kpi.color} size={24} />
-            </div>
-            <div>
-              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{kpi.label}</p>
-              <h3 className="text-2xl font-serif font-bold text-gray-900">{kpi.value}</h3>
-            </div>
+      <div className="space-y-4">
+        {onKpiDefinitionsChange && (
+          <div className="flex justify-end gap-2">
+            {isEditingKpis && (
+              <button
+                onClick={() => onKpiDefinitionsChange(null)}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-gray-700 hover:bg-white transition-all"
+              >
+                <RotateCcw size={12} />
+                Restablecer
+              </button>
+            )}
+            <button
+              onClick={() => setIsEditingKpis(!isEditingKpis)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                isEditingKpis ? 'bg-deepblue-950 text-white shadow-md' : 'bg-white border border-gray-200 text-gray-500 hover:bg-gray-50'
+              }`}
+            >
+              <Settings2 size={12} />
+              {isEditingKpis ? 'Listo' : 'Personalizar Indicadores'}
+            </button>
           </div>
-        ))}
-      </div>
+        )}
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        {/* Main Analysis Summary */}
-        <div className="lg:col-span-2 bg-white rounded-[40px] p-10 shadow-xl border border-gray-100">
-          <div className="flex justify-between items-center mb-10">
-            <div>
-              <h3 className="text-2xl font-serif font-bold text-gray-900">Variables de Alto Impacto</h3>
-              <p className="text-sm text-gray-400 font-medium">Promedios segmentados por la categoría principal</p>
-            </div>
-            <div className="p-3 bg-gray-50 rounded-2xl">
-              <TrendingUp className="text-gold-500" />
-            </div>
-          </div>
-
-          <div className="h-[350px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={chartData} margin={{ bottom: 40 }}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
-                <XAxis 
-                  dataKey="name" 
-                  axisLine={false} 
-                  tickLine={false} 
-                  tick={{fill: '#94A3B8', fontSize: 10, fontWeight: 700}} 
-                  angle={-30} 
-                  textAnchor="end"
-                />
-                <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 11}} />
-                <Tooltip 
-                  cursor={{fill: '#F8FAFC'}}
-                  contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', padding: '16px' }}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          {kpis.map((kpi, idx) => {
+            const definition = definitions[idx];
+            if (isEditingKpis) {
+              return (
+                <KpiEditor
+                  key={definition.id}
+                  definition={definition}
+                  metadata={metadata}
+                  error={kpi.error}
+                  isFirst={idx === 0}
+                  isLast={idx === definitions.length - 1}
+                  onChange={(changes) => changeDefinition(definition.id, changes)}
+                  onMove={(offset) => moveDefinition(idx, offset)}
+                  onRemove={() => updateDefinitions(definitions.filter(d => d.id !== definition.id))}
                 />
-                <Bar dataKey="value" fill="#d4af37" radius={[10, 10, 0, 0]} barSize={36}>
-                  {chartData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={index === 0 ? '#1e3a8a' : '#d4af37'} />
-                  ))}
-                </Bar>
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+              );
+            }
+            const style = KPI_STYLES[idx % KPI_STYLES.length];
+            const Icon = KPI_ICONS[definition.aggregation] ?? Hash;
+            const delta = kpiDelta(kpi);
+            return (
+              <div key={definition.id} className="bg-white rounded-3xl p-6 border border-gray-100 shadow-sm flex items-center gap-5 transition-transform hover:-translate-y-1">
+                <div className={`p-4 rounded-2xl ${style.bg}`}>
+                  <Icon className={style.color} size={24} />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest truncate" title={kpi.label}>{kpi.label}</p>
+                  <h3 className="text-2xl font-serif font-bold text-gray-900" title={kpi.error}>{formatKpiValue(kpi.value)}</h3>
+                  {kpi.baseline !== undefined && isFinite(kpi.baseline) && (
+                    <p className="text-[10px] font-bold text-gray-400 mt-1">
+                      {kpi.baselineLabel}: {formatKpiValue(kpi.baseline)}
+                      {delta !== null && (
+                        <span className={`ml-2 ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {delta >= 0 ? '▲' : '▼'} {Math.abs(delta).toFixed(1)}%
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {isEditingKpis && (
+            <button
+              onClick={() => updateDefinitions([...definitions, createKpiDefinition(metadata)])}
+              className="rounded-3xl p-6 border-2 border-dashed border-gray-200 text-gray-400 hover:border-gold-300 hover:text-gold-600 transition-all flex flex-col items-center justify-center gap-2 min-h-[120px]"
+            >
+              <Plus size={20} />
+              <span className="text-[10px] font-black uppercase tracking-widest">Añadir Indicador</span>
+            </button>
+          )}
         </div>
+      </div>
 
-        {/* Proportional Distribution */}
-        <div className="bg-white rounded-[40px] p-10 shadow-xl border border-gray-100 flex flex-col justify-between">
-           <div>
-              <div className="flex items-center gap-3 mb-2">
-                <Percent className="text-deepblue-900" size={20} />
-                <h4 className="text-xl font-serif font-bold text-gray-900">Distribución</h4>
-              </div>
-              <p className="text-sm text-gray-400 font-medium">Análisis porcentual del Top 5</p>
-           </div>
-           
-           <div className="h-[250px] relative">
-              <ResponsiveContainer width="100%" height="100%">
-                <PieChart>
-                  <Pie
-                    data={chartData.slice(0, 5)}
-                    innerRadius={70}
-                    outerRadius={95}
-                    paddingAngle={8}
-                    dataKey="value"
-                  >
-                    {chartData.slice(0, 5).map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                    ))}
-                  </Pie>
-                  <Tooltip />
-                </PieChart>
-              </ResponsiveContainer>
-              <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
-                <Activity className="text-gold-500 opacity-20 mb-1" size={32} />
+      {/* Dashboard selector */}
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <LayoutGrid className="text-gold-600 mr-1" size={16} />
+          {dashboards.map(dashboard => {
+            const isActive = dashboard.id === activeDashboard.id;
+            if (renamingId === dashboard.id) {
+              return (
+                <input
+                  key={dashboard.id}
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="px-4 py-2 rounded-xl text-xs font-bold bg-white border border-gold-300 outline-none focus:ring-2 focus:ring-gold-300 w-40"
+                />
+              );
+            }
+            return (
+              <div
+                key={dashboard.id}
+                className={`flex items-center gap-1 rounded-xl transition-all ${
+                  isActive ? 'bg-deepblue-950 text-white shadow-md' : 'bg-white border border-gray-200 text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                <button
+                  onClick={() => onActiveDashboardChange?.(dashboard.id)}
+                  onDoubleClick={() => {
+                    setRenamingId(dashboard.id);
+                    setDraftName(dashboard.name);
+                  }}
+                  title="Doble clic para renombrar"
+                  className="px-4 py-2 text-[10px] font-black uppercase tracking-widest"
+                >
+                  {dashboard.name}
+                </button>
+                {isActive && dashboards.length > 1 && (
+                  <button onClick={() => removeDashboard(dashboard)} title="Eliminar dashboard" className="pr-3 text-blue-200/60 hover:text-white">
+                    <X size={12} />
+                  </button>
+                )}
               </div>
-           </div>
+            );
+          })}
+          <button
+            onClick={addDashboard}
+            title="Nuevo dashboard"
+            className="p-2 rounded-xl border border-dashed border-gray-300 text-gray-400 hover:border-gold-300 hover:text-gold-600 transition-all"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
 
-           <div className="mt-6 grid grid-cols-2 gap-3">
-              {chartData.slice(0, 4).map((entry, idx) => (
-                <div key={idx} className="flex items-center gap-2">
-                  <div className="w-2.5 h-2.5 rounded-full" style={{backgroundColor: COLORS[idx]}}></div>
-                  <span className="text-[10px] font-bold text-gray-600 truncate">{entry.name}</span>
-                </div>
+        <div className="relative">
+          <button
+            onClick={() => setShowWidgetMenu(!showWidgetMenu)}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border border-gray-200 text-gray-500 hover:bg-gray-50 transition-all"
+          >
+            <Plus size={12} />
+            Añadir Widget
+          </button>
+          {showWidgetMenu && (
+            <div className="absolute right-0 mt-2 w-72 bg-white rounded-2xl shadow-xl border border-gray-100 p-2 z-20">
+              {BUILTIN_WIDGETS.map(option => (
+                <button
+                  key={option.kind}
+                  onClick={() => {
+                    updateWidgets(widgets => [...widgets, createBuiltinWidget(option.kind)]);
+                    setShowWidgetMenu(false);
+                  }}
+                  className="w-full text-left px-4 py-2 rounded-xl hover:bg-gold-50 transition-all"
+                >
+                  <p className="text-xs font-bold text-gray-700">{option.title}</p>
+                  <p className="text-[10px] text-gray-400">{option.description}</p>
+                </button>
               ))}
-           </div>
+              <p className="px-4 py-2 text-[10px] text-gray-400 border-t border-gray-50 mt-1">
+                Use "Fijar al Dashboard" en el Constructor para añadir gráficos propios.
+              </p>
+            </div>
+          )}
         </div>
       </div>
+
+      {activeDashboard.widgets.length === 0 ? (
+        <div className="bg-white rounded-[40px] p-16 border-2 border-dashed border-gray-200 text-center">
+          <LayoutGrid className="text-gray-200 mx-auto mb-4" size={40} />
+          <h3 className="text-xl font-serif font-bold text-gray-900">Dashboard vacío</h3>
+          <p className="text-sm text-gray-400 font-medium mt-2">
+            Fije gráficos desde el Constructor o añada los widgets predefinidos.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {activeDashboard.widgets.map(widget => {
+            const builtin = BUILTIN_WIDGETS.find(w => w.kind === widget.kind);
+            const chartInfo = widget.chart ? describeChart(widget.chart, metadata) : null;
+            const description = chartInfo ? `${chartInfo.measure} ${chartInfo.subtitle}` : builtin?.description ?? '';
+            return (
+              <DashboardWidgetCard
+                key={widget.id}
+                widget={widget}
+                description={description}
+                isDragging={draggingId === widget.id}
+                isDropTarget={dropTargetId === widget.id && draggingId !== widget.id}
+                onDragStart={() => setDraggingId(widget.id)}
+                onDragOver={() => setDropTargetId(widget.id)}
+                onDrop={() => dropOn(widget.id)}
+                onDragEnd={() => {
+                  setDraggingId(null);
+                  setDropTargetId(null);
+                }}
+                onResize={(changes) => updateWidgets(widgets => widgets.map(w => w.id === widget.id ? { ...w, ...changes } : w))}
+                onRemove={() => updateWidgets(widgets => widgets.filter(w => w.id !== widget.id))}
+                footer={widget.kind === 'distribution' && (
+                  <div className="mt-6 grid grid-cols-2 gap-3">
+                    {chartData.slice(0, 4).map((entry, idx) => (
+                      <div key={idx} className="flex items-center gap-2">
+                        <div className="w-2.5 h-2.5 rounded-full" style={{backgroundColor: COLORS[idx]}}></div>
+                        <span className="text-[10px] font-bold text-gray-600 truncate">{entry.name}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              >
+                {widget.kind === 'impact' && (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData} margin={{ bottom: 40 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#F1F5F9" />
+                      <XAxis 
+                        dataKey="name" 
+                        axisLine={false} 
+                        tickLine={false} 
+                        tick={{fill: '#94A3B8', fontSize: 10, fontWeight: 700}} 
+                        angle={-30} 
+                        textAnchor="end"
+                      />
+                      <YAxis axisLine={false} tickLine={false} tick={{fill: '#94A3B8', fontSize: 11}} />
+                      <Tooltip 
+                        cursor={{fill: '#F8FAFC'}}
+                        contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', padding: '16px' }}
+                      />
+                      <Bar dataKey="value" name={datasetName || 'Actual'} fill="#d4af37" radius={[10, 10, 0, 0]} barSize={comparison ? 18 : 36}>
+                        {chartData.map((_, index) => (
+                          <Cell key={`cell-${index}`} fill={index === 0 && !comparison ? '#1e3a8a' : '#d4af37'} />
+                        ))}
+                      </Bar>
+                      {comparison && (
+                        <Bar dataKey="comparison" name={comparison.name} fill="#1e3a8a" radius={[10, 10, 0, 0]} barSize={18} />
+                      )}
+                      {comparison && <Legend iconType="circle" verticalAlign="top" height={36} />}
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+                {widget.kind === 'distribution' && (
+                  <>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <PieChart>
+                        <Pie
+                          data={chartData.slice(0, 5)}
+                          innerRadius={70}
+                          outerRadius={95}
+                          paddingAngle={8}
+                          dataKey="value"
+                        >
+                          {chartData.slice(0, 5).map((_, index) => (
+                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                          ))}
+                        </Pie>
+                        <Tooltip />
+                      </PieChart>
+                    </ResponsiveContainer>
+                    <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                      <Activity className="text-gold-500 opacity-20 mb-1" size={32} />
+                    </div>
+                  </>
+                )}
+                {widget.kind === 'chart' && widget.chart && (
+                  <ChartView
+                    settings={widget.chart}
+                    data={data}
+                    metadata={metadata}
+                    datasetName={datasetName}
+                    comparison={comparison}
+                    compact
+                  />
+                )}
+              </DashboardWidgetCard>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { DashboardWidget, WidgetHeight } from '../types';
+import ChartExportMenu from '../components/ChartExportMenu';
+import { GripVertical, MoveHorizontal, MoveVertical, X } from 'lucide-react';
+
+interface DashboardWidgetCardProps {
+  widget: DashboardWidget;
+  description: string;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+  onResize: (changes: Pick<Partial<DashboardWidget>, 'width' | 'height'>) => void;
+  onRemove: () => void;
+  footer?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// Clases completas para que Tailwind las detecte al compilar
+const WIDTH_CLASSES: Record<DashboardWidget['width'], string> = {
+  1: 'lg:col-span-1',
+  2: 'lg:col-span-2',
+  3: 'lg:col-span-3'
+};
+
+const HEIGHT_CLASSES: Record<WidgetHeight, string> = {
+  sm: 'h-[250px]',
+  md: 'h-[350px]',
+  lg: 'h-[500px]'
+};
+
+const NEXT_HEIGHT: Record<WidgetHeight, WidgetHeight> = { sm: 'md', md: 'lg', lg: 'sm' };
+
+const DashboardWidgetCard: React.FC<DashboardWidgetCardProps> = ({
+  widget, description, isDragging, isDropTarget, onDragStart, onDragOver, onDrop, onDragEnd, onResize, onRemove, footer, children
+}) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  // Solo el asa inicia el arrastre, para no interferir con los tooltips del gráfico
+  const [handleActive, setHandleActive] = useState(false);
+
+  const iconButton = "p-2 rounded-xl text-gray-300 hover:text-gray-700 hover:bg-gray-50 transition-all";
+
+  return (
+    <div
+      draggable={handleActive}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', widget.id);
+        onDragStart();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={() => {
+        setHandleActive(false);
+        onDragEnd();
+      }}
+      className={`${WIDTH_CLASSES[widget.width]} bg-white rounded-[40px] p-8 shadow-xl border transition-all ${
+        isDropTarget ? 'border-gold-400 ring-2 ring-gold-200' : 'border-gray-100'
+      } ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <div className="flex items-start gap-3 min-w-0">
+          <button
+            onMouseDown={() => setHandleActive(true)}
+            onMouseUp={() => setHandleActive(false)}
+            title="Arrastrar para reordenar"
+            className="mt-1 text-gray-300 hover:text-gold-600 cursor-grab active:cursor-grabbing"
+          >
+            <GripVertical size={18} />
+          </button>
+          <div className="min-w-0">
+            <h3 className="text-xl font-serif font-bold text-gray-900 truncate" title={widget.title}>{widget.title}</h3>
+            <p className="text-sm text-gray-400 font-medium truncate">{description}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <ChartExportMenu targetRef={chartRef} title={widget.title} />
+          <button
+            onClick={() => onResize({ width: widget.width === 3 ? 1 : (widget.width + 1) as DashboardWidget['width'] })}
+            title={`Ancho: ${widget.width}/3`}
+            className={`${iconButton} hidden lg:block`}
+          >
+            <MoveHorizontal size={16} />
+          </button>
+          <button onClick={() => onResize({ height: NEXT_HEIGHT[widget.height] })} title="Cambiar altura" className={iconButton}>
+            <MoveVertical size={16} />
+          </button>
+          <button onClick={onRemove} title="Quitar del dashboard" className={`${iconButton} hover:text-red-600 hover:bg-red-50`}>
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={chartRef} data-chart-title={widget.title} className={`${HEIGHT_CLASSES[widget.height]} relative`}>
+        {children}
+      </div>
+      {footer}
+    </div>
+  );
+};
+
+export default DashboardWidgetCard;
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMetadata, ColumnType, ColumnTypeIssue, DataRow, TransformStep } from '../types';
+import { ColumnProfile, profileDataset } from '../utils/dataQuality';
+import { createStepId } from '../utils/transforms';
+import { ShieldCheck, AlertTriangle, Trash2, ChevronDown, ChevronRight, Copy, Eraser, Scissors } from 'lucide-react';
+
+interface DataQualityPanelProps {
+  data: DataRow[];
+  columns: ColumnMetadata[];
+  typeIssues?: ColumnTypeIssue[];
+  // Las acciones se registran como pasos de la receta para poder deshacerlas
+  onApply: (step: TransformStep) => void;
+}
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+  number: 'Número',
+  string: 'Texto',
+  date: 'Fecha',
+  category: 'Categoría',
+  boolean: 'Booleano'
+};
+
+const formatValue = (value: string | number | undefined) => {
+  if (value === undefined || value === '') return '—';
+  if (typeof value === 'number') return isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '—';
+  return value;
+};
+
+const confidenceClass = (confidence: number) =>
+  confidence >= 0.98 ? 'bg-green-50 text-green-700' : confidence >= 0.8 ? 'bg-gold-50 text-gold-700' : 'bg-red-50 text-red-700';
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ data, columns, typeIssues, onApply }) => {
+  const profile = useMemo(() => profileDataset(data, columns, typeIssues), [data, columns, typeIssues]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [onlyIssues, setOnlyIssues] = useState(false);
+
+  const issueCount = profile.columns.reduce((acc, column) => acc + column.issues.length, 0) + (profile.duplicateRows > 0 ? 1 : 0);
+  const visibleColumns = onlyIssues ? profile.columns.filter(column => column.issues.length > 0) : profile.columns;
+
+  const handleDropColumn = (column: ColumnProfile) => {
+    if (!window.confirm(`¿Eliminar la columna "${column.name}" del conjunto?`)) return;
+    onApply({ id: createStepId(), type: 'dropColumn', column: column.name });
+  };
+
+  const actionButton = "flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-tight border border-gray-200 text-gray-500 hover:border-gold-400 hover:text-gold-700 transition-all whitespace-nowrap";
+
+  return (
+    <section className="mt-12 bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden animate-fadeIn">
+      <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-col md:flex-row justify-between items-center gap-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gold-50 rounded-2xl">
+            <ShieldCheck className="text-gold-600" size={20} />
+          </div>
+          <div>
+            <h3 className="text-xl font-serif font-bold text-gray-900">Calidad de Datos</h3>
+            <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">
+              {profile.rowCount.toLocaleString()} registros · {columns.length} columnas · {issueCount} {issueCount === 1 ? 'incidencia' : 'incidencias'}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={onlyIssues} onChange={() => setOnlyIssues(!onlyIssues)} className="accent-gold-500" />
+            <span className="text-[10px] font-bold text-gray-500 uppercase">Solo con incidencias</span>
+          </label>
+          {profile.duplicateRows > 0 && (
+            <button
+              onClick={() => onApply({ id: createStepId(), type: 'dropDuplicates' })}
+              className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md"
+            >
+              <Copy size={14} />
+              Quitar {profile.duplicateRows.toLocaleString()} Duplicadas
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-white border-b border-gray-100">
+              {['Columna', 'Tipo', 'Vacíos', 'Únicos', 'Rango', 'Incidencias', 'Acciones'].map(label => (
+                <th key={label} className="px-6 py-5 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {visibleColumns.map(column => {
+              const isExpanded = expanded === column.name;
+              return (
+                <React.Fragment key={column.name}>
+                  <tr className="hover:bg-gold-50/10 transition-colors align-top">
+                    <td className="px-6 py-4">
+                      <button
+                        onClick={() => setExpanded(isExpanded ? null : column.name)}
+                        className="flex items-center gap-2 text-sm text-gray-900 font-bold text-left"
+                      >
+                        {isExpanded ? <ChevronDown size={14} className="text-gold-600" /> : <ChevronRight size={14} className="text-gray-300" />}
+                        {column.name}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="text-xs font-bold text-gray-700">{TYPE_LABELS[column.type]}</span>
+                      <span
+                        title="Proporción de valores compatibles con el tipo"
+                        className={`ml-2 px-2 py-0.5 rounded-md text-[9px] font-black ${confidenceClass(column.confidence)}`}
+                      >
+                        {Math.round(column.confidence * 100)}%
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-xs font-mono text-gray-600">{column.blanks.toLocaleString()}</td>
+                    <td className="px-6 py-4 text-xs font-mono text-gray-600">{column.distinct.toLocaleString()}</td>
+                    <td className="px-6 py-4 text-xs font-mono text-gray-600 whitespace-nowrap">
+                      {column.min !== undefined ? `${formatValue(column.min)} – ${formatValue(column.max)}` : '—'}
+                      {column.mean !== undefined && <span className="block text-[10px] text-gray-400">Media {formatValue(column.mean)}</span>}
+                    </td>
+                    <td className="px-6 py-4">
+                      {column.issues.length === 0 ? (
+                        <span className="text-[10px] font-bold text-green-600 uppercase">Sin incidencias</span>
+                      ) : (
+                        <ul className="space-y-1">
+                          {column.issues.map(issue => (
+                            <li key={issue.kind} className="flex items-start gap-1.5 text-xs text-gray-600">
+                              <AlertTriangle size={12} className="text-gold-500 mt-0.5 shrink-0" />
+                              {issue.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-2">
+                        {column.outliers > 0 && (
+                          <button onClick={() => onApply({ id: createStepId(), type: 'excludeOutliers', column: column.name })} className={actionButton}>
+                            <Scissors size={12} />
+                            Excluir Atípicos
+                          </button>
+                        )}
+                        {column.blanks > 0 && (
+                          <button onClick={() => onApply({ id: createStepId(), type: 'removeBlankRows', column: column.name })} className={actionButton}>
+                            <Eraser size={12} />
+                            Quitar Vacíos
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDropColumn(column)}
+                          title="Eliminar columna"
+                          className="p-1.5 rounded-lg text-gray-300 hover:text-red-600 hover:bg-red-50 transition-all"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-gray-50/50">
+                      <td colSpan={7} className="px-6 py-4">
+                        <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-3">Valores Más Frecuentes</p>
+                        <div className="flex flex-wrap gap-2">
+                          {column.topValues.length === 0 ? (
+                            <span className="text-xs text-gray-400">Sin valores</span>
+                          ) : column.topValues.map(top => (
+                            <span key={top.value} className="px-3 py-1.5 rounded-xl bg-white border border-gray-100 text-xs text-gray-700">
+                              <span className="font-bold">{formatValue(top.value)}</span>
+                              <span className="ml-2 text-gray-400 font-mono">{top.count.toLocaleString()}</span>
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default DataQualityPanel;
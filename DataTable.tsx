@@ -1,79 +1,146 @@
 
-import React, { useState, useMemo } from 'react';
-import { DataRow, ColumnMetadata } from '../types';
-import { ChevronUp, ChevronDown, Download, ChevronLeft, ChevronRight, SlidersHorizontal, Search } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { DataRow, ColumnMetadata, SortConfig, TableViewState, TableDisplayMode, NullsPosition } from '../types';
+import { formatDate, toTimestamp } from '../utils/dateParsing';
+import { nextSortConfig, sortRows } from '../utils/sorting';
+import ExportDialog from '../components/ExportDialog';
+import { ChevronUp, ChevronDown, Download, ChevronLeft, ChevronRight, SlidersHorizontal, Search, Rows, BookOpen, Sigma } from 'lucide-react';
 
 interface DataTableProps {
   data: DataRow[];
   metadata: ColumnMetadata[];
+  fullData?: DataRow[];
+  importedFileName?: string;
+  initialView?: TableViewState | null;
+  onViewChange?: (view: TableViewState) => void;
 }
 
-const PAGE_SIZE = 10;
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100, 250];
+const DEFAULT_PAGE_SIZE = 25;
 
-const DataTable: React.FC<DataTableProps> = ({ data, metadata }) => {
-  const [sortConfig, setSortConfig] = useState<{ key: string, direction: 'asc' | 'desc' } | null>(null);
+// Altura fija de fila para poder calcular qué filas son visibles en el modo de desplazamiento
+const ROW_HEIGHT = 52;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN = 10;
+
+// Números de página visibles alrededor de la actual, con la primera y la última siempre presentes
+const pageWindow = (current: number, total: number, radius = 2): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= radius) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+const DataTable: React.FC<DataTableProps> = ({ data, metadata, fullData, importedFileName, initialView, onViewChange }) => {
+  // Las vistas guardadas antes del orden múltiple conservan un único criterio
+  const [sortConfig, setSortConfig] = useState<SortConfig[]>(() => {
+    const saved = initialView?.sortConfig as SortConfig[] | SortConfig | null | undefined;
+    return Array.isArray(saved) ? saved : saved ? [saved] : [];
+  });
+  const [nullsPosition, setNullsPosition] = useState<NullsPosition>(initialView?.nullsPosition ?? 'last');
   const [currentPage, setCurrentPage] = useState(1);
-  const [columnFilters, setColumnFilters] = useState<{ [key: string]: string }>({});
-  const [rangeFilters, setRangeFilters] = useState<{ [key: string]: { min: string, max: string } }>({});
+  const [columnFilters, setColumnFilters] = useState<TableViewState['columnFilters']>(initialView?.columnFilters ?? {});
+  const [rangeFilters, setRangeFilters] = useState<TableViewState['rangeFilters']>(initialView?.rangeFilters ?? {});
+  const [pageSize, setPageSize] = useState(initialView?.pageSize ?? DEFAULT_PAGE_SIZE);
+  const [displayMode, setDisplayMode] = useState<TableDisplayMode>(initialView?.displayMode ?? 'pages');
+  const [pageInput, setPageInput] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
   const [showFilters, setShowFilters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
 
-  // Sorting logic
-  const handleSort = (key: string) => {
-    let direction: 'asc' | 'desc' = 'asc';
-    if (sortConfig && sortConfig.key === key && sortConfig.direction === 'asc') {
-      direction = 'desc';
-    }
-    setSortConfig({ key, direction });
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+
+  useEffect(() => {
+    onViewChangeRef.current?.({ sortConfig, nullsPosition, columnFilters, rangeFilters, pageSize, displayMode });
+  }, [sortConfig, nullsPosition, columnFilters, rangeFilters, pageSize, displayMode]);
+
+  // Sorting logic: Mayús+clic añade columnas al orden
+  const handleSort = (key: string, additive: boolean) => {
+    setSortConfig(prev => nextSortConfig(prev, key, additive));
   };
 
   // Filtering Logic
   const processedData = useMemo(() => {
-    let filtered = [...data];
+    const predicates: ((row: DataRow) => boolean)[] = [];
 
     // Apply column text filters
     Object.keys(columnFilters).forEach(col => {
       const val = columnFilters[col].toLowerCase();
       if (val) {
-        filtered = filtered.filter(row => String(row[col]).toLowerCase().includes(val));
+        predicates.push(row => String(row[col]).toLowerCase().includes(val));
       }
     });
 
     // Apply numerical range filters
     Object.keys(rangeFilters).forEach(col => {
       const { min, max } = rangeFilters[col];
-      if (min) filtered = filtered.filter(row => Number(row[col]) >= Number(min));
-      if (max) filtered = filtered.filter(row => Number(row[col]) <= Number(max));
+      const isDate = metadata.find(m => m.name === col)?.type === 'date';
+      // Las fechas se comparan cronológicamente; el máximo incluye el día completo
+      const toComparable = (val: string | number) => isDate ? toTimestamp(val) : Number(val);
+      const minValue = isDate ? toTimestamp(min) : Number(min);
+      const maxValue = isDate ? toTimestamp(max) + 86399999 : Number(max);
+      if (min) predicates.push(row => toComparable(row[col]) >= minValue);
+      if (max) predicates.push(row => toComparable(row[col]) <= maxValue);
     });
 
-    // Apply sort
-    if (sortConfig) {
-      const { key, direction } = sortConfig;
-      filtered.sort((a, b) => {
-        const aVal = a[key] ?? '';
-        const bVal = b[key] ?? '';
-        if (aVal < bVal) return direction === 'asc' ? -1 : 1;
-        if (aVal > bVal) return direction === 'asc' ? 1 : -1;
-        return 0;
-      });
-    }
+    // Todos los filtros se evalúan en un único recorrido
+    const filtered = predicates.length > 0
+      ? data.filter(row => predicates.every(matches => matches(row)))
+      : data;
 
-    return filtered;
-  }, [data, columnFilters, rangeFilters, sortConfig]);
+    return sortRows(filtered, sortConfig, metadata, nullsPosition);
+  }, [data, metadata, columnFilters, rangeFilters, sortConfig, nullsPosition]);
 
   // Pagination Logic
-  const totalPages = Math.ceil(processedData.length / PAGE_SIZE);
-  const paginatedData = processedData.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
-
-  const exportCSV = () => {
-    if (data.length === 0) return;
-    const headers = Object.keys(data[0]).join(',');
-    const rows = data.map(row => Object.values(row).map(v => `"${v}"`).join(',')).join('\n');
-    const blob = new Blob([`${headers}\n${rows}`], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'elite_audit_data.csv';
-    a.click();
+  const totalPages = Math.max(1, Math.ceil(processedData.length / pageSize));
+  const page = Math.min(currentPage, totalPages);
+  const paginatedData = processedData.slice((page - 1) * pageSize, page * pageSize);
+
+  // Virtualización: solo se montan las filas visibles más un margen
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(processedData.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = displayMode === 'scroll' ? processedData.slice(firstVisible, lastVisible) : paginatedData;
+  const rowOffset = displayMode === 'scroll' ? firstVisible : (page - 1) * pageSize;
+
+  const goToPage = (target: number) => {
+    setCurrentPage(Math.min(Math.max(1, target), totalPages));
+    scrollRef.current?.scrollTo({ top: 0 });
+  };
+
+  const handlePageJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = parseInt(pageInput, 10);
+    if (!isNaN(target)) goToPage(target);
+    setPageInput('');
+  };
+
+  const changeDisplayMode = (mode: TableDisplayMode) => {
+    setDisplayMode(mode);
+    setScrollTop(0);
+    scrollRef.current?.scrollTo({ top: 0 });
+  };
+
+  const renderCell = (row: DataRow, col: ColumnMetadata) => {
+    if (col.type === 'number') {
+      return row[col.name] === '' ? (
+        <span className="text-gray-300">-</span>
+      ) : (
+        <span className="font-mono text-deepblue-900 bg-gray-50 px-2.5 py-1 rounded-md border border-gray-100">
+          {Number(row[col.name]).toLocaleString()}{col.unit ? ` ${col.unit}` : ''}
+        </span>
+      );
+    }
+    if (col.type === 'date') {
+      return <span className="font-mono text-xs text-gray-600 whitespace-nowrap">{row[col.name] ? formatDate(row[col.name]) : '-'}</span>;
+    }
+    return <span className="truncate block max-w-[200px]">{String(row[col.name] || '-')}</span>;
   };
 
   return (
@@ -85,6 +152,14 @@ const DataTable: React.FC<DataTableProps> = ({ data, metadata }) => {
           <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">Auditoría de {processedData.length} registros hallados</p>
         </div>
         <div className="flex gap-3">
+          <select
+            value={nullsPosition}
+            onChange={(e) => setNullsPosition(e.target.value as NullsPosition)}
+            className="bg-white border border-gray-200 rounded-xl py-2.5 px-3 text-xs font-bold text-gray-600 outline-none focus:ring-2 focus:ring-gold-300"
+          >
+            <option value="last">Vacíos al final</option>
+            <option value="first">Vacíos al principio</option>
+          </select>
           <button 
             onClick={() => setShowFilters(!showFilters)}
             className={`flex items-center gap-2 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${showFilters ? 'bg-gold-500 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'}`}
@@ -93,8 +168,9 @@ const DataTable: React.FC<DataTableProps> = ({ data, metadata }) => {
             Filtros Avanzados
           </button>
           <button 
-            onClick={exportCSV}
-            className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md"
+            onClick={() => setShowExport(true)}
+            disabled={metadata.length === 0}
+            className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md disabled:opacity-30"
           >
             <Download size={14} />
             Exportar
@@ -108,12 +184,34 @@ const DataTable: React.FC<DataTableProps> = ({ data, metadata }) => {
           {metadata.map(col => (
             <div key={col.name} className="space-y-2">
               <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{col.name}</label>
-              {col.type === 'string' ? (
+              {col.type === 'date' ? (
+                <div className="flex gap-2">
+                  <input 
+                    type="date"
+                    value={rangeFilters[col.name]?.min ?? ''}
+                    className="w-1/2 bg-white border border-gray-200 rounded-lg py-2 px-2 text-xs outline-none focus:ring-1 focus:ring-gold-500"
+                    onChange={(e) => {
+                      setRangeFilters(prev => ({ ...prev, [col.name]: { ...prev[col.name], min: e.target.value } }));
+                      setCurrentPage(1);
+                    }}
+                  />
+                  <input 
+                    type="date"
+                    value={rangeFilters[col.name]?.max ?? ''}
+                    className="w-1/2 bg-white border border-gray-200 rounded-lg py-2 px-2 text-xs outline-none focus:ring-1 focus:ring-gold-500"
+                    onChange={(e) => {
+                      setRangeFilters(prev => ({ ...prev, [col.name]: { ...prev[col.name], max: e.target.value } }));
+                      setCurrentPage(1);
+                    }}
+                  />
+                </div>
+              ) : col.type !== 'number' ? (
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-300" size={12} />
                   <input 
                     type="text"
                     placeholder="Filtrar por texto..."
+                    value={columnFilters[col.name] ?? ''}
                     className="w-full bg-white border border-gray-200 rounded-lg py-2 pl-8 pr-3 text-xs outline-none focus:ring-1 focus:ring-gold-500"
                     onChange={(e) => {
                       setColumnFilters(prev => ({ ...prev, [col.name]: e.target.value }));
@@ -126,6 +224,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, metadata }) => {
                   <input 
                     type="number"
                     placeholder="Mín"
+                    value={rangeFilters[col.name]?.min ?? ''}
                     className="w-1/2 bg-white border border-gray-200 rounded-lg py-2 px-3 text-xs outline-none focus:ring-1 focus:ring-gold-500"
                     onChange={(e) => {
                       setRangeFilters(prev => ({ ...prev, [col.name]: { ...prev[col.name], min: e.target.value } }));
@@ -135,6 +234,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, metadata }) => {
                   <input 
                     type="number"
                     placeholder="Máx"
+                    value={rangeFilters[col.name]?.max ?? ''}
                     className="w-1/2 bg-white border border-gray-200 rounded-lg py-2 px-3 text-xs outline-none focus:ring-1 focus:ring-gold-500"
                     onChange={(e) => {
                       setRangeFilters(prev => ({ ...prev, [col.name]: { ...prev[col.name], max: e.target.value } }));
@@ -149,83 +249,169 @@ const DataTable: React.FC<DataTableProps> = ({ data, metadata }) => {
       )}
 
       {/* Table Content */}
-      <div className="overflow-x-auto">
-        <table className="w-full text-left border-collapse">
+      <div
+        ref={scrollRef}
+        onScroll={(e) => displayMode === 'scroll' && setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+      >
+        <table className="w-full text-left border-separate border-spacing-0">
           <thead>
-            <tr className="bg-white border-b border-gray-100">
-              {metadata.map((col) => (
-                <th 
-                  key={col.name}
-                  onClick={() => handleSort(col.name)}
-                  className="px-6 py-5 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] cursor-pointer hover:bg-gray-50 transition-colors relative"
-                >
-                  <div className="flex items-center gap-2">
-                    {col.name}
-                    <div className="flex flex-col opacity-30">
-                      <ChevronUp size={10} className={sortConfig?.key === col.name && sortConfig.direction === 'asc' ? 'text-gold-600 opacity-100' : ''} />
-                      <ChevronDown size={10} className={sortConfig?.key === col.name && sortConfig.direction === 'desc' ? 'text-gold-600 opacity-100' : ''} />
+            <tr>
+              {metadata.map((col, colIndex) => {
+                const sortIndex = sortConfig.findIndex(s => s.key === col.name);
+                const direction = sortConfig[sortIndex]?.direction;
+                return (
+                  <th 
+                    key={col.name}
+                    onClick={(e) => handleSort(col.name, e.shiftKey)}
+                    title="Mayús + clic para ordenar por varias columnas"
+                    className={`sticky top-0 bg-white border-b border-gray-100 px-6 py-5 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] cursor-pointer select-none hover:bg-gray-50 transition-colors whitespace-nowrap ${
+                      colIndex === 0 ? 'left-0 z-30 border-r' : 'z-20'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      {col.name}
+                      {col.formula && (
+                        <span title={`Columna calculada: ${col.formula}`}>
+                          <Sigma size={10} className="text-gold-600" />
+                        </span>
+                      )}
+                      <div className="flex flex-col">
+                        <ChevronUp size={10} className={direction === 'asc' ? 'text-gold-600' : 'opacity-30'} />
+                        <ChevronDown size={10} className={direction === 'desc' ? 'text-gold-600' : 'opacity-30'} />
+                      </div>
+                      {sortConfig.length > 1 && sortIndex >= 0 && (
+                        <span className="w-4 h-4 rounded-full bg-deepblue-950 text-white text-[9px] flex items-center justify-center tracking-normal">
+                          {sortIndex + 1}
+                        </span>
+                      )}
                     </div>
-                  </div>
-                </th>
-              ))}
+                  </th>
+                );
+              })}
             </tr>
           </thead>
-          <tbody className="divide-y divide-gray-50">
-            {paginatedData.map((row, i) => (
-              <tr key={i} className="hover:bg-gold-50/10 transition-colors">
-                {metadata.map((col) => (
-                  <td key={col.name} className="px-6 py-5 text-sm text-gray-600 font-medium">
-                    {col.type === 'number' ? (
-                      <span className="font-mono text-deepblue-900 bg-gray-50 px-2.5 py-1 rounded-md border border-gray-100">
-                        {Number(row[col.name]).toLocaleString()}
-                      </span>
-                    ) : (
-                      <span className="truncate block max-w-[200px]">{String(row[col.name] || '-')}</span>
-                    )}
+          <tbody>
+            {displayMode === 'scroll' && firstVisible > 0 && (
+              <tr style={{ height: firstVisible * ROW_HEIGHT }}><td colSpan={metadata.length}></td></tr>
+            )}
+            {visibleRows.map((row, i) => (
+              <tr key={rowOffset + i} style={{ height: ROW_HEIGHT }} className="group">
+                {metadata.map((col, colIndex) => (
+                  <td
+                    key={col.name}
+                    className={`px-6 py-2 border-b border-gray-50 text-sm text-gray-600 font-medium transition-colors group-hover:bg-gold-50 ${
+                      colIndex === 0 ? 'sticky left-0 z-10 bg-white border-r border-r-gray-100' : ''
+                    }`}
+                  >
+                    {renderCell(row, col)}
                   </td>
                 ))}
               </tr>
             ))}
+            {displayMode === 'scroll' && lastVisible < processedData.length && (
+              <tr style={{ height: (processedData.length - lastVisible) * ROW_HEIGHT }}><td colSpan={metadata.length}></td></tr>
+            )}
           </tbody>
         </table>
       </div>
 
       {/* Pagination Controls */}
-      <div className="p-8 bg-gray-50/50 border-t border-gray-100 flex justify-between items-center">
-        <div className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
-          Mostrando {Math.min(processedData.length, (currentPage - 1) * PAGE_SIZE + 1)} - {Math.min(processedData.length, currentPage * PAGE_SIZE)} de {processedData.length}
+      <div className="p-8 bg-gray-50/50 border-t border-gray-100 flex flex-col lg:flex-row justify-between items-center gap-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="inline-flex bg-gray-100 p-1 rounded-xl border border-gray-200">
+            {([
+              { id: 'pages', label: 'Páginas', icon: BookOpen },
+              { id: 'scroll', label: 'Desplazamiento', icon: Rows }
+            ] as const).map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => changeDisplayMode(mode.id)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                  displayMode === mode.id ? 'bg-white text-deepblue-900 shadow-sm' : 'text-gray-400 hover:text-gray-600'
+                }`}
+              >
+                <mode.icon size={12} />
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          {displayMode === 'pages' ? (
+            <>
+              <select
+                value={pageSize}
+                onChange={(e) => { setPageSize(Number(e.target.value)); goToPage(1); }}
+                className="bg-white border border-gray-200 rounded-xl py-2 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+              >
+                {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size} por página</option>)}
+              </select>
+              <div className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                Mostrando {Math.min(processedData.length, (page - 1) * pageSize + 1)} - {Math.min(processedData.length, page * pageSize)} de {processedData.length}
+              </div>
+            </>
+          ) : (
+            <div className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              Filas {Math.min(processedData.length, Math.floor(scrollTop / ROW_HEIGHT) + 1)} - {Math.min(processedData.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT))} de {processedData.length}
+            </div>
+          )}
         </div>
-        <div className="flex items-center gap-2">
-          <button 
-            disabled={currentPage === 1}
-            onClick={() => setCurrentPage(prev => prev - 1)}
-            className="p-2.5 rounded-xl border border-gray-200 bg-white text-gray-500 hover:text-gold-600 disabled:opacity-30 transition-all shadow-sm"
-          >
-            <ChevronLeft size={16} />
-          </button>
-          <div className="flex gap-1">
-            {Array.from({ length: Math.min(5, totalPages) }).map((_, idx) => {
-              const pageNum = idx + 1; // Simplified for UI
-              return (
+        {displayMode === 'pages' && (
+          <div className="flex items-center gap-2">
+            <button 
+              disabled={page === 1}
+              onClick={() => goToPage(page - 1)}
+              className="p-2.5 rounded-xl border border-gray-200 bg-white text-gray-500 hover:text-gold-600 disabled:opacity-30 transition-all shadow-sm"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <div className="flex gap-1">
+              {pageWindow(page, totalPages).map((pageNum, idx) => pageNum === null ? (
+                <span key={`gap-${idx}`} className="w-10 h-10 flex items-center justify-center text-xs font-black text-gray-300">…</span>
+              ) : (
                 <button 
-                  key={idx}
-                  onClick={() => setCurrentPage(pageNum)}
-                  className={`w-10 h-10 rounded-xl text-xs font-black transition-all ${currentPage === pageNum ? 'bg-deepblue-950 text-white shadow-lg' : 'bg-white border border-gray-200 text-gray-400 hover:bg-gray-50'}`}
+                  key={pageNum}
+                  onClick={() => goToPage(pageNum)}
+                  className={`min-w-[2.5rem] h-10 px-2 rounded-xl text-xs font-black transition-all ${page === pageNum ? 'bg-deepblue-950 text-white shadow-lg' : 'bg-white border border-gray-200 text-gray-400 hover:bg-gray-50'}`}
                 >
                   {pageNum}
                 </button>
-              );
-            })}
+              ))}
+            </div>
+            <button 
+              disabled={page === totalPages}
+              onClick={() => goToPage(page + 1)}
+              className="p-2.5 rounded-xl border border-gray-200 bg-white text-gray-500 hover:text-gold-600 disabled:opacity-30 transition-all shadow-sm"
+            >
+              <ChevronRight size={16} />
+            </button>
+            <form onSubmit={handlePageJump} className="flex items-center gap-2 ml-2">
+              <input
+                type="number"
+                min={1}
+                max={totalPages}
+                value={pageInput}
+                onChange={(e) => setPageInput(e.target.value)}
+                placeholder="Pág."
+                className="w-20 bg-white border border-gray-200 rounded-xl py-2.5 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+              />
+              <button type="submit" className="px-4 py-2.5 rounded-xl bg-white border border-gray-200 text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-gold-600 transition-all">
+                Ir
+              </button>
+            </form>
           </div>
-          <button 
-            disabled={currentPage === totalPages}
-            onClick={() => setCurrentPage(prev => prev + 1)}
-            className="p-2.5 rounded-xl border border-gray-200 bg-white text-gray-500 hover:text-gold-600 disabled:opacity-30 transition-all shadow-sm"
-          >
-            <ChevronRight size={16} />
-          </button>
-        </div>
+        )}
       </div>
+
+      {showExport && (
+        <ExportDialog
+          viewRows={processedData}
+          fullRows={fullData ?? data}
+          metadata={metadata}
+          importedFileName={importedFileName}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 };
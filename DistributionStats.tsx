@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { DISTRIBUTION_QUANTILES, DistributionSummary, summarizeDistribution } from '../utils/histogram';
+import { Sigma } from 'lucide-react';
+
+interface DistributionStatsProps {
+  groups: { label: string; values: number[] }[];
+}
+
+const format = (value: number) => isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 3 }) : '—';
+
+interface StatRow {
+  label: string;
+  hint?: string;
+  value: (summary: DistributionSummary) => number;
+}
+
+const STAT_ROWS: StatRow[] = [
+  { label: 'Observaciones', value: s => s.count },
+  { label: 'Media', value: s => s.mean },
+  { label: 'Mediana', value: s => s.median },
+  { label: 'Desv. Estándar', value: s => s.stdDev },
+  { label: 'Asimetría', hint: 'Positiva: cola hacia la derecha', value: s => s.skewness },
+  { label: 'Curtosis', hint: 'En exceso: 0 para una normal', value: s => s.kurtosis },
+  { label: 'Mínimo', value: s => s.min },
+  { label: 'Máximo', value: s => s.max }
+];
+
+const DistributionStats: React.FC<DistributionStatsProps> = ({ groups }) => {
+  const summaries = useMemo(() => groups.map(group => summarizeDistribution(group.values)), [groups]);
+  // Los cuantiles se intercalan tras los momentos y antes de los extremos
+  const quantileRows: StatRow[] = DISTRIBUTION_QUANTILES.map((p, i) => ({
+    label: `Percentil ${Math.round(p * 100)}`,
+    value: summary => summary.quantiles[i].value
+  }));
+  const rows = [...STAT_ROWS.slice(0, 6), ...quantileRows, ...STAT_ROWS.slice(6)];
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="mt-10 pt-8 border-t border-gray-50">
+      <div className="flex items-center gap-3 mb-4">
+        <Sigma className="text-gold-600" size={16} />
+        <h4 className="text-[10px] font-black text-gray-900 uppercase tracking-widest">Estadísticos de la Distribución</h4>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="border-b border-gray-100">
+              <th className="px-4 py-3 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">Estadístico</th>
+              {groups.map(group => (
+                <th key={group.label} className="px-4 py-3 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] text-right">{group.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {rows.map(row => (
+              <tr key={row.label} className="hover:bg-gold-50/10 transition-colors">
+                <td className="px-4 py-2 text-xs font-bold text-gray-700" title={row.hint}>{row.label}</td>
+                {summaries.map((summary, i) => (
+                  <td key={groups[i].label} className="px-4 py-2 text-xs font-mono text-gray-900 text-right">{format(row.value(summary))}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DistributionStats;
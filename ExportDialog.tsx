@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ColumnMetadata, DataRow, ExportFormat, ExportScope, NumberLocale } from '../types';
+import { exportFileName, exportRows } from '../utils/dataExport';
+import { Download, FileSpreadsheet, FileText, FileJson, X } from 'lucide-react';
+
+interface ExportDialogProps {
+  viewRows: DataRow[];
+  fullRows: DataRow[];
+  metadata: ColumnMetadata[];
+  importedFileName?: string;
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { id: 'csv', label: 'CSV', icon: FileText },
+  { id: 'xlsx', label: 'Excel', icon: FileSpreadsheet },
+  { id: 'json', label: 'JSON', icon: FileJson }
+];
+
+const DELIMITERS = [
+  { value: ';', label: 'Punto y coma' },
+  { value: ',', label: 'Coma' },
+  { value: '\t', label: 'Tabulador' },
+  { value: '|', label: 'Barra vertical' }
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ viewRows, fullRows, metadata, importedFileName, onClose }) => {
+  const [scope, setScope] = useState<ExportScope>('view');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<string[]>(metadata.map(m => m.name));
+  const [delimiter, setDelimiter] = useState(';');
+  const [numberLocale, setNumberLocale] = useState<NumberLocale>('es-ES');
+
+  const rows = scope === 'view' ? viewRows : fullRows;
+  const fileName = exportFileName(importedFileName, format, scope === 'view' ? '_vista' : '');
+
+  const toggleColumn = (name: string) => {
+    setColumns(prev => prev.includes(name)
+      ? prev.filter(c => c !== name)
+      : metadata.map(m => m.name).filter(c => c === name || prev.includes(c)));
+  };
+
+  const handleExport = () => {
+    if (columns.length === 0) return;
+    exportRows(rows, metadata, { format, columns, delimiter, numberLocale }, fileName);
+    onClose();
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 px-4 py-3 rounded-2xl border text-left transition-all ${active ? 'border-gold-400 bg-gold-50/40 shadow-sm' : 'border-gray-100 bg-gray-50/50 hover:border-gray-200'}`;
+  const selectClass = "w-full bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300";
+
+  // Se monta en el body para que ninguna animación del contenedor afecte al posicionamiento fijo
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-deepblue-950/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-[40px] shadow-2xl border border-gray-100 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-serif font-bold text-gray-900">Exportar Datos</h3>
+            <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-8">
+          <div>
+            <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-3">Alcance</label>
+            <div className="flex gap-3">
+              <button onClick={() => setScope('view')} className={optionClass(scope === 'view')}>
+                <p className="text-sm font-bold text-gray-900">Vista actual</p>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{viewRows.length.toLocaleString()} registros filtrados y ordenados</p>
+              </button>
+              <button onClick={() => setScope('full')} className={optionClass(scope === 'full')}>
+                <p className="text-sm font-bold text-gray-900">Conjunto completo</p>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{fullRows.length.toLocaleString()} registros sin filtros</p>
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-3">Formato</label>
+            <div className="flex gap-3">
+              {FORMATS.map(option => (
+                <button key={option.id} onClick={() => setFormat(option.id)} className={`${optionClass(format === option.id)} flex items-center gap-3`}>
+                  <option.icon size={16} className={format === option.id ? 'text-gold-600' : 'text-gray-300'} />
+                  <span className="text-sm font-bold text-gray-900">{option.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format === 'csv' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Delimitador</label>
+                <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className={selectClass}>
+                  {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Formato Numérico</label>
+                <select value={numberLocale} onChange={(e) => setNumberLocale(e.target.value as NumberLocale)} className={selectClass}>
+                  <option value="es-ES">Coma decimal (1234,5)</option>
+                  <option value="en-US">Punto decimal (1234.5)</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="flex justify-between items-center mb-3">
+              <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                Columnas ({columns.length}/{metadata.length})
+              </label>
+              <div className="flex gap-3 text-[10px] font-black uppercase tracking-widest">
+                <button onClick={() => setColumns(metadata.map(m => m.name))} className="text-gold-600 hover:text-gold-700">Todas</button>
+                <button onClick={() => setColumns([])} className="text-gray-400 hover:text-gray-600">Ninguna</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+              {metadata.map(col => (
+                <label key={col.name} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-gray-50 border border-gray-100 cursor-pointer">
+                  <input type="checkbox" checked={columns.includes(col.name)} onChange={() => toggleColumn(col.name)} className="accent-gold-500" />
+                  <span className="text-xs font-medium text-gray-700 truncate">{col.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-gray-100 bg-gray-50/50 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest bg-white border border-gray-200 text-gray-600 hover:bg-gray-50 transition-all"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={columns.length === 0 || rows.length === 0}
+            className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md disabled:opacity-30"
+          >
+            <Download size={14} />
+            Descargar
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,187 @@
+import React from 'react';
+import { ColumnMetadata, FilterCombinator, FilterCondition, FilterGroup, FilterQuery } from '../types';
+import { createFilterId, operatorNeedsValue, operatorsFor } from '../utils/filterQuery';
+import { SlidersHorizontal, Plus, Trash2, X } from 'lucide-react';
+
+interface FilterBuilderProps {
+  query: FilterQuery;
+  metadata: ColumnMetadata[];
+  onChange: (query: FilterQuery) => void;
+  onClose: () => void;
+}
+
+const CombinatorToggle: React.FC<{ value: FilterCombinator; onChange: (value: FilterCombinator) => void }> = ({ value, onChange }) => (
+  <div className="inline-flex bg-gray-100 p-0.5 rounded-lg border border-gray-200">
+    {(['and', 'or'] as FilterCombinator[]).map(option => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${
+          value === option ? 'bg-white text-deepblue-900 shadow-sm' : 'text-gray-400 hover:text-gray-600'
+        }`}
+      >
+        {option === 'and' ? 'Y' : 'O'}
+      </button>
+    ))}
+  </div>
+);
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ query, metadata, onChange, onClose }) => {
+  const createCondition = (): FilterCondition => ({
+    id: createFilterId(),
+    column: metadata[0]?.name ?? '',
+    operator: 'equals',
+    value: ''
+  });
+
+  const updateGroup = (groupId: string, changes: Partial<FilterGroup>) => {
+    onChange({ ...query, groups: query.groups.map(g => g.id === groupId ? { ...g, ...changes } : g) });
+  };
+
+  const updateCondition = (group: FilterGroup, conditionId: string, changes: Partial<FilterCondition>) => {
+    updateGroup(group.id, { conditions: group.conditions.map(c => c.id === conditionId ? { ...c, ...changes } : c) });
+  };
+
+  const removeCondition = (group: FilterGroup, conditionId: string) => {
+    const conditions = group.conditions.filter(c => c.id !== conditionId);
+    if (conditions.length === 0) {
+      onChange({ ...query, groups: query.groups.filter(g => g.id !== group.id) });
+    } else {
+      updateGroup(group.id, { conditions });
+    }
+  };
+
+  const addGroup = () => {
+    onChange({ ...query, groups: [...query.groups, { id: createFilterId(), combinator: 'and', conditions: [createCondition()] }] });
+  };
+
+  // Al cambiar de columna se conserva el operador solo si sigue siendo válido para el nuevo tipo
+  const changeColumn = (group: FilterGroup, condition: FilterCondition, columnName: string) => {
+    const column = metadata.find(m => m.name === columnName);
+    const valid = operatorsFor(column).some(op => op.value === condition.operator);
+    updateCondition(group, condition.id, { column: columnName, operator: valid ? condition.operator : 'equals' });
+  };
+
+  const inputClass = "bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300";
+
+  return (
+    <section className="mb-10 bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden animate-fadeIn">
+      <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-wrap justify-between items-center gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gold-50 rounded-2xl">
+            <SlidersHorizontal className="text-gold-600" size={20} />
+          </div>
+          <div>
+            <h3 className="text-xl font-serif font-bold text-gray-900">Constructor de Filtros</h3>
+            <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">Se aplica al dashboard, las tablas y los gráficos</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {query.groups.length > 1 && (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Entre grupos</span>
+              <CombinatorToggle value={query.combinator} onChange={(combinator) => onChange({ ...query, combinator })} />
+            </div>
+          )}
+          <button onClick={onClose} className="p-2 rounded-xl text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-8 space-y-6">
+        {query.groups.length === 0 && (
+          <p className="text-sm text-gray-400">Sin condiciones. Añada un grupo para empezar a filtrar.</p>
+        )}
+
+        {query.groups.map((group, groupIndex) => (
+          <div key={group.id}>
+            {groupIndex > 0 && (
+              <p className="text-center text-[10px] font-black uppercase tracking-widest text-gold-600 mb-6">
+                {query.combinator === 'and' ? 'Y' : 'O'}
+              </p>
+            )}
+            <div className="rounded-3xl border border-gray-100 bg-gray-50/50 p-6 space-y-3">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Grupo {groupIndex + 1}</span>
+                  {group.conditions.length > 1 && (
+                    <CombinatorToggle value={group.combinator} onChange={(combinator) => updateGroup(group.id, { combinator })} />
+                  )}
+                </div>
+                <button
+                  onClick={() => onChange({ ...query, groups: query.groups.filter(g => g.id !== group.id) })}
+                  className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              {group.conditions.map(condition => {
+                const column = metadata.find(m => m.name === condition.column);
+                const inputType = column?.type === 'date' ? 'date' : 'text';
+                return (
+                  <div key={condition.id} className="flex flex-wrap items-center gap-2">
+                    <select value={condition.column} onChange={(e) => changeColumn(group, condition, e.target.value)} className={inputClass}>
+                      <option value="">Cualquier columna</option>
+                      {metadata.map(m => <option key={m.name} value={m.name}>{m.name}</option>)}
+                    </select>
+                    <select
+                      value={condition.operator}
+                      onChange={(e) => updateCondition(group, condition.id, {
+                        operator: e.target.value as FilterCondition['operator'],
+                        value: e.target.value === 'topN' && !condition.value ? '10' : condition.value
+                      })}
+                      className={inputClass}
+                    >
+                      {operatorsFor(column).map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+                    </select>
+                    {operatorNeedsValue(condition.operator) && (
+                      <input
+                        type={condition.operator === 'topN' ? 'number' : inputType}
+                        value={condition.value}
+                        onChange={(e) => updateCondition(group, condition.id, { value: e.target.value })}
+                        placeholder={condition.operator === 'in' ? 'Valor 1, Valor 2, ...' : condition.operator === 'between' ? 'Desde' : 'Valor'}
+                        className={`${inputClass} flex-grow min-w-[140px]`}
+                      />
+                    )}
+                    {condition.operator === 'between' && (
+                      <input
+                        type={inputType}
+                        value={condition.valueTo ?? ''}
+                        onChange={(e) => updateCondition(group, condition.id, { valueTo: e.target.value })}
+                        placeholder="Hasta"
+                        className={`${inputClass} flex-grow min-w-[140px]`}
+                      />
+                    )}
+                    <button onClick={() => removeCondition(group, condition.id)} className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 transition-colors">
+                      <X size={14} />
+                    </button>
+                  </div>
+                );
+              })}
+
+              <button
+                onClick={() => updateGroup(group.id, { conditions: [...group.conditions, createCondition()] })}
+                className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-gold-600 hover:text-gold-700 pt-2"
+              >
+                <Plus size={12} />
+                Añadir Condición
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={addGroup}
+          className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md"
+        >
+          <Plus size={14} />
+          Añadir Grupo
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default FilterBuilder;
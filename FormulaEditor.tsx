@@ -0,0 +1,162 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ColumnMetadata, DataRow } from '../types';
+import { FORMULA_FUNCTIONS, FormulaCategory, compileColumnFormula, evaluateColumnFormula, inferFormulaType } from '../utils/formulas';
+import { Plus, AlertTriangle } from 'lucide-react';
+
+interface FormulaEditorProps {
+  data: DataRow[];
+  columns: ColumnMetadata[];
+  // Devuelve el mensaje de error si la columna no se pudo añadir
+  onAdd: (name: string, formula: string) => string | null;
+}
+
+const PREVIEW_ROWS = 200;
+const PREVIEW_SHOWN = 5;
+
+const CATEGORIES: FormulaCategory[] = ['Lógicas', 'Matemáticas', 'Texto', 'Fechas', 'Ventana y grupo'];
+
+const PLACEHOLDER = 'Speaks - groupmean(Speaks, Ronda)';
+
+// Las columnas con espacios o símbolos se escriben entre corchetes
+const columnReference = (name: string) => /^[A-Za-zÀ-ÿ_][A-Za-zÀ-ÿ0-9_.]*$/.test(name) ? name : `[${name}]`;
+
+const FormulaEditor: React.FC<FormulaEditorProps> = ({ data, columns, onAdd }) => {
+  const [name, setName] = useState('');
+  const [formula, setFormula] = useState('');
+  const [category, setCategory] = useState<FormulaCategory>('Ventana y grupo');
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Vista previa sobre una muestra: las funciones de grupo se calculan solo con esas filas
+  const preview = useMemo(() => {
+    if (!formula.trim()) return null;
+    try {
+      compileColumnFormula(formula, columns);
+      const values = evaluateColumnFormula(formula, data.slice(0, PREVIEW_ROWS), columns);
+      return { values: values.slice(0, PREVIEW_SHOWN), type: inferFormulaType(values), error: null };
+    } catch (err) {
+      return { values: [], type: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [formula, data, columns]);
+
+  const insert = (text: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? formula.length;
+    const end = textarea?.selectionEnd ?? formula.length;
+    setFormula(formula.slice(0, start) + text + formula.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleAdd = () => {
+    const error = onAdd(name.trim(), formula);
+    setSubmitError(error);
+    if (!error) {
+      setName('');
+      setFormula('');
+    }
+  };
+
+  const label = "block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2";
+  const error = submitError ?? preview?.error;
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className={label}>Nombre de la Columna</label>
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Puntos por ronda"
+          className="w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-gold-500/20"
+        />
+      </div>
+
+      <div>
+        <label className={label}>Fórmula</label>
+        <textarea
+          ref={textareaRef}
+          value={formula}
+          onChange={e => { setFormula(e.target.value); setSubmitError(null); }}
+          rows={3}
+          spellCheck={false}
+          placeholder={PLACEHOLDER}
+          className="w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-3 text-sm font-mono text-gray-700 focus:outline-none focus:ring-2 focus:ring-gold-500/20"
+        />
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {columns.map(c => (
+            <button
+              key={c.name}
+              onClick={() => insert(columnReference(c.name))}
+              className="px-2 py-1 rounded-lg bg-white border border-gray-200 text-[10px] font-bold text-gray-500 hover:border-gold-400 hover:text-gold-700 transition-all"
+            >
+              {c.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-gray-50/60 border border-gray-100 rounded-2xl p-4">
+        <div className="flex flex-wrap gap-2 mb-3">
+          {CATEGORIES.map(c => (
+            <button
+              key={c}
+              onClick={() => setCategory(c)}
+              className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-tight transition-all ${
+                category === c ? 'bg-deepblue-950 text-white' : 'text-gray-400 hover:text-gray-700'
+              }`}
+            >
+              {c}
+            </button>
+          ))}
+        </div>
+        <ul className="space-y-1.5 max-h-40 overflow-y-auto pr-1">
+          {FORMULA_FUNCTIONS.filter(fn => fn.category === category).map(fn => (
+            <li key={fn.name}>
+              <button onClick={() => insert(`${fn.name}(`)} className="text-left w-full group">
+                <span className="text-xs font-mono font-bold text-deepblue-900 group-hover:text-gold-700">{fn.signature}</span>
+                <span className="block text-[11px] text-gray-400">{fn.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {error ? (
+        <p className="flex items-start gap-2 text-xs text-red-600 font-bold">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          {error}
+        </p>
+      ) : preview && (
+        <div>
+          <label className={label}>Vista Previa · {preview.type === 'number' ? 'Número' : 'Texto'}</label>
+          <div className="flex flex-wrap gap-2">
+            {preview.values.map((value, i) => (
+              <span key={i} className="px-3 py-1.5 rounded-xl bg-white border border-gray-100 text-xs font-mono text-gray-700">
+                {value === null ? '∅' : typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 4 }) : value}
+              </span>
+            ))}
+          </div>
+          {data.length > PREVIEW_ROWS && (
+            <p className="mt-2 text-[10px] text-gray-400 italic">
+              Calculada sobre las primeras {PREVIEW_ROWS} filas; las funciones de grupo usarán todo el conjunto.
+            </p>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={handleAdd}
+        disabled={!name.trim() || !formula.trim() || !!preview?.error}
+        className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md disabled:opacity-40"
+      >
+        <Plus size={14} />
+        Añadir Columna
+      </button>
+    </div>
+  );
+};
+
+export default FormulaEditor;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { ColumnMetadata, KpiAggregation, KpiBaseline, KpiDefinition } from '../types';
+import { KPI_AGGREGATIONS, KPI_BASELINES, kpiLabel } from '../utils/kpis';
+import { ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
+
+interface KpiEditorProps {
+  definition: KpiDefinition;
+  metadata: ColumnMetadata[];
+  error?: string;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (changes: Partial<KpiDefinition>) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const KpiEditor: React.FC<KpiEditorProps> = ({ definition, metadata, error, isFirst, isLast, onChange, onMove, onRemove }) => {
+  const aggregation = KPI_AGGREGATIONS.find(a => a.id === definition.aggregation);
+  const numCols = metadata.filter(m => m.type === 'number');
+  const columnOptions = aggregation?.numeric ? numCols : metadata;
+
+  // Al pasar a una agregación numérica se descarta una columna de texto seleccionada
+  const changeAggregation = (next: KpiAggregation) => {
+    const numeric = KPI_AGGREGATIONS.find(a => a.id === next)?.numeric;
+    const columnValid = numeric ? numCols.some(c => c.name === definition.column) : next === 'count' || metadata.some(c => c.name === definition.column);
+    onChange({
+      aggregation: next,
+      column: columnValid ? definition.column : (numeric ? numCols[0]?.name : metadata[0]?.name) ?? ''
+    });
+  };
+
+  const labelClass = "block text-[10px] font-bold text-gray-400 uppercase mb-1";
+  const inputClass = "w-full bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300";
+
+  return (
+    <div className="bg-white rounded-3xl p-5 border-2 border-dashed border-gold-200 shadow-sm space-y-3">
+      <div>
+        <label className={labelClass}>Etiqueta</label>
+        <input
+          type="text"
+          value={definition.label}
+          placeholder={kpiLabel({ ...definition, label: '' })}
+          onChange={(e) => onChange({ label: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Agregación</label>
+          <select value={definition.aggregation} onChange={(e) => changeAggregation(e.target.value as KpiAggregation)} className={inputClass}>
+            {KPI_AGGREGATIONS.map(a => (
+              <option key={a.id} value={a.id} disabled={a.numeric && numCols.length === 0}>{a.label}</option>
+            ))}
+          </select>
+        </div>
+        {definition.aggregation === 'percentile' ? (
+          <div>
+            <label className={labelClass}>Percentil</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={definition.percentile}
+              onChange={(e) => onChange({ percentile: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+              className={inputClass}
+            />
+          </div>
+        ) : <div />}
+      </div>
+
+      {definition.aggregation === 'formula' ? (
+        <div>
+          <label className={labelClass}>Fórmula</label>
+          <input
+            type="text"
+            value={definition.formula}
+            placeholder="sum(puntos) / distinct(equipo)"
+            onChange={(e) => onChange({ formula: e.target.value })}
+            className={`${inputClass} font-mono`}
+          />
+          <p className="text-[10px] text-gray-400 mt-1 leading-relaxed">
+            count, sum, mean, median, percentile(col, p), stddev, min, max, distinct, nulls · abs, round, sqrt · [Columna con espacios]
+          </p>
+        </div>
+      ) : (
+        <div>
+          <label className={labelClass}>Columna</label>
+          <select value={definition.column} onChange={(e) => onChange({ column: e.target.value })} className={inputClass}>
+            {definition.aggregation === 'count' && <option value="">Todas las filas</option>}
+            {columnOptions.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className={definition.baseline === 'target' ? '' : 'col-span-2'}>
+          <label className={labelClass}>Referencia</label>
+          <select value={definition.baseline} onChange={(e) => onChange({ baseline: e.target.value as KpiBaseline })} className={inputClass}>
+            {KPI_BASELINES.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+          </select>
+        </div>
+        {definition.baseline === 'target' && (
+          <div>
+            <label className={labelClass}>Objetivo</label>
+            <input
+              type="number"
+              value={definition.target}
+              onChange={(e) => onChange({ target: Number(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-[10px] font-bold text-red-600">{error}</p>}
+
+      <div className="flex justify-between items-center pt-1">
+        <div className="flex gap-1">
+          <button onClick={() => onMove(-1)} disabled={isFirst} title="Mover a la izquierda" className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 transition-all">
+            <ChevronLeft size={14} />
+          </button>
+          <button onClick={() => onMove(1)} disabled={isLast} title="Mover a la derecha" className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 transition-all">
+            <ChevronRight size={14} />
+          </button>
+        </div>
+        <button onClick={onRemove} title="Eliminar indicador" className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 transition-all">
+          <Trash2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default KpiEditor;
@@ -0,0 +1,331 @@
+import React, { useMemo, useState } from 'react';
+import { ChartAggregation, ColumnMetadata, DataRow, PivotConfig, PivotDrillThrough, PivotZone } from '../types';
+import { CHART_AGGREGATIONS } from '../utils/aggregation';
+import {
+  PivotRowNode, buildPivotTable, createPivotValueField, pivotDrillThrough, pivotValueLabel
+} from '../utils/pivot';
+import { Grid3x3, ChevronDown, ChevronRight, X, GripVertical } from 'lucide-react';
+
+interface PivotTableViewProps {
+  data: DataRow[];
+  metadata: ColumnMetadata[];
+  config: PivotConfig;
+  onConfigChange: (config: PivotConfig) => void;
+  onDrillThrough: (drill: PivotDrillThrough) => void;
+}
+
+type DragSource = { column: string; from: PivotZone | 'fields'; valueId?: string };
+
+const ZONES: { id: PivotZone; label: string; hint: string }[] = [
+  { id: 'rows', label: 'Filas', hint: 'Arrastre aquí los campos que agrupan las filas' },
+  { id: 'columns', label: 'Columnas', hint: 'Arrastre aquí los campos que abren columnas' },
+  { id: 'values', label: 'Valores', hint: 'Arrastre aquí los campos a agregar' }
+];
+
+const formatNumber = (value: number) =>
+  isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '—';
+
+// Tramos consecutivos con el mismo prefijo, para combinar celdas de la cabecera
+const headerSpans = (keys: string[][], level: number) => {
+  const spans: { label: string; span: number }[] = [];
+  keys.forEach((key, i) => {
+    const previous = keys[i - 1];
+    const samePrefix = previous && key.slice(0, level + 1).every((part, j) => part === previous[j]);
+    if (samePrefix) spans[spans.length - 1].span++;
+    else spans.push({ label: key[level], span: 1 });
+  });
+  return spans;
+};
+
+const PivotTableView: React.FC<PivotTableViewProps> = ({ data, metadata, config, onConfigChange, onDrillThrough }) => {
+  const [dragging, setDragging] = useState<DragSource | null>(null);
+  const [dropTarget, setDropTarget] = useState<PivotZone | 'fields' | null>(null);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+
+  const pivot = useMemo(() => buildPivotTable(data, config), [data, config]);
+  const fields = config.values.length > 0 ? config.values : [null];
+  const hasColumns = config.columns.length > 0;
+  const showTotalColumn = hasColumns && config.showGrandTotals;
+  const typeOf = (column: string) => metadata.find(m => m.name === column)?.type;
+
+  const defaultAggregation = (column: string): ChartAggregation => typeOf(column) === 'number' ? 'sum' : 'count';
+
+  const moveField = (source: DragSource, zone: PivotZone | 'fields') => {
+    if (source.from === zone && zone !== 'values') return;
+    const next: PivotConfig = {
+      ...config,
+      rows: config.rows.filter(name => !(source.from === 'rows' && name === source.column)),
+      columns: config.columns.filter(name => !(source.from === 'columns' && name === source.column)),
+      values: config.values.filter(field => field.id !== source.valueId)
+    };
+    if (zone === 'values') {
+      // Arrastrar dentro de Valores no duplica el campo
+      if (source.from === 'values') return;
+      next.values = [...next.values, createPivotValueField(source.column, defaultAggregation(source.column))];
+    } else if (zone !== 'fields') {
+      // Un campo solo puede agrupar en una dirección a la vez
+      next.rows = next.rows.filter(name => name !== source.column);
+      next.columns = next.columns.filter(name => name !== source.column);
+      next[zone] = [...next[zone], source.column];
+    }
+    onConfigChange(next);
+  };
+
+  const handleDrop = (zone: PivotZone | 'fields') => {
+    if (dragging) moveField(dragging, zone);
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const zoneProps = (zone: PivotZone | 'fields') => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(zone);
+    },
+    onDragLeave: () => setDropTarget(prev => prev === zone ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(zone);
+    }
+  });
+
+  const chipProps = (source: DragSource) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', source.column);
+      setDragging(source);
+    },
+    onDragEnd: () => {
+      setDragging(null);
+      setDropTarget(null);
+    }
+  });
+
+  const updateAggregation = (id: string, aggregation: ChartAggregation) =>
+    onConfigChange({ ...config, values: config.values.map(field => field.id === id ? { ...field, aggregation } : field) });
+
+  const toggleCollapsed = (key: string) =>
+    setCollapsed(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+
+  // Filas visibles del cuerpo: grupos (con o sin subtotal) y hojas
+  const lines = useMemo(() => {
+    const result: { node: PivotRowNode; isGroup: boolean }[] = [];
+    const visit = (node: PivotRowNode) => {
+      const isGroup = node.children.length > 0;
+      result.push({ node, isGroup });
+      if (isGroup && !collapsed.includes(node.key)) node.children.forEach(visit);
+    };
+    pivot.rowTree.forEach(visit);
+    return result;
+  }, [pivot, collapsed]);
+
+  const renderValueCells = (rowPath: string[], emphasis: boolean) => {
+    const columnKeys: (string[] | null)[] = hasColumns ? [...pivot.columnKeys, ...(showTotalColumn ? [null] : [])] : [null];
+    return columnKeys.flatMap(columnKey => fields.map(field => {
+      const count = pivot.rowCount(rowPath, columnKey);
+      const value = pivot.aggregate(rowPath, columnKey, field);
+      return (
+        <td
+          key={`${columnKey?.join('|') ?? 'total'}-${field?.id ?? 'count'}`}
+          onClick={() => count > 0 && onDrillThrough(pivotDrillThrough(config, rowPath, columnKey))}
+          title={count > 0 ? `Ver las ${count.toLocaleString()} filas de detalle` : undefined}
+          className={`px-6 py-3 text-xs font-mono text-right whitespace-nowrap ${
+            count > 0 ? 'cursor-pointer hover:bg-gold-50 hover:text-gold-700' : 'text-gray-300'
+          } ${emphasis ? 'font-bold text-gray-900' : 'text-gray-600'} ${columnKey === null && hasColumns ? 'bg-gray-50/60' : ''}`}
+        >
+          {count > 0 ? formatNumber(value) : '—'}
+        </td>
+      );
+    }));
+  };
+
+  const fieldLabel = (field: typeof fields[number]) => field ? pivotValueLabel(field) : 'Recuento';
+  const headerCell = "px-6 py-4 text-[10px] font-black text-gray-400 uppercase tracking-[0.2em] whitespace-nowrap border-b border-gray-100";
+  const usedColumns = new Set([...config.rows, ...config.columns]);
+
+  return (
+    <section className="bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden animate-fadeIn">
+      <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-col md:flex-row justify-between items-center gap-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gold-50 rounded-2xl">
+            <Grid3x3 className="text-gold-600" size={20} />
+          </div>
+          <div>
+            <h3 className="text-xl font-serif font-bold text-gray-900">Tabla Dinámica</h3>
+            <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">
+              {data.length.toLocaleString()} registros filtrados · pulse una celda para ver su detalle
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-6">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.showSubtotals}
+              onChange={() => onConfigChange({ ...config, showSubtotals: !config.showSubtotals })}
+              className="accent-gold-500"
+            />
+            <span className="text-[10px] font-bold text-gray-500 uppercase">Subtotales</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.showGrandTotals}
+              onChange={() => onConfigChange({ ...config, showGrandTotals: !config.showGrandTotals })}
+              className="accent-gold-500"
+            />
+            <span className="text-[10px] font-bold text-gray-500 uppercase">Totales Generales</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 p-8 border-b border-gray-100">
+        <div
+          {...zoneProps('fields')}
+          className={`rounded-2xl border-2 border-dashed p-4 transition-colors ${dropTarget === 'fields' ? 'border-red-300 bg-red-50/40' : 'border-gray-100'}`}
+        >
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">Campos</p>
+          <div className="flex flex-wrap gap-1.5">
+            {metadata.map(column => (
+              <span
+                key={column.name}
+                {...chipProps({ column: column.name, from: 'fields' })}
+                className={`flex items-center gap-1 px-2.5 py-1.5 rounded-lg border text-[11px] font-bold cursor-grab ${
+                  usedColumns.has(column.name) ? 'border-gold-200 bg-gold-50/50 text-gold-700' : 'border-gray-200 bg-white text-gray-600'
+                }`}
+              >
+                <GripVertical size={10} className="text-gray-300" />
+                {column.name}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {ZONES.map(zone => (
+          <div
+            key={zone.id}
+            {...zoneProps(zone.id)}
+            className={`rounded-2xl border-2 border-dashed p-4 min-h-[96px] transition-colors ${
+              dropTarget === zone.id ? 'border-gold-400 bg-gold-50/40' : 'border-gray-100'
+            }`}
+          >
+            <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">{zone.label}</p>
+            <div className="flex flex-col gap-1.5">
+              {zone.id !== 'values' && config[zone.id].map(name => (
+                <span
+                  key={name}
+                  {...chipProps({ column: name, from: zone.id })}
+                  className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg bg-deepblue-950 text-white text-[11px] font-bold cursor-grab"
+                >
+                  {name}
+                  <button onClick={() => moveField({ column: name, from: zone.id }, 'fields')} className="text-white/40 hover:text-white">
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+              {zone.id === 'values' && config.values.map(field => {
+                const numeric = typeOf(field.column) === 'number';
+                return (
+                  <span
+                    key={field.id}
+                    {...chipProps({ column: field.column, from: 'values', valueId: field.id })}
+                    className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg bg-deepblue-950 text-white text-[11px] font-bold cursor-grab"
+                  >
+                    <span className="truncate">{field.column}</span>
+                    <span className="flex items-center gap-1">
+                      <select
+                        value={field.aggregation}
+                        onChange={e => updateAggregation(field.id, e.target.value as ChartAggregation)}
+                        className="bg-white/10 rounded px-1 py-0.5 text-[10px] text-gold-400 outline-none"
+                      >
+                        {CHART_AGGREGATIONS.filter(a => numeric || !a.numeric).map(a => (
+                          <option key={a.id} value={a.id} className="text-gray-900">{a.label}</option>
+                        ))}
+                      </select>
+                      <button onClick={() => moveField({ column: field.column, from: 'values', valueId: field.id }, 'fields')} className="text-white/40 hover:text-white">
+                        <X size={12} />
+                      </button>
+                    </span>
+                  </span>
+                );
+              })}
+              {(zone.id === 'values' ? config.values.length : config[zone.id].length) === 0 && (
+                <p className="text-[11px] text-gray-300 italic">{zone.hint}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-separate border-spacing-0">
+          <thead>
+            {config.columns.map((column, level) => (
+              <tr key={column}>
+                <th className={`${headerCell} bg-gray-50/30`}>{column}</th>
+                {headerSpans(pivot.columnKeys, level).map((span, i) => (
+                  <th key={i} colSpan={span.span * fields.length} className={`${headerCell} text-center text-gray-600 border-l`}>
+                    {span.label}
+                  </th>
+                ))}
+                {showTotalColumn && (
+                  <th colSpan={fields.length} className={`${headerCell} text-center bg-gray-50/60 border-l`}>{level === 0 ? 'Total' : ''}</th>
+                )}
+              </tr>
+            ))}
+            <tr>
+              <th className={headerCell}>{config.rows.join(' / ')}</th>
+              {(hasColumns ? [...pivot.columnKeys, ...(showTotalColumn ? [null] : [])] : [null]).flatMap((_, i) =>
+                fields.map(field => (
+                  <th key={`${i}-${field?.id ?? 'count'}`} className={`${headerCell} text-right`}>{fieldLabel(field)}</th>
+                ))
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {config.rows.length === 0 ? (
+              <tr>
+                <td className="px-6 py-3 text-xs font-bold text-gray-900">Total</td>
+                {renderValueCells([], true)}
+              </tr>
+            ) : lines.map(({ node, isGroup }) => {
+              const isCollapsed = collapsed.includes(node.key);
+              const showValues = !isGroup || isCollapsed || config.showSubtotals;
+              return (
+                <tr key={node.key} className={isGroup ? 'bg-gray-50/40' : 'hover:bg-gold-50/10'}>
+                  <td className="px-6 py-3 text-xs whitespace-nowrap" style={{ paddingLeft: 24 + (node.path.length - 1) * 20 }}>
+                    {isGroup ? (
+                      <button onClick={() => toggleCollapsed(node.key)} className="flex items-center gap-1.5 font-bold text-gray-900">
+                        {isCollapsed ? <ChevronRight size={12} className="text-gray-400" /> : <ChevronDown size={12} className="text-gold-600" />}
+                        {node.path[node.path.length - 1]}
+                      </button>
+                    ) : (
+                      <span className="text-gray-700">{node.path[node.path.length - 1]}</span>
+                    )}
+                  </td>
+                  {showValues
+                    ? renderValueCells(node.path, isGroup)
+                    : <td colSpan={(hasColumns ? pivot.columnKeys.length + (showTotalColumn ? 1 : 0) : 1) * fields.length}></td>}
+                </tr>
+              );
+            })}
+            {config.rows.length > 0 && config.showGrandTotals && (
+              <tr className="bg-deepblue-950/5">
+                <td className="px-6 py-3 text-xs font-black text-gray-900 uppercase tracking-widest">Total General</td>
+                {renderValueCells([], true)}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {pivot.hiddenColumns > 0 && (
+        <p className="px-8 py-4 text-[11px] text-gray-400 italic border-t border-gray-100">
+          {pivot.hiddenColumns} combinaciones de columnas no se muestran; el total general sí las incluye.
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default PivotTableView;
@@ -1,113 +1,148 @@
 
-import React, { useRef, useState } from 'react';
-import { UserProfile, DataRow } from '../types';
-import { Upload, CheckCircle, ArrowRight, UserPlus, Building, Image as ImageIcon, ShieldCheck, Database } from 'lucide-react';
-import * as XLSX from 'xlsx';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { UserProfile, DataRow, ImportReport, ImportWarningKind, ImportProgress, ColumnMetadata, Dataset, SessionRecord, TransformStep } from '../types';
+import { Upload, CheckCircle, ArrowRight, UserPlus, Building, Image as ImageIcon, ShieldCheck, Database, X, AlertTriangle, Layers, Trash2 } from 'lucide-react';
+import { useFileImport } from '../hooks/useFileImport';
+import { useTransformRecipes } from '../hooks/useTransformRecipes';
+import { RecipeResult, createStepId, findMatchingRecipe } from '../utils/transforms';
+import ColumnTypeReview from '../components/ColumnTypeReview';
+import SheetPicker from '../components/SheetPicker';
+import SessionManager from '../components/SessionManager';
+import DataQualityPanel from '../components/DataQualityPanel';
+import TransformPanel from '../components/TransformPanel';
 
 interface ProfilePageProps {
   profile: UserProfile;
   onProfileUpdate: (profile: UserProfile) => void;
-  onDataImport: (data: DataRow[], fileName: string) => void;
+  // Devuelve el id que el registro asigna al conjunto importado
+  onDataImport: (data: DataRow[], fileName: string, columns?: ColumnMetadata[], datasetName?: string) => string | void;
   onNavigateToAnalysis: () => void;
   dataImported: boolean;
   importedFileName: string;
+  datasets?: Dataset[];
+  activeDatasetId?: string | null;
+  onRenameDataset?: (id: string, name: string) => void;
+  onRemoveDataset?: (id: string) => void;
+  onTransformDataset?: (id: string, steps: TransformStep[]) => RecipeResult | null;
+  onUndoTransform?: (id: string) => void;
+  undoableSteps?: (id: string) => number;
+  sessions?: SessionRecord[];
+  currentSessionId?: string | null;
+  isSavingSession?: boolean;
+  onLoadSession?: (id: string) => void;
+  onRenameSession?: (id: string, name: string) => void;
+  onDeleteSession?: (id: string) => void;
+  onNewSession?: () => void;
 }
 
+const PHASE_LABELS: Record<ImportProgress['phase'], string> = {
+  parsing: 'Analizando Celdas...',
+  joining: 'Uniendo Hojas...',
+  converting: 'Aplicando Tipos...'
+};
+
+const WARNING_LABELS: Record<ImportWarningKind, string> = {
+  fieldCount: 'filas con campos irregulares (conservadas)',
+  unclosedQuote: 'comillas sin cerrar',
+  duplicateKey: 'claves duplicadas al unir hojas',
+  encoding: 'avisos de codificación'
+};
+
 const ProfilePage: React.FC<ProfilePageProps> = ({ 
   profile, 
   onProfileUpdate, 
   onDataImport, 
   onNavigateToAnalysis,
   dataImported,
-  importedFileName
+  importedFileName,
+  datasets = [],
+  activeDatasetId = null,
+  onRenameDataset,
+  onRemoveDataset,
+  onTransformDataset,
+  onUndoTransform,
+  undoableSteps,
+  sessions,
+  currentSessionId = null,
+  isSavingSession,
+  onLoadSession,
+  onRenameSession,
+  onDeleteSession,
+  onNewSession
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
   const [dataStats, setDataStats] = useState<{ rows: number, cols: number } | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [recipeNotice, setRecipeNotice] = useState<string | null>(null);
+  // Conjuntos recién importados a los que aún hay que buscarles una receta guardada
+  const pendingRecipeRef = useRef(new Set<string>());
+  const { recipes, isLoaded: recipesLoaded, saveRecipe, deleteRecipe } = useTransformRecipes();
 
-  const robustParseValue = (val: any): number | string => {
-    if (val === null || val === undefined) return '';
-    if (typeof val === 'number') return val;
-    
-    let clean = String(val).trim();
-    if (clean === '') return '';
-
-    // Limpieza de formatos de moneda, porcentaje y separadores
-    const numericCandidate = clean.replace(/[^\d.,-]/g, '').replace(',', '.');
-    const parsed = parseFloat(numericCandidate);
-    
-    // Si es un número válido y no parece un texto alfanumérico largo
-    if (!isNaN(parsed) && /^[\d.,\s$%+-]+$/.test(clean)) {
-      return parsed;
-    }
-    
-    return clean;
-  };
+  const handleImportComplete = useCallback((data: DataRow[], fileName: string, report: ImportReport, columns: ColumnMetadata[], datasetName?: string) => {
+    setDataStats({ rows: data.length, cols: columns.length });
+    setImportReport(report);
+    setRecipeNotice(null);
+    const id = onDataImport(data, fileName, columns, datasetName);
+    if (id) pendingRecipeRef.current.add(id);
+  }, [onDataImport]);
 
-  const processDataRows = (rawRows: any[]): DataRow[] => {
-    return rawRows.map(row => {
-      const cleanRow: DataRow = {};
-      Object.keys(row).forEach(key => {
-        cleanRow[key] = robustParseValue(row[key]);
-      });
-      return cleanRow;
-    });
-  };
+  const handleImportError = useCallback((message: string) => {
+    console.error("Error al procesar:", message);
+    alert("Error procesando el archivo. Verifique el formato.");
+  }, []);
+
+  const { progress, review, sheets, fileName, isImporting, start, selectSheets, confirm, cancel } = useFileImport({
+    onComplete: handleImportComplete,
+    onError: handleImportError
+  });
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
+    start(file);
+  };
 
-    setIsProcessing(true);
-    const reader = new FileReader();
-    const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
+  const delimiterLabel = (delimiter?: string) => {
+    switch (delimiter) {
+      case ';': return 'Punto y coma';
+      case '\t': return 'Tabulador';
+      case '|': return 'Barra vertical';
+      default: return 'Coma';
+    }
+  };
 
-    reader.onload = (event) => {
-      try {
-        let jsonData: DataRow[] = [];
-        
-        if (isExcel) {
-          const data = new Uint8Array(event.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(data, { type: 'array' });
-          const firstSheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[firstSheetName];
-          const rawRows = XLSX.utils.sheet_to_json(worksheet);
-          jsonData = processDataRows(rawRows);
-        } else {
-          // Procesamiento de CSV
-          const text = event.target?.result as string;
-          const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-          if (lines.length < 2) throw new Error("Archivo insuficiente");
-
-          const headers = lines[0].split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(h => h.trim().replace(/^"|"$/g, ''));
-          const rawRows = lines.slice(1).map(line => {
-            const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/);
-            const row: any = {};
-            headers.forEach((header, index) => {
-              row[header] = (values[index] || '').trim().replace(/^"|"$/g, '');
-            });
-            return row;
-          });
-          jsonData = processDataRows(rawRows);
-        }
-        
-        const cols = jsonData.length > 0 ? Object.keys(jsonData[0]).length : 0;
-        setDataStats({ rows: jsonData.length, cols });
-        onDataImport(jsonData, file.name);
-      } catch (err) {
-        console.error("Error al procesar:", err);
-        alert("Error procesando el archivo. Verifique el formato.");
-      } finally {
-        setIsProcessing(false);
-      }
-    };
+  // Las cifras salen del propio conjunto: una sesión restaurada no pasa por la importación
+  // y la depuración de calidad puede quitar filas o columnas después
+  // Se busca por id: las hojas importadas por separado comparten el nombre de archivo
+  const currentDataset = datasets.find(d => d.id === activeDatasetId);
+  const importedStats = currentDataset ? { rows: currentDataset.data.length, cols: currentDataset.columns.length } : dataStats;
 
-    if (isExcel) {
-      reader.readAsArrayBuffer(file);
-    } else {
-      reader.readAsText(file);
-    }
+  // Un archivo con la misma forma que una receta guardada recibe sus pasos automáticamente
+  useEffect(() => {
+    if (!recipesLoaded || !onTransformDataset) return;
+    datasets.filter(d => pendingRecipeRef.current.has(d.id)).forEach(dataset => {
+      pendingRecipeRef.current.delete(dataset.id);
+      if (dataset.recipe?.length) return;
+      const match = findMatchingRecipe(recipes, dataset.columns);
+      if (!match) return;
+      const result = onTransformDataset(dataset.id, match.steps.map(step => ({ ...step, id: createStepId() })));
+      if (!result) return;
+      const skipped = result.errors.length;
+      setRecipeNotice(`Receta "${match.name}" aplicada a ${dataset.name} (${result.applied.length} pasos${skipped > 0 ? `, ${skipped} omitidos` : ''}).`);
+    });
+  }, [datasets, recipes, recipesLoaded, onTransformDataset]);
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const formatEta = (seconds: number | null) => {
+    if (seconds === null) return '--';
+    if (seconds < 60) return `${Math.ceil(seconds)} s`;
+    return `${Math.floor(seconds / 60)} min ${Math.ceil(seconds % 60)} s`;
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -175,6 +210,18 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
               </div>
             </div>
           </div>
+
+          {sessions && onLoadSession && onRenameSession && onDeleteSession && onNewSession && (
+            <SessionManager
+              sessions={sessions}
+              currentSessionId={currentSessionId}
+              isSaving={isSavingSession}
+              onLoad={onLoadSession}
+              onRename={onRenameSession}
+              onDelete={onDeleteSession}
+              onNew={onNewSession}
+            />
+          )}
         </section>
 
         {/* Depuración de Datos */}
@@ -195,7 +242,7 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
               </div>
 
               <div 
-                onClick={() => !isProcessing && fileInputRef.current?.click()}
+                onClick={() => !isImporting && fileInputRef.current?.click()}
                 className={`group border-2 border-dashed rounded-3xl p-12 flex flex-col items-center justify-center cursor-pointer transition-all ${
                   dataImported ? 'border-gold-500 bg-gold-500/5' : 'border-white/10 hover:border-gold-500 hover:bg-white/5'
                 }`}
@@ -208,18 +255,53 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
                   className="hidden" 
                 />
                 
-                {isProcessing ? (
-                  <div className="flex flex-col items-center">
-                    <div className="w-14 h-14 border-4 border-gold-500 border-t-transparent rounded-full animate-spin mb-4"></div>
-                    <span className="text-gold-400 font-bold uppercase tracking-widest text-xs">Analizando Celdas...</span>
+                {progress ? (
+                  <div className="w-full flex flex-col items-center">
+                    <span className="text-gold-400 font-bold uppercase tracking-widest text-xs mb-4">
+                      {PHASE_LABELS[progress.phase]}
+                    </span>
+                    <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden mb-4">
+                      <div
+                        className="h-full bg-gold-500 transition-all"
+                        style={{ width: `${progress.fraction * 100}%` }}
+                      ></div>
+                    </div>
+                    <div className="inline-flex gap-4 px-4 py-2 bg-white/5 rounded-full text-[10px] font-bold uppercase tracking-widest text-blue-200/60 mb-6">
+                      <span>{progress.rowsParsed.toLocaleString()} Registros</span>
+                      {progress.phase === 'parsing' && (
+                        <span>{formatBytes(progress.bytesRead)} / {formatBytes(progress.totalBytes)}</span>
+                      )}
+                      <span>Restante: {formatEta(progress.etaSeconds)}</span>
+                    </div>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); cancel(); }}
+                      className="flex items-center gap-2 px-5 py-2.5 rounded-xl border border-white/10 text-xs font-black uppercase tracking-widest text-white/70 hover:text-white hover:border-gold-500 transition-all"
+                    >
+                      <X size={14} />
+                      Cancelar
+                    </button>
+                  </div>
+                ) : sheets ? (
+                  <div className="text-center">
+                    <Layers className="text-gold-500/40 mx-auto mb-4" size={48} />
+                    <p className="text-2xl font-bold text-white mb-2">{fileName}</p>
+                    <p className="text-blue-200/60 text-sm">Seleccione las hojas a importar y cómo unirlas.</p>
+                  </div>
+                ) : review ? (
+                  <div className="text-center">
+                    <CheckCircle className="text-gold-500/40 mx-auto mb-4" size={48} />
+                    <p className="text-2xl font-bold text-white mb-2">{review.datasetName ?? review.fileName}</p>
+                    <p className="text-blue-200/60 text-sm">Revise los tipos de columna detectados antes de continuar.</p>
                   </div>
                 ) : dataImported ? (
                   <div className="text-center">
                     <CheckCircle className="text-gold-500 mx-auto mb-4" size={48} />
                     <p className="text-2xl font-bold text-white mb-2">{importedFileName}</p>
                     <div className="inline-flex gap-4 px-4 py-2 bg-white/5 rounded-full text-[10px] font-bold uppercase tracking-widest text-gold-400">
-                      <span>{dataStats?.rows} Registros</span>
-                      <span>{dataStats?.cols} Columnas</span>
+                      <span>{importedStats?.rows} Registros</span>
+                      <span>{importedStats?.cols} Columnas</span>
+                      {importReport?.delimiter && <span>{delimiterLabel(importReport.delimiter)}</span>}
+                      {importReport?.encoding && <span>{importReport.encoding === 'utf-8' ? 'UTF-8' : 'Latin-1'}</span>}
                     </div>
                   </div>
                 ) : (
@@ -232,6 +314,60 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
               </div>
             </div>
 
+            {datasets.length > 1 && (
+              <div className="mt-6 space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-gold-400 mb-3">Conjuntos en la Sesión</p>
+                {datasets.map(dataset => (
+                  <div key={dataset.id} className="flex items-center gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+                    <Database className="text-gold-500 shrink-0" size={14} />
+                    <input
+                      type="text"
+                      defaultValue={dataset.name}
+                      onBlur={(e) => e.target.value.trim() && onRenameDataset?.(dataset.id, e.target.value.trim())}
+                      className="flex-grow bg-transparent text-sm font-bold text-white outline-none focus:text-gold-400"
+                    />
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-blue-200/40 whitespace-nowrap">
+                      {dataset.data.length.toLocaleString()} registros
+                    </span>
+                    <button
+                      onClick={() => onRemoveDataset?.(dataset.id)}
+                      className="p-1.5 rounded-lg text-white/30 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {importReport && importReport.warningCount > 0 && (
+              <div className="mt-6 p-5 rounded-2xl bg-white/5 border border-gold-500/20">
+                <div className="flex items-center gap-3 mb-3">
+                  <AlertTriangle className="text-gold-500" size={16} />
+                  <span className="text-[10px] font-black uppercase tracking-widest text-gold-400">
+                    {importReport.warningCount} advertencias de importación
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {(Object.keys(importReport.warningsByKind) as ImportWarningKind[]).map(kind => (
+                    <span key={kind} className="px-3 py-1 rounded-full bg-white/5 text-[10px] font-bold text-blue-200/70">
+                      {importReport.warningsByKind[kind]} {WARNING_LABELS[kind]}
+                    </span>
+                  ))}
+                </div>
+                <ul className="space-y-1 max-h-32 overflow-y-auto">
+                  {importReport.warnings.map((warning, idx) => (
+                    <li key={idx} className="text-xs text-blue-200/60 font-mono">{warning.message}</li>
+                  ))}
+                </ul>
+                {importReport.warningCount > importReport.warnings.length && (
+                  <p className="text-[10px] text-blue-200/40 mt-2">
+                    Y {importReport.warningCount - importReport.warnings.length} advertencias más.
+                  </p>
+                )}
+              </div>
+            )}
+
             <button
               onClick={onNavigateToAnalysis}
               disabled={!dataImported || !profile.fullName}
@@ -247,6 +383,29 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
           </div>
         </section>
       </div>
+
+      {sheets && <SheetPicker fileName={fileName} sheets={sheets} onConfirm={selectSheets} onCancel={cancel} />}
+      {review && <ColumnTypeReview review={review} onConfirm={confirm} onCancel={cancel} />}
+      {!review && !sheets && currentDataset && onTransformDataset && (
+        <>
+          <DataQualityPanel
+            data={currentDataset.data}
+            columns={currentDataset.columns}
+            typeIssues={importReport?.typeIssues}
+            onApply={step => onTransformDataset(currentDataset.id, [step])}
+          />
+          <TransformPanel
+            dataset={currentDataset}
+            recipes={recipes}
+            undoable={undoableSteps?.(currentDataset.id) ?? 0}
+            notice={recipeNotice}
+            onApply={steps => onTransformDataset(currentDataset.id, steps)}
+            onUndo={() => onUndoTransform?.(currentDataset.id)}
+            onSaveRecipe={name => saveRecipe(name, currentDataset.sourceColumns ?? currentDataset.columns, currentDataset.recipe ?? [])}
+            onDeleteRecipe={deleteRecipe}
+          />
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ColumnMetadata, DataRow, UserProfile } from '../types';
+import { KpiValue } from '../utils/kpis';
+import { serializeChart } from '../utils/chartExport';
+import { buildReportHtml, downloadReportHtml, printReport, ReportContent } from '../utils/reportBuilder';
+import { exportFileName } from '../utils/dataExport';
+import { FileText, Printer, Download, X } from 'lucide-react';
+
+interface ReportDialogProps {
+  profile: UserProfile;
+  datasetName?: string;
+  importedFileName?: string;
+  comparisonName?: string;
+  data: DataRow[];
+  totalRows: number;
+  metadata: ColumnMetadata[];
+  kpis: KpiValue[];
+  filters: string[];
+  chartContainer: HTMLElement | null;
+  onClose: () => void;
+}
+
+const SAMPLE_SIZES = [0, 10, 25, 50];
+
+const ReportDialog: React.FC<ReportDialogProps> = ({
+  profile, datasetName, importedFileName, comparisonName, data, totalRows, metadata, kpis, filters, chartContainer, onClose
+}) => {
+  // Solo se pueden incluir los gráficos montados en la pestaña visible
+  const chartElements = useMemo(
+    () => Array.from(chartContainer?.querySelectorAll<HTMLElement>('[data-chart-title]') ?? []),
+    [chartContainer]
+  );
+  const [title, setTitle] = useState('Informe de Auditoría');
+  const [selectedCharts, setSelectedCharts] = useState<number[]>(chartElements.map((_, i) => i));
+  const [includeKpis, setIncludeKpis] = useState(true);
+  const [includeTable, setIncludeTable] = useState(true);
+  const [sampleSize, setSampleSize] = useState(10);
+
+  const buildHtml = () => {
+    const report: ReportContent = {
+      title,
+      profile,
+      datasetName,
+      comparisonName,
+      generatedAt: new Date(),
+      filters,
+      kpis: includeKpis ? kpis : [],
+      charts: selectedCharts
+        .map(index => {
+          const element = chartElements[index];
+          const chart = serializeChart(element);
+          return chart ? { title: element.dataset.chartTitle ?? '', svg: chart.markup } : null;
+        })
+        .filter((chart): chart is ReportContent['charts'][number] => chart !== null),
+      table: includeTable ? { metadata, rows: data, totalRows, sampleSize } : null
+    };
+    return buildReportHtml(report);
+  };
+
+  const handlePrint = () => {
+    if (!printReport(buildHtml())) alert("El navegador bloqueó la ventana del informe. Permita las ventanas emergentes.");
+  };
+
+  const handleDownload = () => {
+    downloadReportHtml(buildHtml(), exportFileName(importedFileName, 'html', '_informe'));
+  };
+
+  const toggleChart = (index: number) => {
+    setSelectedCharts(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  };
+
+  const checkboxRow = "flex items-center gap-3 px-4 py-3 rounded-2xl bg-gray-50 border border-gray-100 cursor-pointer";
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-deepblue-950/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-[40px] shadow-2xl border border-gray-100 w-full max-w-xl max-h-[90vh] overflow-y-auto animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-gold-50 rounded-2xl">
+              <FileText className="text-gold-600" size={20} />
+            </div>
+            <div>
+              <h3 className="text-xl font-serif font-bold text-gray-900">Generar Informe</h3>
+              <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">{filters.length} filtros activos registrados</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          <div>
+            <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">Título</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-5 py-3 rounded-2xl bg-gray-50 border-none focus:ring-2 focus:ring-gold-400 outline-none font-medium text-gray-700"
+            />
+          </div>
+
+          <label className={checkboxRow}>
+            <input type="checkbox" checked={includeKpis} onChange={() => setIncludeKpis(!includeKpis)} className="accent-gold-500" />
+            <span className="text-sm font-bold text-gray-700">Indicadores clave ({kpis.length})</span>
+          </label>
+
+          <div>
+            <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">Gráficos de la pestaña actual</label>
+            {chartElements.length === 0 ? (
+              <p className="text-xs text-gray-400">No hay gráficos visibles. Abra el Dashboard o el constructor de gráficos para incluirlos.</p>
+            ) : (
+              <div className="space-y-2">
+                {chartElements.map((element, index) => (
+                  <label key={index} className={checkboxRow}>
+                    <input type="checkbox" checked={selectedCharts.includes(index)} onChange={() => toggleChart(index)} className="accent-gold-500" />
+                    <span className="text-sm font-bold text-gray-700">{element.dataset.chartTitle}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label className={`${checkboxRow} flex-grow`}>
+              <input type="checkbox" checked={includeTable} onChange={() => setIncludeTable(!includeTable)} className="accent-gold-500" />
+              <span className="text-sm font-bold text-gray-700">Resumen de la tabla filtrada</span>
+            </label>
+            {includeTable && (
+              <select
+                value={sampleSize}
+                onChange={(e) => setSampleSize(Number(e.target.value))}
+                className="bg-gray-50 border border-gray-200 rounded-xl py-3 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300"
+              >
+                {SAMPLE_SIZES.map(size => <option key={size} value={size}>{size === 0 ? 'Solo estadísticas' : `${size} filas`}</option>)}
+              </select>
+            )}
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-gray-100 bg-gray-50/50 flex justify-end gap-3">
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest bg-white border border-gray-200 text-gray-600 hover:bg-gray-50 transition-all"
+          >
+            <Download size={14} />
+            HTML
+          </button>
+          <button
+            onClick={handlePrint}
+            className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md"
+          >
+            <Printer size={14} />
+            Imprimir / PDF
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ReportDialog;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { SessionRecord } from '../types';
+import { History, FolderOpen, Pencil, Trash2, Plus, Check } from 'lucide-react';
+
+interface SessionManagerProps {
+  sessions: SessionRecord[];
+  currentSessionId: string | null;
+  isSaving?: boolean;
+  onLoad: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}
+
+const formatSessionDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SessionManager: React.FC<SessionManagerProps> = ({ sessions, currentSessionId, isSaving, onLoad, onRename, onDelete, onNew }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startEditing = (session: SessionRecord) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: SessionRecord) => {
+    if (window.confirm(`¿Eliminar la sesión "${session.name}" y sus datos guardados?`)) onDelete(session.id);
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl p-8 border border-gray-100">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center gap-3">
+          <History className="text-gold-600" size={18} />
+          <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Sesiones Guardadas</h3>
+          {isSaving && <span className="text-[10px] font-bold text-gold-600 animate-pulse">Guardando...</span>}
+        </div>
+        <button
+          onClick={onNew}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-deepblue-950 text-white hover:bg-gold-600 transition-all"
+        >
+          <Plus size={12} />
+          Nueva Sesión
+        </button>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-xs text-gray-400">Las sesiones se guardan automáticamente en este navegador al importar datos.</p>
+      ) : (
+        <ul className="space-y-3 max-h-80 overflow-y-auto">
+          {sessions.map(session => {
+            const isCurrent = session.id === currentSessionId;
+            return (
+              <li
+                key={session.id}
+                className={`p-4 rounded-2xl border transition-all ${isCurrent ? 'border-gold-400 bg-gold-50/30' : 'border-gray-100 bg-gray-50/50'}`}
+              >
+                <div className="flex items-center gap-3">
+                  {editingId === session.id ? (
+                    <input
+                      autoFocus
+                      type="text"
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => e.key === 'Enter' && commitRename()}
+                      className="flex-grow bg-white border border-gray-200 rounded-lg py-1 px-2 text-sm font-bold outline-none focus:ring-2 focus:ring-gold-300"
+                    />
+                  ) : (
+                    <p className="flex-grow text-sm font-bold text-gray-900 truncate">{session.name}</p>
+                  )}
+                  {isCurrent && (
+                    <span className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-gold-600">
+                      <Check size={12} /> Actual
+                    </span>
+                  )}
+                  {!isCurrent && (
+                    <button onClick={() => onLoad(session.id)} title="Abrir" className="p-1.5 rounded-lg text-gray-400 hover:text-deepblue-900 transition-colors">
+                      <FolderOpen size={14} />
+                    </button>
+                  )}
+                  <button onClick={() => startEditing(session)} title="Renombrar" className="p-1.5 rounded-lg text-gray-400 hover:text-gold-600 transition-colors">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => handleDelete(session)} title="Eliminar" className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 transition-colors">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mt-2 truncate">
+                  {session.datasets.length > 0 ? session.datasets.map(d => d.fileName).join(' · ') : 'Sin datos'}
+                </p>
+                <p className="text-[10px] text-gray-400 mt-1">Actualizada {formatSessionDate(session.updatedAt)}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SessionManager;
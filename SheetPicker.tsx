@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { JoinType, SheetImportMode, SheetSelection, SheetSummary } from '../types';
+import { Layers, Link2, Check, X } from 'lucide-react';
+
+interface SheetPickerProps {
+  fileName: string;
+  sheets: SheetSummary[];
+  onConfirm: (selection: SheetSelection) => void;
+  onCancel: () => void;
+}
+
+interface SheetChoice {
+  alias: string;
+  baseKey: string;
+  sheetKey: string;
+  type: JoinType;
+}
+
+const PREVIEW_ROWS = 3;
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ fileName, sheets, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<SheetImportMode>('join');
+  const [baseSheet, setBaseSheet] = useState(sheets[0]?.name ?? '');
+  const [choices, setChoices] = useState<{ [sheet: string]: SheetChoice }>(() =>
+    sheets.length > 0 ? { [sheets[0].name]: { alias: sheets[0].name, baseKey: '', sheetKey: '', type: 'left' } } : {}
+  );
+
+  const baseHeaders = useMemo(() => sheets.find(s => s.name === baseSheet)?.headers ?? [], [sheets, baseSheet]);
+
+  // Propone como clave la primera columna que comparten ambas hojas
+  const suggestKeys = (sheet: SheetSummary) => {
+    const shared = sheet.headers.find(h => baseHeaders.includes(h));
+    return { baseKey: shared ?? baseHeaders[0] ?? '', sheetKey: shared ?? sheet.headers[0] ?? '' };
+  };
+
+  const toggleSheet = (sheet: SheetSummary) => {
+    const next = { ...choices };
+    if (next[sheet.name]) {
+      delete next[sheet.name];
+      if (sheet.name === baseSheet) setBaseSheet(Object.keys(next)[0] ?? '');
+    } else {
+      next[sheet.name] = { alias: sheet.name, type: 'left', ...suggestKeys(sheet) };
+      if (!choices[baseSheet]) setBaseSheet(sheet.name);
+    }
+    setChoices(next);
+  };
+
+  const updateChoice = (sheet: string, changes: Partial<SheetChoice>) => {
+    setChoices(prev => ({ ...prev, [sheet]: { ...prev[sheet], ...changes } }));
+  };
+
+  // Las claves guardadas pueden quedar obsoletas si cambia la hoja base
+  const resolveKeys = (sheet: SheetSummary, choice: SheetChoice) => {
+    const suggested = suggestKeys(sheet);
+    return {
+      baseKey: baseHeaders.includes(choice.baseKey) ? choice.baseKey : suggested.baseKey,
+      sheetKey: sheet.headers.includes(choice.sheetKey) ? choice.sheetKey : suggested.sheetKey
+    };
+  };
+
+  const handleConfirm = () => {
+    if (!choices[baseSheet]) return;
+    onConfirm({
+      mode,
+      base: { sheet: baseSheet, alias: choices[baseSheet].alias || baseSheet },
+      joins: sheets
+        .filter(sheet => choices[sheet.name] && sheet.name !== baseSheet)
+        .map(sheet => ({
+          sheet: sheet.name,
+          alias: choices[sheet.name].alias || sheet.name,
+          type: choices[sheet.name].type,
+          ...resolveKeys(sheet, choices[sheet.name])
+        }))
+    });
+  };
+
+  const selectClass = "w-full bg-gray-50 border border-gray-200 rounded-xl py-2 px-3 text-xs font-bold outline-none focus:ring-2 focus:ring-gold-300";
+
+  return (
+    <section className="mt-12 bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden animate-fadeIn">
+      <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-col md:flex-row justify-between items-center gap-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gold-50 rounded-2xl">
+            <Layers className="text-gold-600" size={20} />
+          </div>
+          <div>
+            <h3 className="text-xl font-serif font-bold text-gray-900">Selección de Hojas</h3>
+            <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">
+              {fileName} · {sheets.length} hojas disponibles
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <div className="inline-flex bg-gray-100 p-1 rounded-xl border border-gray-200">
+            {[
+              { id: 'join', label: 'Unir por Clave' },
+              { id: 'separate', label: 'Conjuntos Separados' }
+            ].map(option => (
+              <button
+                key={option.id}
+                onClick={() => setMode(option.id as SheetImportMode)}
+                className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                  mode === option.id ? 'bg-white text-deepblue-900 shadow-sm' : 'text-gray-400 hover:text-gray-600'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest bg-white border border-gray-200 text-gray-600 hover:bg-gray-50 transition-all"
+          >
+            <X size={14} />
+            Descartar
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!choices[baseSheet]}
+            className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md disabled:opacity-30"
+          >
+            <Check size={14} />
+            Importar Selección
+          </button>
+        </div>
+      </div>
+
+      <div className="p-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {sheets.map(sheet => {
+          const choice = choices[sheet.name];
+          const isBase = sheet.name === baseSheet;
+          const keys = choice ? resolveKeys(sheet, choice) : null;
+          return (
+            <div
+              key={sheet.name}
+              className={`rounded-3xl border p-6 transition-all ${choice ? 'border-gold-400 bg-gold-50/20 shadow-md' : 'border-gray-100 bg-gray-50/50'}`}
+            >
+              <div className="flex justify-between items-start mb-4">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input type="checkbox" checked={!!choice} onChange={() => toggleSheet(sheet)} className="accent-gold-500" />
+                  <div>
+                    <p className="text-sm font-bold text-gray-900">{sheet.name}</p>
+                    <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                      {sheet.rowCount.toLocaleString()} filas · {sheet.columnCount} columnas
+                    </p>
+                  </div>
+                </label>
+                {choice && mode === 'join' && (
+                  <button
+                    onClick={() => setBaseSheet(sheet.name)}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${isBase ? 'bg-deepblue-950 text-white' : 'bg-white border border-gray-200 text-gray-400 hover:text-gray-600'}`}
+                  >
+                    {isBase ? 'Hoja Base' : 'Usar como Base'}
+                  </button>
+                )}
+              </div>
+
+              {choice && (
+                <div className="space-y-3 mb-4">
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Nombre del Conjunto</label>
+                    <input
+                      type="text"
+                      value={choice.alias}
+                      onChange={(e) => updateChoice(sheet.name, { alias: e.target.value })}
+                      className="w-full bg-white border border-gray-200 rounded-xl py-2 px-3 text-xs font-medium outline-none focus:ring-2 focus:ring-gold-300"
+                    />
+                  </div>
+                  {!isBase && mode === 'join' && (
+                    <div className="grid grid-cols-3 gap-2 items-end">
+                      <div>
+                        <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Clave Base</label>
+                        <select value={keys?.baseKey} onChange={(e) => updateChoice(sheet.name, { baseKey: e.target.value })} className={selectClass}>
+                          {baseHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="flex items-center gap-1 text-[10px] font-bold text-gray-400 uppercase mb-1">
+                          <Link2 size={10} /> Clave Hoja
+                        </label>
+                        <select value={keys?.sheetKey} onChange={(e) => updateChoice(sheet.name, { sheetKey: e.target.value })} className={selectClass}>
+                          {sheet.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Unión</label>
+                        <select value={choice.type} onChange={(e) => updateChoice(sheet.name, { type: e.target.value as JoinType })} className={selectClass}>
+                          <option value="left">Conservar base</option>
+                          <option value="inner">Solo coincidencias</option>
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="overflow-x-auto rounded-xl border border-gray-100 bg-white">
+                <table className="w-full text-left text-[10px]">
+                  <thead>
+                    <tr className="border-b border-gray-100">
+                      {sheet.headers.map(h => (
+                        <th key={h} className="px-3 py-2 font-black text-gray-400 uppercase tracking-widest whitespace-nowrap">{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                    {sheet.preview.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                      <tr key={idx}>
+                        {sheet.headers.map((h, col) => (
+                          <td key={h} className="px-3 py-2 text-gray-600 whitespace-nowrap truncate max-w-[120px]">{String(row[col] ?? '')}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default SheetPicker;
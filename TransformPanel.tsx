@@ -0,0 +1,459 @@
+import React, { useMemo, useState } from 'react';
+import { Dataset, FillStrategy, SavedRecipe, TextCase, TransformStep, TransformStepType } from '../types';
+import {
+  RecipeResult, TRANSFORM_STEP_LABELS, createStepId, describeStep, mappingFromGroups, sameShape, suggestValueGroups
+} from '../utils/transforms';
+import FormulaEditor from './FormulaEditor';
+import { Wand2, Plus, Undo2, Save, Lock, Play, Trash2, AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface TransformPanelProps {
+  dataset: Dataset;
+  recipes: SavedRecipe[];
+  // Pasos del final de la receta que aún se pueden deshacer
+  undoable: number;
+  notice?: string | null;
+  onApply: (steps: TransformStep[]) => RecipeResult | null;
+  onUndo: () => void;
+  onSaveRecipe: (name: string) => Promise<unknown>;
+  onDeleteRecipe: (id: string) => void;
+}
+
+// Los pasos de depuración (duplicados, atípicos...) se añaden desde el panel de calidad
+const BUILDER_STEPS: TransformStepType[] = ['calculate', 'rename', 'trim', 'case', 'replace', 'split', 'merge', 'fill', 'mapValues'];
+
+const CASE_OPTIONS: { id: TextCase; label: string }[] = [
+  { id: 'lower', label: 'minúsculas' },
+  { id: 'upper', label: 'MAYÚSCULAS' },
+  { id: 'title', label: 'Tipo Título' }
+];
+
+const FILL_OPTIONS: { id: FillStrategy; label: string; numeric?: boolean }[] = [
+  { id: 'value', label: 'Valor fijo' },
+  { id: 'previous', label: 'Valor anterior' },
+  { id: 'mode', label: 'Más frecuente' },
+  { id: 'mean', label: 'Media', numeric: true },
+  { id: 'median', label: 'Mediana', numeric: true }
+];
+
+const splitNames = (text: string) => text.split(',').map(name => name.trim()).filter(name => name !== '');
+
+const TransformPanel: React.FC<TransformPanelProps> = ({
+  dataset, recipes, undoable, notice, onApply, onUndo, onSaveRecipe, onDeleteRecipe
+}) => {
+  const { columns } = dataset;
+  const recipe = dataset.recipe ?? [];
+  const [stepType, setStepType] = useState<TransformStepType>('trim');
+  const [column, setColumn] = useState(columns[0]?.name ?? '');
+  const [renameTo, setRenameTo] = useState('');
+  const [caseMode, setCaseMode] = useState<TextCase>('title');
+  const [find, setFind] = useState('');
+  const [replaceWith, setReplaceWith] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [wholeCell, setWholeCell] = useState(false);
+  const [delimiter, setDelimiter] = useState(',');
+  const [intoText, setIntoText] = useState('');
+  const [keepOriginal, setKeepOriginal] = useState(true);
+  const [mergeColumns, setMergeColumns] = useState<string[]>([]);
+  const [separator, setSeparator] = useState(' ');
+  const [mergeInto, setMergeInto] = useState('');
+  const [strategy, setStrategy] = useState<FillStrategy>('value');
+  const [fillWith, setFillWith] = useState('');
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [recipeName, setRecipeName] = useState('');
+
+  // Si la columna elegida desaparece (renombrada o eliminada) se vuelve a la primera
+  const selectedColumn = columns.find(c => c.name === column) ?? columns[0];
+  const columnName = selectedColumn?.name ?? '';
+  const isNumeric = selectedColumn?.type === 'number';
+
+  const valueGroups = useMemo(
+    () => stepType === 'mapValues' && columnName ? suggestValueGroups(dataset.data, columnName) : [],
+    [stepType, dataset.data, columnName]
+  );
+  const baked = recipe.length - undoable;
+  const shape = dataset.sourceColumns ?? columns;
+
+  const changeColumn = (name: string) => {
+    setColumn(name);
+    setTargets({});
+    setSkipped([]);
+  };
+
+  const buildStep = (): TransformStep | null => {
+    const id = createStepId();
+    switch (stepType) {
+      case 'rename': return { id, type: 'rename', column: columnName, to: renameTo.trim() };
+      case 'trim': return { id, type: 'trim', column: columnName };
+      case 'case': return { id, type: 'case', column: columnName, mode: caseMode };
+      case 'replace': return { id, type: 'replace', column: columnName, find, replace: replaceWith, matchCase, wholeCell };
+      case 'split': return { id, type: 'split', column: columnName, delimiter, into: splitNames(intoText), keepOriginal };
+      case 'merge': return { id, type: 'merge', columns: mergeColumns, separator, into: mergeInto.trim(), keepOriginal };
+      case 'fill': return { id, type: 'fill', column: columnName, strategy, value: fillWith };
+      case 'mapValues': {
+        const groups = valueGroups
+          .filter(group => !skipped.includes(group.target))
+          .map(group => ({ ...group, target: targets[group.target] ?? group.target }));
+        const mapping = mappingFromGroups(groups);
+        return Object.keys(mapping).length > 0 ? { id, type: 'mapValues', column: columnName, mapping } : null;
+      }
+      default: return null;
+    }
+  };
+
+  const handleAdd = () => {
+    const step = buildStep();
+    if (!step) {
+      setError('No hay valores que unificar en esta columna');
+      return;
+    }
+    const result = onApply([step]);
+    setError(result?.errors[0]?.message ?? null);
+    if (result && result.errors.length === 0) {
+      setTargets({});
+      setSkipped([]);
+    }
+  };
+
+  const handleCalculate = (name: string, formula: string) => {
+    const result = onApply([{ id: createStepId(), type: 'calculate', name, formula }]);
+    return result?.errors[0]?.message ?? null;
+  };
+
+  const handleSave = async () => {
+    const name = recipeName.trim();
+    if (!name || recipe.length === 0) return;
+    if (recipes.some(r => r.name === name) && !window.confirm(`¿Sobrescribir la receta "${name}"?`)) return;
+    await onSaveRecipe(name);
+    setRecipeName('');
+  };
+
+  const handleApplyRecipe = (saved: SavedRecipe) => {
+    const result = onApply(saved.steps.map(step => ({ ...step, id: createStepId() })));
+    setError(result && result.errors.length > 0
+      ? `${result.errors.length} ${result.errors.length === 1 ? 'paso omitido' : 'pasos omitidos'}: ${result.errors[0].message}`
+      : null);
+  };
+
+  const label = "block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2";
+  const input = "w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-gold-500/20";
+  const checkbox = "flex items-center gap-2 cursor-pointer text-[10px] font-bold text-gray-500 uppercase";
+
+  const columnSelect = (
+    <div>
+      <label className={label}>Columna</label>
+      <select value={columnName} onChange={e => changeColumn(e.target.value)} className={input}>
+        {columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <section className="mt-12 bg-white rounded-[40px] shadow-xl border border-gray-100 overflow-hidden animate-fadeIn">
+      <div className="p-8 border-b border-gray-100 bg-gray-50/30 flex flex-col md:flex-row justify-between items-center gap-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-gold-50 rounded-2xl">
+            <Wand2 className="text-gold-600" size={20} />
+          </div>
+          <div>
+            <h3 className="text-xl font-serif font-bold text-gray-900">Transformaciones</h3>
+            <p className="text-xs text-gray-400 mt-1 uppercase font-black tracking-widest">
+              {dataset.name} · {recipe.length} {recipe.length === 1 ? 'paso' : 'pasos'} en la receta
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onUndo}
+          disabled={undoable === 0}
+          className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest bg-white border border-gray-200 text-gray-600 hover:bg-gray-50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Undo2 size={14} />
+          Deshacer
+        </button>
+      </div>
+
+      {notice && (
+        <div className="mx-8 mt-6 flex items-center gap-3 p-4 bg-green-50 border border-green-100 rounded-2xl text-xs text-green-700 font-bold">
+          <CheckCircle size={16} className="shrink-0" />
+          {notice}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 p-8">
+        {/* Constructor de pasos */}
+        <div className="space-y-5">
+          <div>
+            <label className={label}>Nuevo Paso</label>
+            <select value={stepType} onChange={e => { setStepType(e.target.value as TransformStepType); setError(null); }} className={input}>
+              {BUILDER_STEPS.map(type => <option key={type} value={type}>{TRANSFORM_STEP_LABELS[type]}</option>)}
+            </select>
+          </div>
+
+          {stepType === 'calculate' && <FormulaEditor data={dataset.data} columns={columns} onAdd={handleCalculate} />}
+
+          {stepType !== 'merge' && stepType !== 'calculate' && columnSelect}
+
+          {stepType === 'rename' && (
+            <div>
+              <label className={label}>Nuevo Nombre</label>
+              <input value={renameTo} onChange={e => setRenameTo(e.target.value)} className={input} />
+            </div>
+          )}
+
+          {stepType === 'case' && (
+            <div>
+              <label className={label}>Formato</label>
+              <select value={caseMode} onChange={e => setCaseMode(e.target.value as TextCase)} className={input}>
+                {CASE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </div>
+          )}
+
+          {stepType === 'replace' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={label}>Buscar</label>
+                  <input value={find} onChange={e => setFind(e.target.value)} className={input} />
+                </div>
+                <div>
+                  <label className={label}>Reemplazar por</label>
+                  <input value={replaceWith} onChange={e => setReplaceWith(e.target.value)} className={input} />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-6">
+                <label className={checkbox}>
+                  <input type="checkbox" checked={matchCase} onChange={() => setMatchCase(!matchCase)} className="accent-gold-500" />
+                  Distinguir mayúsculas
+                </label>
+                <label className={checkbox}>
+                  <input type="checkbox" checked={wholeCell} onChange={() => setWholeCell(!wholeCell)} className="accent-gold-500" />
+                  Celda completa
+                </label>
+              </div>
+            </>
+          )}
+
+          {stepType === 'split' && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className={label}>Separador</label>
+                <input value={delimiter} onChange={e => setDelimiter(e.target.value)} className={input} />
+              </div>
+              <div className="col-span-2">
+                <label className={label}>Nuevas Columnas</label>
+                <input
+                  value={intoText}
+                  onChange={e => setIntoText(e.target.value)}
+                  placeholder={`${columnName} 1, ${columnName} 2`}
+                  className={input}
+                />
+              </div>
+            </div>
+          )}
+
+          {stepType === 'merge' && (
+            <>
+              <div>
+                <label className={label}>Columnas a Unir (en orden)</label>
+                <div className="flex flex-wrap gap-2">
+                  {columns.map(c => {
+                    const position = mergeColumns.indexOf(c.name);
+                    return (
+                      <button
+                        key={c.name}
+                        onClick={() => setMergeColumns(position >= 0 ? mergeColumns.filter(name => name !== c.name) : [...mergeColumns, c.name])}
+                        className={`px-3 py-1.5 rounded-xl text-xs font-bold border transition-all ${
+                          position >= 0 ? 'bg-deepblue-950 text-white border-deepblue-950' : 'bg-white text-gray-500 border-gray-200 hover:border-gold-400'
+                        }`}
+                      >
+                        {position >= 0 && <span className="mr-1.5 text-gold-400">{position + 1}</span>}
+                        {c.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className={label}>Separador</label>
+                  <input value={separator} onChange={e => setSeparator(e.target.value)} className={input} />
+                </div>
+                <div className="col-span-2">
+                  <label className={label}>Nueva Columna</label>
+                  <input value={mergeInto} onChange={e => setMergeInto(e.target.value)} className={input} />
+                </div>
+              </div>
+            </>
+          )}
+
+          {(stepType === 'split' || stepType === 'merge') && (
+            <label className={checkbox}>
+              <input type="checkbox" checked={keepOriginal} onChange={() => setKeepOriginal(!keepOriginal)} className="accent-gold-500" />
+              Conservar {stepType === 'split' ? 'la columna original' : 'las columnas originales'}
+            </label>
+          )}
+
+          {stepType === 'fill' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={label}>Rellenar con</label>
+                <select value={strategy} onChange={e => setStrategy(e.target.value as FillStrategy)} className={input}>
+                  {FILL_OPTIONS.filter(option => !option.numeric || isNumeric).map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              {strategy === 'value' && (
+                <div>
+                  <label className={label}>Valor</label>
+                  <input value={fillWith} onChange={e => setFillWith(e.target.value)} className={input} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {stepType === 'mapValues' && (
+            <div>
+              <label className={label}>Variantes Detectadas</label>
+              {valueGroups.length === 0 ? (
+                <p className="text-xs text-gray-400 italic">No hay valores que solo difieran en mayúsculas, tildes o espacios.</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+                  {valueGroups.map(group => {
+                    const included = !skipped.includes(group.target);
+                    return (
+                      <div key={group.target} className={`p-3 rounded-2xl border ${included ? 'border-gold-200 bg-gold-50/30' : 'border-gray-100 opacity-60'}`}>
+                        <div className="flex items-center justify-between gap-3">
+                          <label className={checkbox}>
+                            <input
+                              type="checkbox"
+                              checked={included}
+                              onChange={() => setSkipped(included ? [...skipped, group.target] : skipped.filter(t => t !== group.target))}
+                              className="accent-gold-500"
+                            />
+                            Unificar como
+                          </label>
+                          <select
+                            value={targets[group.target] ?? group.target}
+                            onChange={e => setTargets({ ...targets, [group.target]: e.target.value })}
+                            className="bg-white border border-gray-100 rounded-lg px-2 py-1 text-xs font-bold text-gray-700"
+                          >
+                            {group.variants.map(variant => <option key={variant.value} value={variant.value}>{variant.value}</option>)}
+                          </select>
+                        </div>
+                        <p className="mt-2 text-[11px] text-gray-500">
+                          {group.variants.map(variant => `"${variant.value}" (${variant.count})`).join(' · ')}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <p className="flex items-start gap-2 text-xs text-red-600 font-bold">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              {error}
+            </p>
+          )}
+
+          {stepType !== 'calculate' && (
+            <button
+              onClick={handleAdd}
+              disabled={columns.length === 0}
+              className="flex items-center gap-2 px-5 py-2.5 bg-deepblue-950 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gold-600 transition-all shadow-md disabled:opacity-40"
+            >
+              <Plus size={14} />
+              Añadir Paso
+            </button>
+          )}
+        </div>
+
+        {/* Receta actual y recetas guardadas */}
+        <div className="space-y-8">
+          <div>
+            <label className={label}>Receta</label>
+            {recipe.length === 0 ? (
+              <p className="text-xs text-gray-400 italic">Todavía no se ha aplicado ningún paso.</p>
+            ) : (
+              <ol className="space-y-2">
+                {recipe.map((step, index) => (
+                  <li key={step.id} className="flex items-start gap-3 text-xs text-gray-700">
+                    <span className="w-6 h-6 shrink-0 rounded-lg bg-gray-50 border border-gray-100 flex items-center justify-center text-[10px] font-black text-gray-400">
+                      {index + 1}
+                    </span>
+                    <span className="pt-1 flex-1">{describeStep(step)}</span>
+                    {index < baked && (
+                      <span title="Aplicado en una sesión anterior: no se puede deshacer" className="pt-1 text-gray-300">
+                        <Lock size={12} />
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+            <div className="mt-4 flex gap-3">
+              <input
+                value={recipeName}
+                onChange={e => setRecipeName(e.target.value)}
+                placeholder="Nombre de la receta"
+                className={input}
+              />
+              <button
+                onClick={handleSave}
+                disabled={recipe.length === 0 || !recipeName.trim()}
+                className="flex items-center gap-2 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest bg-white border border-gray-200 text-gray-600 hover:border-gold-400 hover:text-gold-700 transition-all whitespace-nowrap disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Save size={14} />
+                Guardar Receta
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={label}>Recetas Guardadas</label>
+            {recipes.length === 0 ? (
+              <p className="text-xs text-gray-400 italic">Las recetas guardadas se aplican solas al importar un archivo con las mismas columnas.</p>
+            ) : (
+              <ul className="divide-y divide-gray-50 border border-gray-100 rounded-2xl">
+                {recipes.map(saved => (
+                  <li key={saved.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                    <div>
+                      <p className="text-sm font-bold text-gray-900">{saved.name}</p>
+                      <p className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">
+                        {saved.steps.length} {saved.steps.length === 1 ? 'paso' : 'pasos'} · {new Date(saved.updatedAt).toLocaleDateString('es-ES')}
+                        {sameShape(saved.columns, shape) && <span className="ml-2 text-green-600">Mismas columnas</span>}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleApplyRecipe(saved)}
+                        title="Aplicar receta"
+                        className="p-1.5 rounded-lg text-gray-400 hover:text-gold-700 hover:bg-gold-50 transition-all"
+                      >
+                        <Play size={14} />
+                      </button>
+                      <button
+                        onClick={() => window.confirm(`¿Eliminar la receta "${saved.name}"?`) && onDeleteRecipe(saved.id)}
+                        title="Eliminar receta"
+                        className="p-1.5 rounded-lg text-gray-300 hover:text-red-600 hover:bg-red-50 transition-all"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default TransformPanel;
@@ -0,0 +1,226 @@
+import { ChartAggregation, ChartSortOrder, DataRow } from '../types';
+import { isBlank, maximum, mean, median, minimum, sum } from './statistics';
+
+export const CHART_AGGREGATIONS: { id: ChartAggregation; label: string; numeric: boolean }[] = [
+  { id: 'mean', label: 'Promedio', numeric: true },
+  { id: 'sum', label: 'Suma', numeric: true },
+  { id: 'median', label: 'Mediana', numeric: true },
+  { id: 'count', label: 'Recuento', numeric: false },
+  { id: 'min', label: 'Mínimo', numeric: true },
+  { id: 'max', label: 'Máximo', numeric: true },
+  { id: 'distinct', label: 'Valores Únicos', numeric: false }
+];
+
+export const CHART_SORT_ORDERS: { id: ChartSortOrder; label: string }[] = [
+  { id: 'value-desc', label: 'Valor (mayor a menor)' },
+  { id: 'value-asc', label: 'Valor (menor a mayor)' },
+  { id: 'label', label: 'Etiqueta (A-Z)' },
+  { id: 'original', label: 'Orden original' }
+];
+
+export const OTHER_LABEL = 'Otros';
+
+export const aggregationLabel = (aggregation: ChartAggregation) =>
+  CHART_AGGREGATIONS.find(a => a.id === aggregation)?.label ?? aggregation;
+
+export const isNumericAggregation = (aggregation: ChartAggregation) =>
+  CHART_AGGREGATIONS.find(a => a.id === aggregation)?.numeric ?? true;
+
+// Recibe todas las celdas del grupo: el recuento cuenta filas y el resto ignora vacíos
+export const aggregateValues = (cells: (string | number)[], aggregation: ChartAggregation): number => {
+  if (aggregation === 'count') return cells.length;
+  if (aggregation === 'distinct') return new Set(cells.filter(c => !isBlank(c))).size;
+  const numbers = cells.filter((c): c is number => typeof c === 'number' && isFinite(c));
+  switch (aggregation) {
+    case 'sum': return sum(numbers);
+    case 'median': return median(numbers);
+    case 'min': return minimum(numbers);
+    case 'max': return maximum(numbers);
+    default: return mean(numbers);
+  }
+};
+
+export interface GroupingOptions {
+  groupBy: string;
+  measure: string;
+  aggregation: ChartAggregation;
+  sortOrder: ChartSortOrder;
+  topN: number;
+  otherBucket: boolean;
+}
+
+export interface AggregatedPoint {
+  name: string;
+  value: number;
+  comparison?: number;
+}
+
+const groupKey = (value: string | number | undefined) => isBlank(value) ? 'N/A' : String(value);
+
+// Agrupa conservando el orden de primera aparición
+const collectGroups = (rows: DataRow[], groupBy: string, measure: string) => {
+  const groups = new Map<string, (string | number)[]>();
+  rows.forEach(row => {
+    const key = groupKey(row[groupBy]);
+    const cells = groups.get(key);
+    if (cells) cells.push(row[measure]);
+    else groups.set(key, [row[measure]]);
+  });
+  return groups;
+};
+
+const finiteOrUndefined = (value: number) => isFinite(value) ? value : undefined;
+
+const labelCollator = new Intl.Collator('es', { sensitivity: 'base', numeric: true });
+
+// Ordena los grupos y separa los que quedan fuera del top N
+const rankGroups = (groups: Map<string, (string | number)[]>, { aggregation, sortOrder, topN }: GroupingOptions) => {
+  let points = Array.from(groups.entries())
+    .map(([name, cells]) => ({ name, value: aggregateValues(cells, aggregation) }))
+    .filter(point => isFinite(point.value));
+
+  if (sortOrder === 'label') {
+    points.sort((a, b) => labelCollator.compare(a.name, b.name));
+  } else if (sortOrder !== 'original') {
+    const direction = sortOrder === 'value-asc' ? 1 : -1;
+    points.sort((a, b) => (a.value - b.value) * direction);
+  }
+
+  let rest: string[] = [];
+  // El top N siempre se elige por valor, aunque luego se muestre en otro orden
+  if (topN > 0 && points.length > topN) {
+    const ranked = [...points].sort((a, b) => b.value - a.value);
+    const kept = new Set(ranked.slice(0, topN).map(p => p.name));
+    rest = points.filter(p => !kept.has(p.name)).map(p => p.name);
+    points = points.filter(p => kept.has(p.name));
+  }
+  return { points, rest };
+};
+
+/**
+ * Agrupa y agrega sobre todas las filas. Los grupos que quedan fuera del top N se
+ * agregan juntos en "Otros" a partir de sus valores originales, no de sus resultados,
+ * para que un promedio de "Otros" sea el promedio real de esas filas.
+ */
+export const aggregateByGroup = (rows: DataRow[], options: GroupingOptions, comparisonRows?: DataRow[]): AggregatedPoint[] => {
+  const { groupBy, measure, aggregation, otherBucket } = options;
+  const groups = collectGroups(rows, groupBy, measure);
+  const compared = comparisonRows ? collectGroups(comparisonRows, groupBy, measure) : null;
+  const { points, rest } = rankGroups(groups, options);
+
+  const result: AggregatedPoint[] = points.map(point => {
+    const cells = compared?.get(point.name);
+    return { ...point, comparison: cells ? finiteOrUndefined(aggregateValues(cells, aggregation)) : undefined };
+  });
+
+  if (otherBucket && rest.length > 0) {
+    const restCells = (source: Map<string, (string | number)[]>) => rest.flatMap(name => source.get(name) ?? []);
+    const comparedRest = compared ? restCells(compared) : [];
+    result.push({
+      name: OTHER_LABEL,
+      value: aggregateValues(restCells(groups), aggregation),
+      comparison: comparedRest.length > 0 ? finiteOrUndefined(aggregateValues(comparedRest, aggregation)) : undefined
+    });
+  }
+
+  return result;
+};
+
+export const MAX_SERIES_VALUES = 8;
+
+export interface SeriesDefinition {
+  key: string;
+  label: string;
+  measure: string;
+  axis: 'left' | 'right';
+  seriesValue?: string;
+  fromComparison?: boolean;
+}
+
+export interface SeriesOptions {
+  measures: string[];
+  seriesBy: string;
+  rightAxis: string[];
+}
+
+// Valores más frecuentes de la columna de serie; el resto se agrupa en "Otros"
+const topSeriesValues = (rows: DataRow[], column: string) => {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const key = groupKey(row[column]);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([value]) => value);
+  return {
+    values: ranked.slice(0, MAX_SERIES_VALUES),
+    hasOther: ranked.length > MAX_SERIES_VALUES
+  };
+};
+
+/**
+ * Una serie por métrica y, si hay dimensión de serie, por cada valor de esa columna.
+ * Las claves son genéricas (s0, s1...) porque Recharts interpreta los puntos de un
+ * nombre de columna como rutas de acceso.
+ */
+export const defineSeries = (rows: DataRow[], { measures, seriesBy, rightAxis }: SeriesOptions, comparisonName?: string) => {
+  const split = seriesBy ? topSeriesValues(rows, seriesBy) : null;
+  const splitValues = split ? [...split.values, ...(split.hasOther ? [OTHER_LABEL] : [])] : [undefined];
+  const kept = new Set(split?.values ?? []);
+  const series: SeriesDefinition[] = [];
+
+  measures.forEach(measure => {
+    const axis = rightAxis.includes(measure) ? 'right' : 'left';
+    splitValues.forEach(seriesValue => {
+      const label = seriesValue === undefined ? measure : measures.length > 1 ? `${measure} · ${seriesValue}` : seriesValue;
+      series.push({ key: `s${series.length}`, label, measure, axis, seriesValue });
+    });
+    // Con dimensión de serie la comparación multiplicaría las series; solo se añade sin ella
+    if (!split && comparisonName) {
+      series.push({ key: `s${series.length}`, label: `${measure} (${comparisonName})`, measure, axis, fromComparison: true });
+    }
+  });
+
+  const matches = (row: DataRow, definition: SeriesDefinition) => {
+    if (definition.seriesValue === undefined) return true;
+    const value = groupKey(row[seriesBy]);
+    return definition.seriesValue === OTHER_LABEL ? !kept.has(value) : value === definition.seriesValue;
+  };
+
+  return { series, matches };
+};
+
+export type SeriesDatum = { name: string } & { [key: string]: string | number | undefined };
+
+export const aggregateMultiSeries = (
+  rows: DataRow[],
+  options: GroupingOptions & SeriesOptions,
+  comparison?: { name: string; data: DataRow[] } | null
+): { data: SeriesDatum[]; series: SeriesDefinition[] } => {
+  const { groupBy, aggregation, otherBucket } = options;
+  // El orden y el top N de las categorías los decide la primera métrica sobre todas las filas
+  const { points, rest } = rankGroups(collectGroups(rows, groupBy, options.measures[0]), { ...options, measure: options.measures[0] });
+  const restSet = new Set(rest);
+  const bucketOf = (name: string) => restSet.has(name) ? (otherBucket ? OTHER_LABEL : null) : name;
+  const names = [...points.map(p => p.name), ...(otherBucket && rest.length > 0 ? [OTHER_LABEL] : [])];
+  const { series, matches } = defineSeries(rows, options, comparison?.name);
+
+  const data: SeriesDatum[] = names.map(name => ({ name }));
+  const index = new Map(names.map((name, i) => [name, i]));
+
+  series.forEach(definition => {
+    const buckets = new Map<string, (string | number)[]>();
+    (definition.fromComparison ? comparison!.data : rows).forEach(row => {
+      if (!matches(row, definition)) return;
+      const bucket = bucketOf(groupKey(row[groupBy]));
+      if (bucket === null || !index.has(bucket)) return;
+      const cells = buckets.get(bucket);
+      if (cells) cells.push(row[definition.measure]);
+      else buckets.set(bucket, [row[definition.measure]]);
+    });
+    buckets.forEach((cells, bucket) => {
+      data[index.get(bucket)!][definition.key] = finiteOrUndefined(aggregateValues(cells, aggregation));
+    });
+  });
+
+  return { data, series };
+};
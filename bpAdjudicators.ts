@@ -0,0 +1,221 @@
+import { BpColumnMapping, ColumnMetadata, DataRow } from '../types';
+import { parseRank, pointsForRank, textOf } from './bpResults';
+import { boxSummary, isBlank, mean, median, standardDeviation } from './statistics';
+
+export type AdjudicatorFlag = 'generous' | 'harsh' | 'erratic' | 'discordant';
+
+export const ADJUDICATOR_FLAG_LABELS: Record<AdjudicatorFlag, string> = {
+  generous: 'Generoso',
+  harsh: 'Severo',
+  erratic: 'Disperso',
+  discordant: 'Discrepa del panel'
+};
+
+export interface BpAdjudicatorStats {
+  adjudicator: string;
+  rooms: number;
+  scores: number;
+  mean: number;
+  tournamentDeviation: number;
+  // Diferencia media con lo que esos mismos oradores reciben de otros jueces
+  speakerDeviation: number;
+  // Diferencia media con el resto del panel en sus salas o, si juzgó solo, con la media de la ronda
+  roomDeviation: number;
+  spread: number;
+  // Proporción de pares de equipos que el juez ordena igual que el resto del panel (o que el puesto oficial)
+  agreement: number;
+  flags: AdjudicatorFlag[];
+}
+
+export interface BpAdjudicatorAnalysis {
+  adjudicators: BpAdjudicatorStats[];
+  tournamentMean: number;
+}
+
+// Por debajo de este número de puntuaciones un juez no se marca como atípico
+export const MIN_ADJUDICATOR_SCORES = 4;
+
+// Un panel puede venir en una sola celda: "Ana, Luis; Marta"
+const splitPanel = (value: string | number) => String(value).split(/[,;|]/).map(name => name.trim()).filter(Boolean);
+
+interface ScoreEntry {
+  score: number;
+  round: string;
+  room: string;
+  speaker: string;
+  team: string;
+  rank: number | null;
+  panel: string[];
+}
+
+// Se comparan puntuaciones redondeadas para que los decimales de coma flotante no generen atípicos
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+const teamTotals = (entries: ScoreEntry[]) => {
+  const totals = new Map<string, number>();
+  entries.forEach(entry => {
+    if (entry.team) totals.set(entry.team, (totals.get(entry.team) ?? 0) + entry.score);
+  });
+  return totals;
+};
+
+// El puesto oficial de la sala es la decisión del panel: 3/2/1/0 puntos ordenan los equipos igual que sus speaks
+const officialOrder = (entries: ScoreEntry[]) => {
+  const points = new Map<string, number>();
+  entries.forEach(entry => {
+    if (entry.team && entry.rank !== null) points.set(entry.team, pointsForRank(entry.rank));
+  });
+  return points;
+};
+
+const pushTo = <T>(groups: Map<string, T[]>, key: string, value: T) => {
+  const group = groups.get(key);
+  if (group) group.push(value);
+  else groups.set(key, [value]);
+};
+
+// Pares de equipos que ambas puntuaciones ordenan igual; un empate en cualquiera de los lados cuenta la mitad
+const pairAgreement = (own: Map<string, number>, reference: Map<string, number>) => {
+  const teams = Array.from(own.keys()).filter(team => reference.has(team));
+  let agreed = 0;
+  let pairs = 0;
+  for (let i = 0; i < teams.length; i++) {
+    for (let j = i + 1; j < teams.length; j++) {
+      const ownOrder = Math.sign(roundScore(own.get(teams[i])! - own.get(teams[j])!));
+      const referenceOrder = Math.sign(roundScore(reference.get(teams[i])! - reference.get(teams[j])!));
+      pairs++;
+      agreed += ownOrder === 0 || referenceOrder === 0 ? 0.5 : ownOrder === referenceOrder ? 1 : 0;
+    }
+  }
+  return { agreed, pairs };
+};
+
+/**
+ * Cada puntuación se compara con la media de ese orador (o equipo, si no hay columna de orador) en las filas
+ * que puntuaron otros jueces; si no las hay, con la media del torneo. El acuerdo se mide frente a las
+ * puntuaciones del resto del panel en la misma sala y, cuando el juez es el único que puntúa (o el panel
+ * viene en una sola celda), frente al puesto oficial de la sala.
+ */
+export const analyzeAdjudicators = (rows: DataRow[], mapping: BpColumnMapping): BpAdjudicatorAnalysis => {
+  if (!mapping.adjudicator || !mapping.speakerScore) return { adjudicators: [], tournamentMean: NaN };
+  const entries: ScoreEntry[] = [];
+
+  rows.forEach(row => {
+    const score = row[mapping.speakerScore];
+    const panel = row[mapping.adjudicator];
+    if (typeof score !== 'number' || !isFinite(score) || isBlank(panel)) return;
+    const round = textOf(row, mapping.round);
+    entries.push({
+      score,
+      round,
+      room: `${round}\u0001${textOf(row, mapping.room)}`,
+      speaker: textOf(row, mapping.speaker) || textOf(row, mapping.team),
+      team: textOf(row, mapping.team),
+      rank: mapping.rank ? parseRank(row[mapping.rank]) : null,
+      panel: splitPanel(panel as string | number)
+    });
+  });
+
+  const tournamentMean = mean(entries.map(e => e.score));
+  const bySpeaker = new Map<string, ScoreEntry[]>();
+  const byRoom = new Map<string, ScoreEntry[]>();
+  const byRound = new Map<string, number[]>();
+  const byAdjudicator = new Map<string, ScoreEntry[]>();
+  entries.forEach(entry => {
+    if (entry.speaker) pushTo(bySpeaker, entry.speaker, entry);
+    pushTo(byRoom, entry.room, entry);
+    pushTo(byRound, entry.round, entry.score);
+    entry.panel.forEach(name => pushTo(byAdjudicator, name, entry));
+  });
+
+  const referenceScore = (entry: ScoreEntry, adjudicator: string) => {
+    const others = (bySpeaker.get(entry.speaker) ?? []).filter(e => !e.panel.includes(adjudicator)).map(e => e.score);
+    return others.length > 0 ? mean(others) : tournamentMean;
+  };
+
+  const adjudicators: BpAdjudicatorStats[] = Array.from(byAdjudicator.entries()).map(([adjudicator, judged]) => {
+    const scores = judged.map(e => e.score);
+    const rooms = new Set(judged.map(e => e.room));
+    let agreed = 0;
+    let pairs = 0;
+    const roomDeviations: number[] = [];
+    rooms.forEach(room => {
+      const roomEntries = byRoom.get(room) ?? [];
+      const own = roomEntries.filter(e => e.panel.includes(adjudicator));
+      const others = roomEntries.filter(e => !e.panel.includes(adjudicator));
+      const reference = others.length > 0 ? teamTotals(others) : officialOrder(own);
+      const result = pairAgreement(teamTotals(own), reference);
+      agreed += result.agreed;
+      pairs += result.pairs;
+      const baseline = others.length > 0 ? mean(others.map(e => e.score)) : mean(byRound.get(own[0].round) ?? []);
+      roomDeviations.push(mean(own.map(e => e.score)) - baseline);
+    });
+    const average = mean(scores);
+    return {
+      adjudicator,
+      rooms: rooms.size,
+      scores: scores.length,
+      mean: average,
+      tournamentDeviation: average - tournamentMean,
+      speakerDeviation: mean(judged.map(e => e.score - referenceScore(e, adjudicator))),
+      roomDeviation: mean(roomDeviations),
+      spread: standardDeviation(scores),
+      agreement: pairs > 0 ? agreed / pairs : NaN,
+      flags: []
+    };
+  });
+
+  // Atípicos según las vallas de Tukey, igual que en el panel de calidad de datos
+  const eligible = adjudicators.filter(a => a.scores >= MIN_ADJUDICATOR_SCORES);
+  const outlierTest = (value: (a: BpAdjudicatorStats) => number) => {
+    const values = eligible.map(a => roundScore(value(a))).filter(v => isFinite(v));
+    const outliers = new Set(boxSummary(values)?.outliers ?? []);
+    const middle = median(values);
+    return (a: BpAdjudicatorStats) => {
+      const v = roundScore(value(a));
+      return outliers.has(v) ? Math.sign(v - middle) : 0;
+    };
+  };
+  const deviation = outlierTest(a => a.speakerDeviation);
+  const spread = outlierTest(a => a.spread);
+  const agreement = outlierTest(a => a.agreement);
+  eligible.forEach(a => {
+    const side = deviation(a);
+    if (side > 0) a.flags.push('generous');
+    if (side < 0) a.flags.push('harsh');
+    if (spread(a) > 0) a.flags.push('erratic');
+    if (agreement(a) < 0) a.flags.push('discordant');
+  });
+
+  adjudicators.sort((a, b) => b.flags.length - a.flags.length || Math.abs(b.speakerDeviation) - Math.abs(a.speakerDeviation));
+  return { adjudicators, tournamentMean };
+};
+
+const rounded = (value: number, decimals = 2) => isFinite(value) ? Math.round(value * 10 ** decimals) / 10 ** decimals : '';
+
+export const adjudicatorTable = (adjudicators: BpAdjudicatorStats[]): { data: DataRow[]; columns: ColumnMetadata[] } => ({
+  columns: [
+    { name: 'Juez', type: 'string' },
+    { name: 'Salas', type: 'number' },
+    { name: 'Puntuaciones', type: 'number' },
+    { name: 'Media', type: 'number' },
+    { name: 'Desv. Torneo', type: 'number' },
+    { name: 'Desv. Oradores', type: 'number' },
+    { name: 'Desv. Sala', type: 'number' },
+    { name: 'Dispersión', type: 'number' },
+    { name: '% Acuerdo', type: 'number' },
+    { name: 'Alerta', type: 'category' }
+  ],
+  data: adjudicators.map(a => ({
+    'Juez': a.adjudicator,
+    'Salas': a.rooms,
+    'Puntuaciones': a.scores,
+    'Media': rounded(a.mean),
+    'Desv. Torneo': rounded(a.tournamentDeviation),
+    'Desv. Oradores': rounded(a.speakerDeviation),
+    'Desv. Sala': rounded(a.roomDeviation),
+    'Dispersión': rounded(a.spread),
+    '% Acuerdo': rounded(a.agreement * 100, 1),
+    'Alerta': a.flags.map(f => ADJUDICATOR_FLAG_LABELS[f]).join(', ')
+  }))
+});
@@ -0,0 +1,115 @@
+import { BpPosition, ColumnMetadata, DataRow } from '../types';
+import { BP_POSITIONS, BpTeamResult, compareRounds } from './bpResults';
+import { chiSquareTest, mean } from './statistics';
+
+export type MotionGrouping = 'motion' | 'motionCategory';
+
+export interface BpSideStats {
+  position: BpPosition;
+  debates: number;
+  avgPoints: number;
+  firstRate: number;
+  // Puestos obtenidos: [primeros, segundos, terceros, cuartos]
+  placings: [number, number, number, number];
+}
+
+export interface BpMotionBalance {
+  label: string;
+  rounds: string[];
+  rooms: number;
+  sides: Record<BpPosition, BpSideStats>;
+  chiSquare: number;
+  pValue: number;
+  // Con pocas salas las frecuencias esperadas son demasiado bajas para fiarse de la prueba
+  reliable: boolean;
+  skewed: boolean;
+  favoured: BpPosition | null;
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+export const MIN_TEST_ROOMS = 5;
+
+// Sin columna de moción cada ronda cuenta como una moción distinta
+const groupLabel = (result: BpTeamResult, grouping: MotionGrouping) =>
+  (grouping === 'motion' ? result.motion : result.motionCategory) || (grouping === 'motion' ? `Ronda ${result.round}` : 'Sin categoría');
+
+const summarize = (label: string, results: BpTeamResult[]): BpMotionBalance => {
+  // Tabla de contingencia posición × puesto
+  const table = BP_POSITIONS.map(position => {
+    const placings: [number, number, number, number] = [0, 0, 0, 0];
+    results.filter(r => r.position === position).forEach(r => placings[r.rank - 1]++);
+    return placings;
+  });
+  const sides = {} as Record<BpPosition, BpSideStats>;
+  BP_POSITIONS.forEach((position, i) => {
+    const points = results.filter(r => r.position === position).map(r => r.points);
+    sides[position] = {
+      position,
+      debates: points.length,
+      avgPoints: mean(points),
+      firstRate: points.length > 0 ? table[i][0] / points.length : NaN,
+      placings: table[i]
+    };
+  });
+
+  const { statistic, pValue } = chiSquareTest(table);
+  const rooms = Math.min(...BP_POSITIONS.map(p => sides[p].debates));
+  const reliable = rooms >= MIN_TEST_ROOMS;
+  const skewed = reliable && pValue < SIGNIFICANCE_LEVEL;
+  const ranked = BP_POSITIONS.filter(p => isFinite(sides[p].avgPoints)).sort((a, b) => sides[b].avgPoints - sides[a].avgPoints);
+  return {
+    label,
+    rounds: Array.from(new Set(results.map(r => r.round))).sort(compareRounds),
+    rooms,
+    sides,
+    chiSquare: statistic,
+    pValue,
+    reliable,
+    skewed,
+    favoured: skewed ? ranked[0] ?? null : null
+  };
+};
+
+export const analyzeMotionBalance = (results: BpTeamResult[], grouping: MotionGrouping): BpMotionBalance[] => {
+  const groups = new Map<string, BpTeamResult[]>();
+  results.forEach(result => {
+    if (!result.position) return;
+    const label = groupLabel(result, grouping);
+    const group = groups.get(label);
+    if (group) group.push(result);
+    else groups.set(label, [result]);
+  });
+  return Array.from(groups.entries())
+    .map(([label, group]) => summarize(label, group))
+    .sort((a, b) => compareRounds(a.rounds[0] ?? '', b.rounds[0] ?? '') || compareRounds(a.label, b.label));
+};
+
+export const overallSideBalance = (results: BpTeamResult[]) => summarize('Todas las rondas', results.filter(r => r.position));
+
+const rounded = (value: number, decimals = 2) => isFinite(value) ? Math.round(value * 10 ** decimals) / 10 ** decimals : '';
+
+export const motionBalanceTable = (balances: BpMotionBalance[], grouping: MotionGrouping): { data: DataRow[]; columns: ColumnMetadata[] } => {
+  const groupColumn = grouping === 'motion' ? 'Moción' : 'Categoría';
+  return {
+    columns: [
+      { name: groupColumn, type: 'string' },
+      { name: 'Salas', type: 'number' },
+      ...BP_POSITIONS.map(p => ({ name: `Puntos ${p}`, type: 'number' as const })),
+      ...BP_POSITIONS.map(p => ({ name: `% Primeros ${p}`, type: 'number' as const })),
+      { name: 'Chi²', type: 'number' },
+      { name: 'Valor p', type: 'number' },
+      { name: 'Balance', type: 'category' }
+    ],
+    data: balances.map(b => {
+      const row: DataRow = { [groupColumn]: b.label, 'Salas': b.rooms };
+      BP_POSITIONS.forEach(p => {
+        row[`Puntos ${p}`] = rounded(b.sides[p].avgPoints);
+        row[`% Primeros ${p}`] = rounded(b.sides[p].firstRate * 100, 1);
+      });
+      row['Chi²'] = rounded(b.chiSquare);
+      row['Valor p'] = rounded(b.pValue, 3);
+      row['Balance'] = !b.reliable ? 'Muestra insuficiente' : b.skewed ? `Sesgada hacia ${b.favoured}` : 'Equilibrada';
+      return row;
+    })
+  };
+};
@@ -0,0 +1,228 @@
+import { BpColumnMapping, BpPosition, BpRole, BpSettings, ColumnMetadata, DataRow } from '../types';
+import { isBlank, mean, sum } from './statistics';
+
+export const BP_POSITIONS: BpPosition[] = ['OG', 'OO', 'CG', 'CO'];
+
+export const BP_POSITION_LABELS: Record<BpPosition, string> = {
+  OG: 'Gobierno de Apertura',
+  OO: 'Oposición de Apertura',
+  CG: 'Gobierno de Cierre',
+  CO: 'Oposición de Cierre'
+};
+
+export const BP_ROLES: { id: BpRole; label: string; required: boolean; numeric?: boolean }[] = [
+  { id: 'round', label: 'Ronda', required: true },
+  { id: 'room', label: 'Sala', required: false },
+  { id: 'team', label: 'Equipo', required: true },
+  { id: 'position', label: 'Posición (OG/OO/CG/CO)', required: false },
+  { id: 'rank', label: 'Puesto en la Sala (1-4)', required: true },
+  { id: 'speaker', label: 'Orador', required: false },
+  { id: 'speakerScore', label: 'Puntuación del Orador', required: false, numeric: true },
+  { id: 'motion', label: 'Moción', required: false },
+  { id: 'motionCategory', label: 'Categoría de Moción', required: false },
+  { id: 'adjudicator', label: 'Juez', required: false }
+];
+
+export const DEFAULT_BREAK_SIZE = 16;
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase().trim();
+
+// Orden de detección: primero los papeles con nombres más específicos
+const ROLE_PATTERNS: [BpRole, RegExp][] = [
+  ['speakerScore', /speak|puntuacion|score|nota/],
+  ['motionCategory', /categoria|category|tematica|area/],
+  ['motion', /mocion|motion|tema/],
+  ['adjudicator', /juez|jueces|adjudicat|judge|jurado/],
+  ['rank', /rank|puesto|result|lugar|place/],
+  ['position', /posicion|position|^pos$|lado|side|bancada|bench/],
+  ['round', /ronda|round|^rnd/],
+  ['room', /sala|room|aula|camara/],
+  ['team', /equipo|team/],
+  ['speaker', /orador|speaker|debatiente|nombre|name/]
+];
+
+export const detectBpMapping = (metadata: ColumnMetadata[]): BpColumnMapping => {
+  const mapping = { round: '', room: '', team: '', position: '', rank: '', speaker: '', speakerScore: '', motion: '', motionCategory: '', adjudicator: '' } as BpColumnMapping;
+  const used = new Set<string>();
+  ROLE_PATTERNS.forEach(([role, pattern]) => {
+    const numeric = BP_ROLES.find(r => r.id === role)?.numeric;
+    const column = metadata.find(m => !used.has(m.name) && pattern.test(normalize(m.name)) && (!numeric || m.type === 'number'));
+    if (column) {
+      mapping[role] = column.name;
+      used.add(column.name);
+    }
+  });
+  return mapping;
+};
+
+// Completa los ajustes guardados con lo detectado y descarta columnas que ya no existen
+export const resolveBpSettings = (saved: BpSettings | null | undefined, metadata: ColumnMetadata[]): BpSettings => {
+  const detected = detectBpMapping(metadata);
+  const names = new Set(metadata.map(m => m.name));
+  const mapping = { ...detected } as BpColumnMapping;
+  if (saved) {
+    (Object.keys(mapping) as BpRole[]).forEach(role => {
+      const column = saved.mapping[role];
+      if (column !== undefined) mapping[role] = names.has(column) ? column : '';
+    });
+  }
+  return {
+    mapping,
+    breakSize: saved?.breakSize ?? DEFAULT_BREAK_SIZE,
+    tiebreaks: saved?.tiebreaks ?? ['speaks', 'firsts']
+  };
+};
+
+export const missingBpRoles = (mapping: BpColumnMapping, roles: BpRole[] = BP_ROLES.filter(r => r.required).map(r => r.id)) =>
+  roles.filter(role => !mapping[role]);
+
+const POSITION_ALIASES: Record<string, BpPosition> = {
+  og: 'OG', oo: 'OO', cg: 'CG', co: 'CO',
+  // Abreviaturas en castellano: primer/segundo gobierno y oposición
+  pg: 'OG', po: 'OO', sg: 'CG', so: 'CO',
+  ga: 'OG', oa: 'OO', gc: 'CG', oc: 'CO'
+};
+
+export const parsePosition = (value: string | number | undefined): BpPosition | null => {
+  if (isBlank(value)) return null;
+  const text = normalize(String(value));
+  if (POSITION_ALIASES[text]) return POSITION_ALIASES[text];
+  const government = /gov|gob|prop/.test(text);
+  const opposition = /opp|opos/.test(text);
+  const opening = /open|apert|prim|1/.test(text);
+  const closing = /clos|cierr|segund|2/.test(text);
+  if (government === opposition || opening === closing) return null;
+  if (government) return opening ? 'OG' : 'CG';
+  return opening ? 'OO' : 'CO';
+};
+
+const RANK_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4,
+  primero: 1, segundo: 2, tercero: 3, cuarto: 4
+};
+
+// Admite 1, "1st", "1º", "primero"...; cualquier otra cosa no es un puesto válido
+export const parseRank = (value: string | number | undefined): number | null => {
+  if (isBlank(value)) return null;
+  if (typeof value === 'number') return Number.isInteger(value) && value >= 1 && value <= 4 ? value : null;
+  const text = normalize(String(value));
+  if (RANK_WORDS[text]) return RANK_WORDS[text];
+  const match = text.match(/^([1-4])\s*(st|nd|rd|th|º|ª|o|a|\.º)?$/);
+  return match ? Number(match[1]) : null;
+};
+
+// 3/2/1/0 puntos para el primero, segundo, tercero y cuarto de la sala
+export const pointsForRank = (rank: number) => 4 - rank;
+
+export interface BpTeamResult {
+  round: string;
+  room: string;
+  team: string;
+  position: BpPosition | null;
+  motion: string;
+  motionCategory: string;
+  rank: number;
+  points: number;
+  speaks: number;
+  // Filas de origen, para cruzar con oradores o jueces
+  rows: DataRow[];
+}
+
+export interface BpExtraction {
+  results: BpTeamResult[];
+  rounds: string[];
+  issues: string[];
+}
+
+const labelCollator = new Intl.Collator('es', { sensitivity: 'base', numeric: true });
+
+export const compareRounds = (a: string, b: string) => labelCollator.compare(a, b);
+
+const MAX_ISSUES = 20;
+
+export const textOf = (row: DataRow, column: string) => column && !isBlank(row[column]) ? String(row[column]).trim() : '';
+
+/**
+ * Speaks de un equipo en un debate. Con una fila por juez cada orador recibe la media de sus jueces
+ * y el equipo la suma de sus oradores; sin columna de orador se promedian los totales de cada juez.
+ */
+const teamSpeaks = (rows: DataRow[], mapping: BpColumnMapping) => {
+  const groups = new Map<string, number[]>();
+  rows.forEach(row => {
+    const score = mapping.speakerScore ? row[mapping.speakerScore] : undefined;
+    if (typeof score !== 'number' || !isFinite(score)) return;
+    const key = textOf(row, mapping.speaker || mapping.adjudicator);
+    const scores = groups.get(key);
+    if (scores) scores.push(score);
+    else groups.set(key, [score]);
+  });
+  if (groups.size === 0) return 0;
+  const values = Array.from(groups.values());
+  return mapping.speaker ? sum(values.map(mean)) : mean(values.map(sum));
+};
+
+/**
+ * Agrupa las filas por ronda y equipo: sirve tanto para datos por equipo como por orador,
+ * en cuyo caso las puntuaciones de los oradores del equipo se suman.
+ */
+export const extractTeamResults = (rows: DataRow[], mapping: BpColumnMapping): BpExtraction => {
+  const issues: string[] = [];
+  const groups = new Map<string, BpTeamResult>();
+  let invalidRanks = 0;
+
+  rows.forEach(row => {
+    const team = row[mapping.team];
+    const round = row[mapping.round];
+    if (isBlank(team) || isBlank(round)) return;
+    const rank = parseRank(row[mapping.rank]);
+    if (rank === null) {
+      invalidRanks++;
+      return;
+    }
+    const key = `${round}\u0001${team}`;
+    const existing = groups.get(key);
+    if (existing) {
+      if (existing.rank !== rank) issues.push(`Ronda ${round}: ${team} tiene puestos distintos (${existing.rank} y ${rank})`);
+      existing.rows.push(row);
+      return;
+    }
+    groups.set(key, {
+      round: String(round),
+      room: textOf(row, mapping.room),
+      team: String(team),
+      position: mapping.position ? parsePosition(row[mapping.position]) : null,
+      motion: textOf(row, mapping.motion),
+      motionCategory: textOf(row, mapping.motionCategory),
+      rank,
+      points: pointsForRank(rank),
+      speaks: 0,
+      rows: [row]
+    });
+  });
+
+  const results = Array.from(groups.values());
+  results.forEach(result => {
+    result.speaks = teamSpeaks(result.rows, mapping);
+  });
+  if (invalidRanks > 0) issues.unshift(`${invalidRanks} filas sin un puesto válido (1 a 4) se han ignorado`);
+
+  // Cada sala debe repartir puestos distintos
+  if (mapping.room) {
+    const rooms = new Map<string, BpTeamResult[]>();
+    results.forEach(result => {
+      const key = `${result.round}\u0001${result.room}`;
+      const teams = rooms.get(key);
+      if (teams) teams.push(result);
+      else rooms.set(key, [result]);
+    });
+    rooms.forEach(teams => {
+      const ranks = new Set(teams.map(t => t.rank));
+      if (ranks.size !== teams.length || teams.length > 4) {
+        issues.push(`Ronda ${teams[0].round}, sala ${teams[0].room || 'sin nombre'}: ${teams.length} equipos con puestos repetidos`);
+      }
+    });
+  }
+
+  const rounds = Array.from(new Set(results.map(r => r.round))).sort(compareRounds);
+  return { results, rounds, issues: issues.slice(0, MAX_ISSUES) };
+};
@@ -0,0 +1,197 @@
+import { BpColumnMapping, BpTiebreak, ColumnMetadata, DataRow } from '../types';
+import { BpTeamResult, textOf } from './bpResults';
+import { isBlank, maximum, mean, minimum, standardDeviation, sum } from './statistics';
+
+export const BP_TIEBREAKS: { id: BpTiebreak; label: string }[] = [
+  { id: 'speaks', label: 'Speaks totales' },
+  { id: 'firsts', label: 'Número de primeros' }
+];
+
+export type BreakStatus = 'in' | 'tie' | 'out';
+
+export const BREAK_STATUS_LABELS: Record<BreakStatus, string> = {
+  in: 'Rompe',
+  tie: 'Empate en el corte',
+  out: 'No rompe'
+};
+
+export interface BpTeamStanding {
+  rank: number;
+  team: string;
+  points: number;
+  speaks: number;
+  // Puestos obtenidos: [primeros, segundos, terceros, cuartos]
+  placings: [number, number, number, number];
+  rounds: number;
+  breakStatus: BreakStatus;
+}
+
+export interface BpBreakSummary {
+  size: number;
+  // Puntos del último equipo que entra (o empata) en el corte
+  threshold: number | null;
+  breaking: number;
+  tiedAtLine: string[];
+}
+
+export interface BpSpeakerStanding {
+  rank: number;
+  speaker: string;
+  team: string;
+  rounds: number;
+  total: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+// Las puntuaciones se comparan redondeadas para que los decimales de coma flotante no deshagan un empate
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+const tiebreakValue = (standing: Pick<BpTeamStanding, 'speaks' | 'placings'>, tiebreak: BpTiebreak) =>
+  tiebreak === 'speaks' ? roundScore(standing.speaks) : standing.placings[0];
+
+const labelCollator = new Intl.Collator('es', { sensitivity: 'base', numeric: true });
+
+export const computeTeamStandings = (results: BpTeamResult[], tiebreaks: BpTiebreak[], breakSize: number): BpTeamStanding[] => {
+  const teams = new Map<string, BpTeamStanding>();
+  results.forEach(result => {
+    const standing = teams.get(result.team) ?? {
+      rank: 0, team: result.team, points: 0, speaks: 0, placings: [0, 0, 0, 0], rounds: 0, breakStatus: 'out'
+    };
+    standing.points += result.points;
+    standing.speaks += result.speaks;
+    standing.placings[result.rank - 1]++;
+    standing.rounds++;
+    teams.set(result.team, standing);
+  });
+
+  const compare = (a: BpTeamStanding, b: BpTeamStanding) => {
+    if (a.points !== b.points) return b.points - a.points;
+    for (const tiebreak of tiebreaks) {
+      const diff = tiebreakValue(b, tiebreak) - tiebreakValue(a, tiebreak);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
+
+  const sorted = Array.from(teams.values()).sort((a, b) => compare(a, b) || labelCollator.compare(a.team, b.team));
+  // Los equipos empatados en todos los criterios comparten puesto
+  sorted.forEach((standing, i) => {
+    standing.rank = i > 0 && compare(sorted[i - 1], standing) === 0 ? sorted[i - 1].rank : i + 1;
+  });
+  sorted.forEach((standing, i) => {
+    if (standing.rank > breakSize) return;
+    let last = i;
+    while (last + 1 < sorted.length && sorted[last + 1].rank === standing.rank) last++;
+    standing.breakStatus = last + 1 > breakSize ? 'tie' : 'in';
+  });
+  return sorted;
+};
+
+export const summarizeBreak = (standings: BpTeamStanding[], breakSize: number): BpBreakSummary => {
+  const inside = standings.filter(s => s.breakStatus !== 'out');
+  return {
+    size: breakSize,
+    threshold: inside.length > 0 ? inside[inside.length - 1].points : null,
+    breaking: standings.filter(s => s.breakStatus === 'in').length,
+    tiedAtLine: standings.filter(s => s.breakStatus === 'tie').map(s => s.team)
+  };
+};
+
+export const computeSpeakerTab = (rows: DataRow[], mapping: BpColumnMapping): BpSpeakerStanding[] => {
+  if (!mapping.speaker || !mapping.speakerScore) return [];
+  const speakers = new Map<string, { team: string; debates: Map<string, number[]> }>();
+  rows.forEach((row, index) => {
+    const speaker = row[mapping.speaker];
+    const score = row[mapping.speakerScore];
+    if (isBlank(speaker) || typeof score !== 'number' || !isFinite(score)) return;
+    const entry = speakers.get(String(speaker)) ?? { team: '', debates: new Map<string, number[]>() };
+    // Con una fila por juez, las puntuaciones de un mismo debate se promedian en una sola ronda
+    const debate = mapping.round ? `${textOf(row, mapping.round)}\u0001${textOf(row, mapping.room)}` : String(index);
+    const judged = entry.debates.get(debate);
+    if (judged) judged.push(score);
+    else entry.debates.set(debate, [score]);
+    // Si un orador cambia de equipo se muestra el último
+    if (mapping.team && !isBlank(row[mapping.team])) entry.team = String(row[mapping.team]);
+    speakers.set(String(speaker), entry);
+  });
+
+  const sorted = Array.from(speakers.entries())
+    .map(([speaker, { team, debates }]) => {
+      const scores = Array.from(debates.values()).map(mean);
+      return {
+        rank: 0,
+        speaker,
+        team,
+        rounds: scores.length,
+        total: sum(scores),
+        mean: mean(scores),
+        stdDev: standardDeviation(scores),
+        min: minimum(scores),
+        max: maximum(scores)
+      };
+    })
+    .sort((a, b) => roundScore(b.total) - roundScore(a.total) || b.mean - a.mean || labelCollator.compare(a.speaker, b.speaker));
+  sorted.forEach((standing, i) => {
+    const previous = sorted[i - 1];
+    standing.rank = previous && roundScore(previous.total) === roundScore(standing.total) && previous.mean === standing.mean ? previous.rank : i + 1;
+  });
+  return sorted;
+};
+
+const finiteOrBlank = (value: number, decimals = 2) => isFinite(value) ? Math.round(value * 10 ** decimals) / 10 ** decimals : '';
+
+// Las clasificaciones se muestran y exportan con la misma tabla que los datos importados
+export const teamStandingsTable = (standings: BpTeamStanding[]): { data: DataRow[]; columns: ColumnMetadata[] } => ({
+  columns: [
+    { name: 'Puesto', type: 'number' },
+    { name: 'Equipo', type: 'string' },
+    { name: 'Puntos', type: 'number' },
+    { name: 'Speaks', type: 'number' },
+    { name: '1º', type: 'number' },
+    { name: '2º', type: 'number' },
+    { name: '3º', type: 'number' },
+    { name: '4º', type: 'number' },
+    { name: 'Rondas', type: 'number' },
+    { name: 'Break', type: 'category' }
+  ],
+  data: standings.map(s => ({
+    'Puesto': s.rank,
+    'Equipo': s.team,
+    'Puntos': s.points,
+    'Speaks': finiteOrBlank(s.speaks),
+    '1º': s.placings[0],
+    '2º': s.placings[1],
+    '3º': s.placings[2],
+    '4º': s.placings[3],
+    'Rondas': s.rounds,
+    'Break': BREAK_STATUS_LABELS[s.breakStatus]
+  }))
+});
+
+export const speakerTabTable = (standings: BpSpeakerStanding[]): { data: DataRow[]; columns: ColumnMetadata[] } => ({
+  columns: [
+    { name: 'Puesto', type: 'number' },
+    { name: 'Orador', type: 'string' },
+    { name: 'Equipo', type: 'string' },
+    { name: 'Rondas', type: 'number' },
+    { name: 'Total', type: 'number' },
+    { name: 'Media', type: 'number' },
+    { name: 'Desv. Estándar', type: 'number' },
+    { name: 'Mínimo', type: 'number' },
+    { name: 'Máximo', type: 'number' }
+  ],
+  data: standings.map(s => ({
+    'Puesto': s.rank,
+    'Orador': s.speaker,
+    'Equipo': s.team,
+    'Rondas': s.rounds,
+    'Total': finiteOrBlank(s.total),
+    'Media': finiteOrBlank(s.mean),
+    'Desv. Estándar': finiteOrBlank(s.stdDev),
+    'Mínimo': finiteOrBlank(s.min),
+    'Máximo': finiteOrBlank(s.max)
+  }))
+});
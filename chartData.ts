@@ -0,0 +1,348 @@
+import { ChartSettings, ChartType, ColumnMetadata, ComparisonDataset, DataRow } from '../types';
+import { isCategoricalType } from './dataParsing';
+import { BinLayout, binIndex, binLabels, computeBinLayout, kernelDensity } from './histogram';
+import { boxSummary, isBlank, linearRegression, maximum, minimum, numericValues, pearsonCorrelation } from './statistics';
+import { applyRollingAverage, buildTimeSeries } from './timeSeries';
+import { aggregateByGroup, aggregateMultiSeries, aggregationLabel, defineSeries, MAX_SERIES_VALUES, OTHER_LABEL, SeriesDatum, SeriesDefinition } from './aggregation';
+
+// Los ajustes guardados antes de existir la agregación conservan el comportamiento anterior
+export const CHART_DEFAULTS: Omit<ChartSettings, 'chartType' | 'xAxis' | 'yAxis' | 'period' | 'roundColumn' | 'rollingWindow'> = {
+  aggregation: 'mean',
+  sortOrder: 'value-desc',
+  topN: 15,
+  otherBucket: false,
+  extraMetrics: [],
+  secondaryAxis: [],
+  seriesColumn: '',
+  barMode: 'grouped',
+  sizeColumn: '',
+  trendLine: false,
+  binRule: 'fixed',
+  binCount: 10,
+  binEdges: [],
+  showDensity: false
+};
+
+export const withChartDefaults = (settings: ChartSettings): ChartSettings => ({
+  ...CHART_DEFAULTS,
+  ...settings
+});
+
+export const isTimeSeriesChart = (settings: ChartSettings, metadata: ColumnMetadata[]) =>
+  settings.chartType === 'line' && metadata.find(m => m.name === settings.xAxis)?.type === 'date';
+
+// Columnas válidas como eje X según el tipo de gráfico
+export const xAxisColumns = (chartType: ChartType, metadata: ColumnMetadata[]) => {
+  if (chartType === 'scatter') return metadata.filter(m => m.type === 'number');
+  if (chartType === 'box') return metadata.filter(m => isCategoricalType(m.type));
+  return metadata.filter(m => isCategoricalType(m.type) || m.type === 'date');
+};
+
+// Título corto para la cabecera y etiqueta completa para exportaciones e informes
+export const describeChart = (settings: ChartSettings, metadata: ColumnMetadata[]) => {
+  const { chartType, xAxis, yAxis } = settings;
+  if (chartType === 'scatter') {
+    const title = 'Relación entre Variables';
+    return { title, label: `${title}: ${yAxis} frente a ${xAxis}`, measure: yAxis, subtitle: `frente a ${xAxis}` };
+  }
+  if (chartType === 'box') {
+    const title = 'Dispersión por Categoría';
+    return { title, label: `${title}: ${yAxis} por ${xAxis}`, measure: yAxis, subtitle: `por ${xAxis}` };
+  }
+  if (chartType === 'heatmap') {
+    const title = 'Matriz de Correlación';
+    return { title, label: title, measure: 'correlaciones de Pearson', subtitle: 'entre columnas numéricas' };
+  }
+  const measure = `${aggregationLabel(withChartDefaults(settings).aggregation)} de ${yAxis}`;
+  const isTimeSeries = isTimeSeriesChart(settings, metadata);
+  const title = chartType === 'histogram' ? `Distribución de ${yAxis}` : isTimeSeries ? `Evolución Temporal` : `Análisis Comparativo`;
+  return {
+    title,
+    label: chartType === 'histogram' ? title : `${title}: ${measure} por ${xAxis}`,
+    measure: chartType === 'histogram' ? yAxis : measure,
+    subtitle: chartType === 'histogram' ? 'en intervalos de frecuencia' : isTimeSeries ? `a lo largo de ${xAxis}` : `por ${xAxis}`
+  };
+};
+
+export const buildChartData = (settings: ChartSettings, metadata: ColumnMetadata[], data: DataRow[], comparison?: ComparisonDataset | null) => {
+  const { xAxis, yAxis, period, roundColumn, rollingWindow, aggregation, sortOrder, topN, otherBucket } = withChartDefaults(settings);
+
+  if (isTimeSeriesChart(settings, metadata)) {
+    const options = { dateColumn: xAxis, valueColumn: yAxis, period, roundColumn, aggregation };
+    const series = applyRollingAverage(buildTimeSeries(data, options), rollingWindow);
+    if (!comparison) return series;
+    // Las rondas se alinean por nombre; los periodos de calendario, por posición (semana 1 con semana 1)
+    const compared = buildTimeSeries(comparison.data, options);
+    const byRound = new Map(compared.map(point => [point.name, point.value]));
+    return series.map((point, index) => ({
+      ...point,
+      comparison: period === 'round' ? byRound.get(point.name) : compared[index]?.value
+    }));
+  }
+
+  // Categorical grouping for other charts
+  return aggregateByGroup(data, { groupBy: xAxis, measure: yAxis, aggregation, sortOrder, topN, otherBucket }, comparison?.data);
+};
+
+// Barras y líneas admiten varias métricas y una dimensión de serie; sectores e histogramas no
+export const isMultiSeriesChart = (settings: ChartSettings) => {
+  const { chartType, extraMetrics, seriesColumn } = withChartDefaults(settings);
+  return (chartType === 'bar' || chartType === 'line') && (extraMetrics.length > 0 || seriesColumn !== '');
+};
+
+export const buildMultiSeriesData = (
+  settings: ChartSettings,
+  metadata: ColumnMetadata[],
+  data: DataRow[],
+  comparison?: ComparisonDataset | null
+): { data: SeriesDatum[]; series: SeriesDefinition[] } => {
+  const full = withChartDefaults(settings);
+  const { xAxis, yAxis, extraMetrics, secondaryAxis, seriesColumn, aggregation, period, roundColumn } = full;
+  const seriesOptions = {
+    measures: [yAxis, ...extraMetrics.filter(m => m !== yAxis)],
+    seriesBy: seriesColumn === xAxis ? '' : seriesColumn,
+    rightAxis: secondaryAxis
+  };
+
+  if (!isTimeSeriesChart(full, metadata)) {
+    return aggregateMultiSeries(data, { ...full, groupBy: xAxis, measure: yAxis, ...seriesOptions }, comparison);
+  }
+
+  // En series temporales cada serie se construye por separado y se alinea por periodo
+  const { series, matches } = defineSeries(data, seriesOptions, comparison?.name);
+  const points = new Map<string, SeriesDatum & { time: number }>();
+  series.forEach(definition => {
+    const rows = (definition.fromComparison ? comparison!.data : data).filter(row => matches(row, definition));
+    buildTimeSeries(rows, { dateColumn: xAxis, valueColumn: definition.measure, period, roundColumn, aggregation }).forEach(point => {
+      const existing = points.get(point.name);
+      if (existing) {
+        existing[definition.key] = point.value;
+        existing.time = Math.min(existing.time, point.time);
+      } else {
+        points.set(point.name, { name: point.name, time: point.time, [definition.key]: point.value });
+      }
+    });
+  });
+  return {
+    data: Array.from(points.values()).sort((a, b) => a.time - b.time),
+    series
+  };
+};
+
+export interface HistogramData {
+  bins: SeriesDatum[];
+  series: SeriesDefinition[];
+  layout: BinLayout;
+  outside: number;
+}
+
+// Una serie por categoría de la columna de división, o la principal y la comparación
+export const histogramSeries = (
+  settings: ChartSettings,
+  data: DataRow[],
+  datasetName?: string,
+  comparison?: ComparisonDataset | null
+) => {
+  const { yAxis, seriesColumn } = withChartDefaults(settings);
+  const { series, matches } = defineSeries(data, { measures: [yAxis], seriesBy: seriesColumn, rightAxis: [] }, comparison?.name);
+  return series.map(definition => ({
+    definition: definition.seriesValue !== undefined
+      ? definition
+      : { ...definition, label: definition.fromComparison ? comparison!.name : datasetName || yAxis },
+    values: numericValues(definition.fromComparison ? comparison!.data : data.filter(row => matches(row, definition)), yAxis)
+  }));
+};
+
+// Todas las series comparten cortes para que las frecuencias sean comparables
+export const buildHistogramData = (
+  settings: ChartSettings,
+  data: DataRow[],
+  datasetName?: string,
+  comparison?: ComparisonDataset | null
+): HistogramData => {
+  const { binRule, binCount, binEdges, showDensity } = withChartDefaults(settings);
+  const groups = histogramSeries(settings, data, datasetName, comparison);
+  const layout = computeBinLayout(groups.flatMap(group => group.values), binRule, binCount, binEdges);
+  const { edges } = layout;
+  const labels = binLabels(edges);
+  const bins: SeriesDatum[] = labels.map((name, i) => ({ name, start: edges[i], end: edges[i + 1] }));
+  let outside = 0;
+
+  groups.forEach(({ definition, values }) => {
+    bins.forEach(bin => { bin[definition.key] = 0; });
+    values.forEach(value => {
+      const index = binIndex(edges, value);
+      if (index < 0) outside++;
+      else bins[index][definition.key] = (bins[index][definition.key] as number) + 1;
+    });
+    if (!showDensity) return;
+    // La densidad se escala a frecuencias esperadas para compartir eje con las barras
+    const densities = kernelDensity(values, bins.map((_, i) => (edges[i] + edges[i + 1]) / 2));
+    densities?.forEach((density, i) => {
+      bins[i][`${definition.key}Density`] = density * values.length * (edges[i + 1] - edges[i]);
+    });
+  });
+
+  return { bins, series: groups.map(group => group.definition), layout, outside };
+};
+
+// Más puntos no aportan lectura y ralentizan el SVG; la tendencia usa siempre todos
+export const MAX_SCATTER_POINTS = 2000;
+
+export interface ScatterPoint {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export interface ScatterData {
+  groups: { name: string; points: ScatterPoint[] }[];
+  trend: { slope: number; intercept: number; r2: number; from: ScatterPoint; to: ScatterPoint } | null;
+  total: number;
+  shown: number;
+}
+
+export const buildScatterData = (
+  settings: ChartSettings,
+  data: DataRow[],
+  datasetName?: string,
+  comparison?: ComparisonDataset | null
+): ScatterData => {
+  const { xAxis, yAxis, seriesColumn, sizeColumn } = withChartDefaults(settings);
+  const toPoint = (row: DataRow): ScatterPoint | null => {
+    const x = row[xAxis];
+    const y = row[yAxis];
+    if (typeof x !== 'number' || typeof y !== 'number' || !isFinite(x) || !isFinite(y)) return null;
+    if (!sizeColumn) return { x, y };
+    // Sin valor de tamaño el punto no puede dibujarse con la escala Z
+    const z = row[sizeColumn];
+    return typeof z === 'number' && isFinite(z) ? { x, y, z } : null;
+  };
+
+  const groups = new Map<string, ScatterPoint[]>();
+  const addTo = (name: string, point: ScatterPoint) => {
+    const points = groups.get(name);
+    if (points) points.push(point);
+    else groups.set(name, [point]);
+  };
+
+  const all: ScatterPoint[] = [];
+  // Los colores se limitan a las categorías más frecuentes, igual que las series
+  const colorValues = seriesColumn
+    ? new Set(
+        Array.from(data.reduce((counts, row) => {
+          const key = isBlank(row[seriesColumn]) ? 'N/A' : String(row[seriesColumn]);
+          return counts.set(key, (counts.get(key) ?? 0) + 1);
+        }, new Map<string, number>()).entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_SERIES_VALUES)
+          .map(([key]) => key)
+      )
+    : null;
+
+  data.forEach(row => {
+    const point = toPoint(row);
+    if (!point) return;
+    all.push(point);
+    if (colorValues) {
+      const key = isBlank(row[seriesColumn]) ? 'N/A' : String(row[seriesColumn]);
+      addTo(colorValues.has(key) ? key : OTHER_LABEL, point);
+    } else {
+      addTo(datasetName || yAxis, point);
+    }
+  });
+  if (!colorValues && comparison) {
+    comparison.data.forEach(row => {
+      const point = toPoint(row);
+      if (point) addTo(comparison.name, point);
+    });
+  }
+
+  const total = Array.from(groups.values()).reduce((acc, points) => acc + points.length, 0);
+  const stride = Math.max(1, Math.ceil(total / MAX_SCATTER_POINTS));
+  const sampled = Array.from(groups.entries()).map(([name, points]) => ({
+    name,
+    points: stride === 1 ? points : points.filter((_, i) => i % stride === 0)
+  }));
+
+  let trend: ScatterData['trend'] = null;
+  if (settings.trendLine) {
+    const xs = all.map(p => p.x);
+    const fit = linearRegression(xs, all.map(p => p.y));
+    if (fit) {
+      const minX = minimum(xs);
+      const maxX = maximum(xs);
+      trend = {
+        ...fit,
+        from: { x: minX, y: fit.slope * minX + fit.intercept },
+        to: { x: maxX, y: fit.slope * maxX + fit.intercept }
+      };
+    }
+  }
+
+  return { groups: sampled, trend, total, shown: sampled.reduce((acc, g) => acc + g.points.length, 0) };
+};
+
+export interface BoxPlotDatum {
+  name: string;
+  range: [number, number];
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  count: number;
+  outliers: number[];
+}
+
+export const buildBoxPlotData = (settings: ChartSettings, data: DataRow[]): BoxPlotDatum[] => {
+  const { xAxis, yAxis, sortOrder, topN } = withChartDefaults(settings);
+  const groups = new Map<string, number[]>();
+  data.forEach(row => {
+    const value = row[yAxis];
+    if (typeof value !== 'number' || !isFinite(value)) return;
+    const key = isBlank(row[xAxis]) ? 'N/A' : String(row[xAxis]);
+    const values = groups.get(key);
+    if (values) values.push(value);
+    else groups.set(key, [value]);
+  });
+
+  let boxes = Array.from(groups.entries()).flatMap(([name, values]) => {
+    const summary = boxSummary(values);
+    // El rango abarca también los atípicos para que la forma pueda situarlos en píxeles
+    return summary
+      ? [{ name, range: [minimum([summary.min, ...summary.outliers]), maximum([summary.max, ...summary.outliers])] as [number, number], ...summary }]
+      : [];
+  });
+  // Con muchas categorías se conservan las que tienen más observaciones
+  if (topN > 0 && boxes.length > topN) {
+    const kept = new Set([...boxes].sort((a, b) => b.count - a.count).slice(0, topN).map(b => b.name));
+    boxes = boxes.filter(b => kept.has(b.name));
+  }
+  if (sortOrder === 'label') boxes.sort((a, b) => a.name.localeCompare(b.name, 'es', { numeric: true }));
+  else if (sortOrder === 'value-desc') boxes.sort((a, b) => b.median - a.median);
+  else if (sortOrder === 'value-asc') boxes.sort((a, b) => a.median - b.median);
+  return boxes;
+};
+
+export const MAX_CORRELATION_COLUMNS = 20;
+
+export const buildCorrelationMatrix = (metadata: ColumnMetadata[], data: DataRow[]) => {
+  const columns = metadata.filter(m => m.type === 'number').slice(0, MAX_CORRELATION_COLUMNS).map(m => m.name);
+  const matrix = columns.map(a => columns.map(b => {
+    if (a === b) return numericValues(data, a).length > 1 ? 1 : null;
+    // Solo cuentan las filas con ambos valores presentes
+    const xs: number[] = [];
+    const ys: number[] = [];
+    data.forEach(row => {
+      const x = row[a];
+      const y = row[b];
+      if (typeof x === 'number' && typeof y === 'number' && isFinite(x) && isFinite(y)) {
+        xs.push(x);
+        ys.push(y);
+      }
+    });
+    return pearsonCorrelation(xs, ys);
+  }));
+  return { columns, matrix };
+};
@@ -0,0 +1,70 @@
+import { downloadBlob } from '../utils/dataExport';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export interface SerializedChart {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// Recharts dibuja cada gráfico en un svg.recharts-surface; los gráficos propios se marcan con data-chart-surface
+export const serializeChart = (container: HTMLElement): SerializedChart | null => {
+  const svg = container.querySelector<SVGSVGElement>('svg.recharts-surface, svg[data-chart-surface]');
+  if (!svg) return null;
+  const { width, height } = svg.getBoundingClientRect();
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  if (!clone.getAttribute('viewBox')) clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily;
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', '#ffffff');
+  clone.insertBefore(background, clone.firstChild);
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+export const chartToPng = ({ markup, width, height }: SerializedChart, scale: number) => new Promise<Blob>((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      URL.revokeObjectURL(url);
+      reject(new Error('Canvas no disponible'));
+      return;
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('No se pudo generar la imagen')), 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('No se pudo cargar el SVG'));
+  };
+  image.src = url;
+});
+
+export const chartFileName = (title: string) =>
+  title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '').toLowerCase() || 'grafico';
+
+export const exportChartSvg = (container: HTMLElement, title: string) => {
+  const chart = serializeChart(container);
+  if (!chart) return;
+  downloadBlob(new Blob([chart.markup], { type: 'image/svg+xml;charset=utf-8' }), `${chartFileName(title)}.svg`);
+};
+
+export const exportChartPng = async (container: HTMLElement, title: string, scale: number) => {
+  const chart = serializeChart(container);
+  if (!chart) return;
+  downloadBlob(await chartToPng(chart, scale), `${chartFileName(title)}.png`);
+};
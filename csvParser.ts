@@ -0,0 +1,156 @@
+import { ImportWarning } from '../types';
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvEncoding = 'utf-8' | 'windows-1252';
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+const DETECTION_RECORDS = 20;
+
+interface CsvParserOptions {
+  delimiter: CsvDelimiter;
+  onRecord: (fields: string[], line: number) => void;
+  onWarning?: (warning: ImportWarning) => void;
+}
+
+// Parser RFC 4180 incremental: admite saltos de línea dentro de comillas,
+// comillas escapadas ("") y registros partidos entre fragmentos del stream.
+export const createCsvParser = ({ delimiter, onRecord, onWarning }: CsvParserOptions) => {
+  let field = '';
+  let fields: string[] = [];
+  let fieldQuoted = false;
+  let inQuotes = false;
+  let quotePending = false;
+  let skipLineFeed = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(fieldQuoted ? field : field.trim());
+    field = '';
+    fieldQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    onRecord(fields, recordLine);
+    fields = [];
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else {
+          if (char === '"') {
+            quotePending = true;
+          } else {
+            if (char === '\n') line++;
+            field += char;
+          }
+          continue;
+        }
+      }
+
+      if (char === '"' && !fieldQuoted && field.trim() === '') {
+        inQuotes = true;
+        fieldQuoted = true;
+        field = '';
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        endRecord();
+        line++;
+        recordLine = line;
+        skipLineFeed = char === '\r';
+      } else {
+        field += char;
+      }
+    }
+  };
+
+  const end = () => {
+    if (inQuotes && !quotePending) {
+      onWarning?.({
+        kind: 'unclosedQuote',
+        line: recordLine,
+        message: `Línea ${recordLine}: comillas sin cerrar al final del archivo`
+      });
+    }
+    inQuotes = false;
+    quotePending = false;
+    if (field !== '' || fields.length > 0 || fieldQuoted) endRecord();
+  };
+
+  return { push, end };
+};
+
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  }
+  try {
+    // En modo stream una secuencia multibyte cortada al final del fragmento no se considera inválida
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  // Se descarta la última línea del fragmento porque puede estar incompleta
+  const lastBreak = sample.lastIndexOf('\n');
+  const text = lastBreak > 0 ? sample.slice(0, lastBreak) : sample;
+
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  DELIMITERS.forEach(delimiter => {
+    const counts: number[] = [];
+    const parser = createCsvParser({
+      delimiter,
+      onRecord: fields => {
+        if (counts.length < DETECTION_RECORDS && !(fields.length === 1 && fields[0] === '')) {
+          counts.push(fields.length);
+        }
+      }
+    });
+    parser.push(text);
+    parser.end();
+    if (counts.length === 0) return;
+
+    const frequency = new Map<number, number>();
+    counts.forEach(c => frequency.set(c, (frequency.get(c) || 0) + 1));
+    const [modeCount, modeFrequency] = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1])[0];
+    if (modeCount < 2) return;
+
+    const score = (modeFrequency / counts.length) * modeCount;
+    if (score > best.score) best = { delimiter, score };
+  });
+
+  return best.delimiter;
+};
+
+export const normalizeHeaders = (rawHeaders: string[]): string[] => {
+  const used = new Set<string>();
+  return rawHeaders.map((raw, index) => {
+    const base = String(raw ?? '').trim() || `Columna ${index + 1}`;
+    let name = base;
+    let occurrence = 2;
+    while (used.has(name)) name = `${base} (${occurrence++})`;
+    used.add(name);
+    return name;
+  });
+};
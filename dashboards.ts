@@ -0,0 +1,50 @@
+import { ChartSettings, DashboardLayout, DashboardWidget, DashboardWidgetKind } from '../types';
+
+export const createWidgetId = () => Math.random().toString(36).slice(2, 10);
+
+// Widgets fijos del dashboard original; se pueden quitar y volver a añadir
+export const BUILTIN_WIDGETS: { kind: Exclude<DashboardWidgetKind, 'chart'>; title: string; description: string; width: DashboardWidget['width']; height: DashboardWidget['height'] }[] = [
+  { kind: 'impact', title: 'Variables de Alto Impacto', description: 'Promedios segmentados por la categoría principal', width: 2, height: 'md' },
+  { kind: 'distribution', title: 'Distribución', description: 'Análisis porcentual del Top 5', width: 1, height: 'sm' }
+];
+
+export const createBuiltinWidget = (kind: Exclude<DashboardWidgetKind, 'chart'>): DashboardWidget => {
+  const { title, width, height } = BUILTIN_WIDGETS.find(w => w.kind === kind)!;
+  return { id: createWidgetId(), kind, title, width, height };
+};
+
+export const createChartWidget = (chart: ChartSettings, title: string): DashboardWidget => ({
+  id: createWidgetId(),
+  kind: 'chart',
+  title,
+  width: chart.chartType === 'pie' ? 1 : 2,
+  height: 'md',
+  chart
+});
+
+export const createDashboard = (name: string, widgets: DashboardWidget[] = []): DashboardLayout => ({
+  id: createWidgetId(),
+  name,
+  widgets
+});
+
+export const createDefaultDashboards = (): DashboardLayout[] => [
+  createDashboard('Principal', BUILTIN_WIDGETS.map(w => createBuiltinWidget(w.kind)))
+];
+
+// Coloca el widget arrastrado en la posición del widget sobre el que se suelta
+export const moveWidget = (widgets: DashboardWidget[], draggedId: string, targetId: string) => {
+  const from = widgets.findIndex(w => w.id === draggedId);
+  const to = widgets.findIndex(w => w.id === targetId);
+  if (from < 0 || to < 0 || from === to) return widgets;
+  const next = [...widgets];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const nextDashboardName = (dashboards: DashboardLayout[]) => {
+  let index = dashboards.length + 1;
+  while (dashboards.some(d => d.name === `Dashboard ${index}`)) index++;
+  return `Dashboard ${index}`;
+};
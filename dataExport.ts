@@ -0,0 +1,89 @@
+import * as XLSX from 'xlsx';
+import { ColumnMetadata, DataRow, ExportOptions, NumberLocale } from '../types';
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// RFC 4180: se entrecomilla solo cuando hace falta y las comillas internas se duplican
+export const escapeCsvField = (value: string, delimiter: string) => {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+const formatNumber = (value: number, locale: NumberLocale) => {
+  const text = String(value);
+  return locale === 'es-ES' ? text.replace('.', ',') : text;
+};
+
+const formatCell = (value: string | number | undefined, column: ColumnMetadata | undefined, locale: NumberLocale) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number' && column?.type !== 'date') return formatNumber(value, locale);
+  return String(value);
+};
+
+export const buildCsv = (rows: DataRow[], metadata: ColumnMetadata[], { columns, delimiter, numberLocale }: ExportOptions) => {
+  const selected = columns.map(name => metadata.find(m => m.name === name));
+  const lines = [columns.map(name => escapeCsvField(name, delimiter)).join(delimiter)];
+  rows.forEach(row => {
+    lines.push(columns.map((name, i) => escapeCsvField(formatCell(row[name], selected[i], numberLocale), delimiter)).join(delimiter));
+  });
+  // El BOM permite que Excel reconozca el UTF-8 con acentos
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+export const buildJson = (rows: DataRow[], columns: string[]) =>
+  JSON.stringify(rows.map(row => {
+    const record: DataRow = {};
+    columns.forEach(name => { record[name] = row[name] ?? ''; });
+    return record;
+  }), null, 2);
+
+// Las fechas ISO se escriben como fechas de Excel para que la hoja conserve el tipo
+const toSheetValue = (value: string | number | undefined, column: ColumnMetadata | undefined): string | number | Date => {
+  if (value === undefined || value === null) return '';
+  if (column?.type === 'date') {
+    const match = String(value).match(ISO_DATE);
+    if (match) {
+      const [, y, m, d, h, min, s] = match;
+      return new Date(Number(y), Number(m) - 1, Number(d), Number(h || 0), Number(min || 0), Number(s || 0));
+    }
+  }
+  return value;
+};
+
+export const buildWorkbook = (rows: DataRow[], metadata: ColumnMetadata[], columns: string[], sheetName = 'Datos') => {
+  const selected = columns.map(name => metadata.find(m => m.name === name));
+  const matrix = [columns, ...rows.map(row => columns.map((name, i) => toSheetValue(row[name], selected[i])))];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(matrix, { cellDates: true }), sheetName.slice(0, 31));
+  return workbook;
+};
+
+export const exportFileName = (importedFileName: string | undefined, extension: string, suffix = '') => {
+  const base = (importedFileName ?? '').replace(/\.(csv|xlsx|xls)$/i, '').trim() || 'datos';
+  return `${base}${suffix}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => window.URL.revokeObjectURL(url), 0);
+};
+
+export const exportRows = (rows: DataRow[], metadata: ColumnMetadata[], options: ExportOptions, fileName: string) => {
+  switch (options.format) {
+    case 'csv':
+      downloadBlob(new Blob([buildCsv(rows, metadata, options)], { type: 'text/csv;charset=utf-8' }), fileName);
+      break;
+    case 'json':
+      downloadBlob(new Blob([buildJson(rows, options.columns)], { type: 'application/json' }), fileName);
+      break;
+    case 'xlsx':
+      XLSX.writeFile(buildWorkbook(rows, metadata, options.columns), fileName, { cellDates: true });
+      break;
+  }
+};
@@ -0,0 +1,86 @@
+import { ColumnMetadata, ColumnType, DataRow, NumberLocale } from '../types';
+import { detectNumberLocale, parseLocaleNumber } from '../utils/numberParsing';
+import { dateToIso, detectDateOrder, parseDateValue } from '../utils/dateParsing';
+
+const TRUE_VALUES = ['true', 'verdadero', 'sí', 'si', 'yes'];
+const FALSE_VALUES = ['false', 'falso', 'no'];
+const NUMERIC_THRESHOLD = 0.9;
+const MAX_CATEGORIES = 30;
+
+export const isCategoricalType = (type: ColumnType) =>
+  type === 'string' || type === 'category' || type === 'boolean';
+
+export const toRawValue = (val: unknown): string | number => {
+  if (val === null || val === undefined) return '';
+  if (typeof val === 'number') return isNaN(val) ? '' : val;
+  if (typeof val === 'boolean') return val ? 'true' : 'false';
+  if (val instanceof Date) return dateToIso(val) ?? '';
+  return String(val).trim();
+};
+
+export const inferColumn = (name: string, samples: (string | number)[], fallbackLocale: NumberLocale): ColumnMetadata => {
+  const values = samples.filter(v => v !== '');
+  if (values.length === 0) return { name, type: 'string' };
+
+  const lowered = values.map(v => String(v).toLowerCase());
+  const distinct = new Set(lowered);
+  if (distinct.size <= 2 && lowered.every(v => TRUE_VALUES.includes(v) || FALSE_VALUES.includes(v))) {
+    return { name, type: 'boolean' };
+  }
+
+  // Las fechas de Excel llegan ya convertidas a ISO; en CSV se aceptan ISO y dd/mm/aaaa
+  if (values.every(v => typeof v === 'string')) {
+    const dateOrder = detectDateOrder(values);
+    const dates = values.filter(v => parseDateValue(v, dateOrder) !== null).length;
+    if (dates / values.length >= NUMERIC_THRESHOLD) return { name, type: 'date', dateOrder };
+  }
+
+  // Detección de separadores decimales y de miles por columna (es-ES vs en-US)
+  const numberLocale = detectNumberLocale(values) ?? fallbackLocale;
+  const units = new Map<string, number>();
+  let numeric = 0;
+  values.forEach(value => {
+    const parsed = parseLocaleNumber(value, numberLocale);
+    if (!parsed) return;
+    numeric++;
+    if (parsed.unit) units.set(parsed.unit, (units.get(parsed.unit) || 0) + 1);
+  });
+
+  if (numeric / values.length >= NUMERIC_THRESHOLD) {
+    const unit = Array.from(units.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+    return unit ? { name, type: 'number', numberLocale, unit } : { name, type: 'number', numberLocale };
+  }
+
+  if (distinct.size <= MAX_CATEGORIES && distinct.size < values.length / 2) {
+    return { name, type: 'category' };
+  }
+  return { name, type: 'string' };
+};
+
+export const coerceValue = (raw: string | number, column: ColumnMetadata): string | number => {
+  if (raw === '') return '';
+  switch (column.type) {
+    case 'number': {
+      const parsed = parseLocaleNumber(raw, column.numberLocale ?? 'en-US');
+      return parsed ? parsed.value : '';
+    }
+    case 'date':
+      return parseDateValue(raw, column.dateOrder ?? 'dmy') ?? '';
+    case 'boolean': {
+      const lowered = String(raw).toLowerCase();
+      if (TRUE_VALUES.includes(lowered) || lowered === '1') return 'Sí';
+      if (FALSE_VALUES.includes(lowered) || lowered === '0') return 'No';
+      return String(raw);
+    }
+    default:
+      return String(raw);
+  }
+};
+
+export const coerceRow = (raw: DataRow, columns: ColumnMetadata[]): DataRow => {
+  const row: DataRow = {};
+  columns.forEach(column => {
+    row[column.name] = coerceValue(raw[column.name] ?? '', column);
+  });
+  return row;
+};
@@ -0,0 +1,165 @@
+import { ColumnMetadata, ColumnType, ColumnTypeIssue, DataRow } from '../types';
+import { detectNumberLocale, parseLocaleNumber } from './numberParsing';
+import { boxSummary, isBlank, maximum, mean, minimum, numericValues } from './statistics';
+
+export type QualityIssueKind = 'mixed' | 'blanks' | 'constant' | 'outliers';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  message: string;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  // Proporción de valores no vacíos compatibles con el tipo inferido (0 a 1)
+  confidence: number;
+  blanks: number;
+  distinct: number;
+  topValues: { value: string; count: number }[];
+  min?: string | number;
+  max?: string | number;
+  mean?: number;
+  outliers: number;
+  issues: QualityIssue[];
+}
+
+export interface DatasetProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+  duplicateRows: number;
+}
+
+const TOP_VALUES = 5;
+const MIXED_THRESHOLD = 0.5;
+const BLANK_WARNING = 0.2;
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+// Filas con exactamente los mismos valores que otra anterior
+export const duplicateRowIndexes = (rows: DataRow[], columns: ColumnMetadata[]) => {
+  const seen = new Set<string>();
+  const duplicates: number[] = [];
+  rows.forEach((row, index) => {
+    const key = columns.map(column => String(row[column.name] ?? '')).join('\u0001');
+    if (seen.has(key)) duplicates.push(index);
+    else seen.add(key);
+  });
+  return duplicates;
+};
+
+// Texto que en su mayoría se lee como número: probablemente una columna numérica con erratas
+const numericShare = (counts: Map<string, number>) => {
+  const values = Array.from(counts.keys());
+  if (values.length === 0) return 0;
+  const locale = detectNumberLocale(values) ?? 'en-US';
+  let numeric = 0;
+  let total = 0;
+  counts.forEach((count, value) => {
+    total += count;
+    if (parseLocaleNumber(value, locale) !== null) numeric += count;
+  });
+  return numeric / total;
+};
+
+export const profileColumn = (rows: DataRow[], column: ColumnMetadata, typeIssue?: ColumnTypeIssue): ColumnProfile => {
+  const counts = new Map<string, number>();
+  let blanks = 0;
+  rows.forEach(row => {
+    const value = row[column.name];
+    if (isBlank(value)) {
+      blanks++;
+      return;
+    }
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const filled = rows.length - blanks;
+  const topValues = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value, count }));
+  const profile: ColumnProfile = {
+    name: column.name,
+    type: column.type,
+    confidence: 1,
+    blanks,
+    distinct: counts.size,
+    topValues,
+    outliers: 0,
+    issues: []
+  };
+
+  if (column.type === 'number') {
+    const values = numericValues(rows, column.name);
+    profile.min = minimum(values);
+    profile.max = maximum(values);
+    profile.mean = mean(values);
+    profile.outliers = boxSummary(values)?.outliers.length ?? 0;
+  } else if (column.type === 'date') {
+    const keys = Array.from(counts.keys()).sort();
+    profile.min = keys[0];
+    profile.max = keys[keys.length - 1];
+  }
+
+  // Las celdas rechazadas al convertir ya llegan vacías; el informe de importación las recuerda.
+  // Si ya hay menos vacíos que rechazos, esas filas se eliminaron después
+  if (typeIssue && typeIssue.invalid > 0 && typeIssue.invalid <= blanks) {
+    profile.confidence = filled / (filled + typeIssue.invalid);
+    profile.issues.push({
+      kind: 'mixed',
+      message: `${typeIssue.invalid} valores no se pudieron leer como ${column.type === 'date' ? 'fecha' : 'número'} (p. ej. ${typeIssue.examples.map(e => `"${e}"`).join(', ')}) y quedaron vacíos`
+    });
+  } else if (column.type === 'string' || column.type === 'category') {
+    const share = numericShare(counts);
+    if (share >= MIXED_THRESHOLD && share < 1) {
+      profile.confidence = 1 - share;
+      profile.issues.push({ kind: 'mixed', message: `${percent(share)} de los valores son numéricos: revise si es una columna de números con texto` });
+    }
+  }
+
+  if (filled === 0) {
+    profile.issues.push({ kind: 'blanks', message: 'La columna está vacía' });
+  } else if (blanks / rows.length >= BLANK_WARNING) {
+    profile.issues.push({ kind: 'blanks', message: `${percent(blanks / rows.length)} de las filas no tienen valor` });
+  }
+  if (counts.size === 1 && rows.length > 1) {
+    profile.issues.push({ kind: 'constant', message: 'Todas las filas tienen el mismo valor' });
+  }
+  if (profile.outliers > 0) {
+    profile.issues.push({ kind: 'outliers', message: `${profile.outliers} valores atípicos fuera de 1,5 veces el rango intercuartílico` });
+  }
+  return profile;
+};
+
+export const profileDataset = (rows: DataRow[], columns: ColumnMetadata[], typeIssues: ColumnTypeIssue[] = []): DatasetProfile => ({
+  rowCount: rows.length,
+  columns: columns.map(column => profileColumn(rows, column, typeIssues.find(issue => issue.column === column.name))),
+  duplicateRows: duplicateRowIndexes(rows, columns).length
+});
+
+export const dropColumn = (rows: DataRow[], columns: ColumnMetadata[], name: string) => ({
+  data: rows.map(row => {
+    const next = { ...row };
+    delete next[name];
+    return next;
+  }),
+  columns: columns.filter(column => column.name !== name)
+});
+
+// Mismo criterio de Tukey que los diagramas de caja; las filas sin valor se conservan
+export const excludeOutlierRows = (rows: DataRow[], column: string) => {
+  const outliers = new Set(boxSummary(numericValues(rows, column))?.outliers ?? []);
+  return rows.filter(row => {
+    const value = row[column];
+    return typeof value !== 'number' || !outliers.has(value);
+  });
+};
+
+export const removeBlankRows = (rows: DataRow[], column: string) => rows.filter(row => !isBlank(row[column]));
+
+export const removeDuplicateRows = (rows: DataRow[], columns: ColumnMetadata[]) => {
+  const duplicates = new Set(duplicateRowIndexes(rows, columns));
+  return rows.filter((_, index) => !duplicates.has(index));
+};
@@ -0,0 +1,85 @@
+import { DateOrder } from '../types';
+
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?Z?)?$/;
+const DAY_FIRST_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 86400000;
+const MAX_EXCEL_SERIAL = 2958465;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const buildIso = (year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): string | null => {
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  return hours || minutes || seconds ? `${date}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}` : date;
+};
+
+export const excelSerialToIso = (serial: number): string | null => {
+  if (serial < 1 || serial > MAX_EXCEL_SERIAL) return null;
+  const date = new Date(EXCEL_EPOCH + Math.round(serial * DAY_MS / 1000) * 1000);
+  return buildIso(
+    date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()
+  );
+};
+
+export const dateToIso = (date: Date): string | null => {
+  if (isNaN(date.getTime())) return null;
+  return buildIso(
+    date.getFullYear(), date.getMonth() + 1, date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds()
+  );
+};
+
+export const parseDateValue = (raw: string | number, order: DateOrder): string | null => {
+  if (typeof raw === 'number') return excelSerialToIso(raw);
+  const value = raw.trim();
+
+  const iso = value.match(ISO_PATTERN);
+  if (iso) {
+    const [, y, m, d, h, min, s] = iso;
+    return buildIso(Number(y), Number(m), Number(d), Number(h || 0), Number(min || 0), Number(s || 0));
+  }
+
+  const local = value.match(DAY_FIRST_PATTERN);
+  if (local) {
+    const [, a, b, y, h, min, s] = local;
+    const year = y.length === 2 ? 2000 + Number(y) : Number(y);
+    const [day, month] = order === 'dmy' ? [Number(a), Number(b)] : [Number(b), Number(a)];
+    return buildIso(year, month, day, Number(h || 0), Number(min || 0), Number(s || 0));
+  }
+
+  return null;
+};
+
+export const detectDateOrder = (values: (string | number)[]): DateOrder => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  values.forEach(value => {
+    const match = typeof value === 'string' ? value.trim().match(DAY_FIRST_PATTERN) : null;
+    if (!match) return;
+    if (Number(match[1]) > 12) dayFirst++;
+    if (Number(match[2]) > 12) monthFirst++;
+  });
+  // Ante la ambigüedad se asume el formato español dd/mm/aaaa
+  return monthFirst > dayFirst ? 'mdy' : 'dmy';
+};
+
+// Interpreta el ISO almacenado siempre en UTC para que fechas con y sin hora sean comparables
+export const toTimestamp = (iso: string | number): number => {
+  const match = String(iso).match(ISO_PATTERN);
+  if (!match) return NaN;
+  const [, y, m, d, h, min, s] = match;
+  return Date.UTC(Number(y), Number(m) - 1, Number(d), Number(h || 0), Number(min || 0), Number(s || 0));
+};
+
+export const formatDate = (iso: string | number): string => {
+  const match = String(iso).match(ISO_PATTERN);
+  if (!match) return String(iso);
+  const [, y, m, d, h, min] = match;
+  const date = `${pad(Number(d))}/${pad(Number(m))}/${y}`;
+  return h ? `${date} ${pad(Number(h))}:${min}` : date;
+};
@@ -0,0 +1,226 @@
+// Intérprete de expresiones sin eval: tokenizador + descenso recursivo + evaluación del árbol
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; name: string }
+  | { type: 'unary'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+export type ExpressionValue = number | string | null;
+
+export interface EvaluationContext {
+  identifier: (name: string) => ExpressionValue;
+  call: (name: string, args: ExpressionNode[], evaluate: (node: ExpressionNode) => ExpressionValue) => ExpressionValue;
+}
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const OPERATORS = ['<=', '>=', '!=', '+', '-', '*', '/', '%', '^', '=', '<', '>', '(', ')', ','];
+const IDENTIFIER_START = /[A-Za-zÀ-ÿ_]/;
+const IDENTIFIER_PART = /[A-Za-zÀ-ÿ0-9_.]/;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^\d*\.?\d+(?:[eE][+-]?\d+)?/)!;
+      tokens.push({ kind: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end < 0) throw new Error(`Texto sin cerrar en la posición ${i + 1}`);
+      tokens.push({ kind: 'string', value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+    // [Nombre con espacios] referencia una columna literal
+    if (char === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end < 0) throw new Error(`Corchete sin cerrar en la posición ${i + 1}`);
+      tokens.push({ kind: 'identifier', value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+    if (IDENTIFIER_START.test(char)) {
+      let end = i + 1;
+      while (end < source.length && IDENTIFIER_PART.test(source[end])) end++;
+      tokens.push({ kind: 'identifier', value: source.slice(i, end), position: i });
+      i = end;
+      continue;
+    }
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) throw new Error(`Carácter no válido "${char}" en la posición ${i + 1}`);
+    tokens.push({ kind: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+};
+
+export const parseExpression = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token.kind === 'operator' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new Error(`Se esperaba "${value}" en la posición ${peek().position + 1}`);
+    index++;
+  };
+
+  const binaryLevel = (operators: string[], next: () => ExpressionNode) => (): ExpressionNode => {
+    let left = next();
+    while (operators.some(isOperator)) {
+      const operator = (tokens[index++] as { value: string }).value as BinaryOperator;
+      left = { type: 'binary', operator, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): ExpressionNode => {
+    const token = peek();
+    if (token.kind === 'number') {
+      index++;
+      return { type: 'number', value: token.value };
+    }
+    if (token.kind === 'string') {
+      index++;
+      return { type: 'string', value: token.value };
+    }
+    if (token.kind === 'identifier') {
+      index++;
+      if (isOperator('(')) {
+        index++;
+        const args: ExpressionNode[] = [];
+        if (!isOperator(')')) {
+          args.push(comparison());
+          while (isOperator(',')) {
+            index++;
+            args.push(comparison());
+          }
+        }
+        expect(')');
+        return { type: 'call', name: token.value.toLowerCase(), args };
+      }
+      return { type: 'identifier', name: token.value };
+    }
+    if (isOperator('(')) {
+      index++;
+      const inner = comparison();
+      expect(')');
+      return inner;
+    }
+    throw new Error(token.kind === 'end' ? 'La expresión está incompleta' : `Símbolo inesperado en la posición ${token.position + 1}`);
+  };
+
+  // La potencia asocia por la derecha: 2^3^2 = 2^(3^2)
+  const power = (): ExpressionNode => {
+    const base = primary();
+    if (!isOperator('^')) return base;
+    index++;
+    return { type: 'binary', operator: '^', left: base, right: unary() };
+  };
+
+  const unary = (): ExpressionNode => {
+    if (isOperator('-')) {
+      index++;
+      return { type: 'unary', operand: unary() };
+    }
+    if (isOperator('+')) {
+      index++;
+      return unary();
+    }
+    return power();
+  };
+
+  const multiplicative = binaryLevel(['*', '/', '%'], unary);
+  const additive = binaryLevel(['+', '-'], multiplicative);
+  const comparison = binaryLevel(['<=', '>=', '!=', '=', '<', '>'], additive);
+
+  const node = comparison();
+  if (peek().kind !== 'end') throw new Error(`Símbolo inesperado en la posición ${peek().position + 1}`);
+  return node;
+};
+
+const toNumber = (value: ExpressionValue): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const compareValues = (left: ExpressionValue, right: ExpressionValue) => {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a - b;
+  return String(left ?? '').localeCompare(String(right ?? ''), 'es', { sensitivity: 'base' });
+};
+
+// Los valores vacíos se propagan como null en lugar de convertirse en 0
+export const evaluateExpression = (node: ExpressionNode, context: EvaluationContext): ExpressionValue => {
+  const evaluate = (current: ExpressionNode): ExpressionValue => {
+    switch (current.type) {
+      case 'number':
+      case 'string':
+        return current.value;
+      case 'identifier':
+        return context.identifier(current.name);
+      case 'call':
+        return context.call(current.name, current.args, evaluate);
+      case 'unary': {
+        const operand = toNumber(evaluate(current.operand));
+        return operand === null ? null : -operand;
+      }
+      case 'binary': {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        if (['=', '!=', '<', '<=', '>', '>='].includes(current.operator)) {
+          if (left === null || right === null) return null;
+          const diff = compareValues(left, right);
+          switch (current.operator) {
+            case '=': return diff === 0 ? 1 : 0;
+            case '!=': return diff !== 0 ? 1 : 0;
+            case '<': return diff < 0 ? 1 : 0;
+            case '<=': return diff <= 0 ? 1 : 0;
+            case '>': return diff > 0 ? 1 : 0;
+            default: return diff >= 0 ? 1 : 0;
+          }
+        }
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if (a === null || b === null) return null;
+        switch (current.operator) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return b === 0 ? null : a / b;
+          case '%': return b === 0 ? null : a % b;
+          default: return Math.pow(a, b);
+        }
+      }
+    }
+  };
+  return evaluate(node);
+};
+
+export const expressionToNumber = toNumber;
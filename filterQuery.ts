@@ -0,0 +1,308 @@
+import { ColumnMetadata, DataRow, FilterCondition, FilterOperator, FilterQuery } from '../types';
+import { parseDateValue, toTimestamp, formatDate } from '../utils/dateParsing';
+import { parseLocaleNumber } from '../utils/numberParsing';
+
+export interface OperatorOption {
+  value: FilterOperator;
+  label: string;
+  // 'ordered' admite números y fechas; 'number' solo columnas numéricas
+  applies: 'all' | 'ordered' | 'number';
+}
+
+export const FILTER_OPERATORS: OperatorOption[] = [
+  { value: 'equals', label: 'Es igual a', applies: 'all' },
+  { value: 'notEquals', label: 'Distinto de', applies: 'all' },
+  { value: 'contains', label: 'Contiene', applies: 'all' },
+  { value: 'regex', label: 'Expresión regular', applies: 'all' },
+  { value: 'in', label: 'En la lista', applies: 'all' },
+  { value: 'between', label: 'Entre', applies: 'ordered' },
+  { value: 'gt', label: 'Mayor que', applies: 'ordered' },
+  { value: 'gte', label: 'Mayor o igual que', applies: 'ordered' },
+  { value: 'lt', label: 'Menor que', applies: 'ordered' },
+  { value: 'lte', label: 'Menor o igual que', applies: 'ordered' },
+  { value: 'isEmpty', label: 'Está vacío', applies: 'all' },
+  { value: 'notEmpty', label: 'No está vacío', applies: 'all' },
+  { value: 'topN', label: 'Top N', applies: 'number' },
+  { value: 'aboveMean', label: 'Sobre la media', applies: 'number' },
+  { value: 'belowMean', label: 'Bajo la media', applies: 'number' }
+];
+
+export const operatorsFor = (column?: ColumnMetadata) => FILTER_OPERATORS.filter(op =>
+  op.applies === 'all' ||
+  (op.applies === 'ordered' && (column?.type === 'number' || column?.type === 'date')) ||
+  (op.applies === 'number' && column?.type === 'number')
+);
+
+export const operatorNeedsValue = (operator: FilterOperator) =>
+  !['isEmpty', 'notEmpty', 'aboveMean', 'belowMean'].includes(operator);
+
+export const createFilterId = () => Math.random().toString(36).slice(2, 10);
+
+export const createEmptyQuery = (): FilterQuery => ({ combinator: 'and', groups: [] });
+
+export const countConditions = (query: FilterQuery | null) =>
+  query ? query.groups.reduce((acc, group) => acc + group.conditions.length, 0) : 0;
+
+const isEmptyValue = (value: string | number | undefined) => value === undefined || value === null || String(value).trim() === '';
+
+const normalizeText = (value: string | number | undefined) => String(value ?? '').trim().toLowerCase();
+
+// Convierte lo que escribe el analista al mismo dominio que los valores de la columna
+const toComparable = (raw: string, column: ColumnMetadata | undefined, endOfDay = false): number | string | null => {
+  if (column?.type === 'number') {
+    const parsed = parseLocaleNumber(raw.trim(), column.numberLocale ?? 'es-ES') ?? parseLocaleNumber(raw.trim(), 'en-US');
+    return parsed ? parsed.value : null;
+  }
+  if (column?.type === 'date') {
+    const iso = parseDateValue(raw, column.dateOrder ?? 'dmy');
+    if (!iso) return null;
+    const time = toTimestamp(iso);
+    // Un límite superior sin hora incluye el día completo
+    return endOfDay && iso.length === 10 ? time + 86399999 : time;
+  }
+  return raw.trim().toLowerCase();
+};
+
+const rowComparable = (value: string | number | undefined, column: ColumnMetadata | undefined): number | string | null => {
+  if (isEmptyValue(value)) return null;
+  if (column?.type === 'number') return typeof value === 'number' ? value : null;
+  if (column?.type === 'date') {
+    const time = toTimestamp(value as string);
+    return isNaN(time) ? null : time;
+  }
+  return normalizeText(value);
+};
+
+const compare = (a: number | string, b: number | string) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), 'es', { numeric: true });
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(v => v !== '');
+
+type RowPredicate = (row: DataRow) => boolean;
+
+export const isValidCondition = (condition: FilterCondition) => {
+  if (condition.operator === 'regex') {
+    try {
+      new RegExp(condition.value, 'i');
+    } catch {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Top N y media dependen del conjunto completo, por eso se precalculan al compilar
+const compileCondition = (condition: FilterCondition, data: DataRow[], metadata: ColumnMetadata[]): RowPredicate | null => {
+  const { column: name, operator, value, valueTo } = condition;
+  const column = metadata.find(m => m.name === name);
+  if (name && !column) return null;
+  // Una condición a medio escribir no filtra nada
+  if (operatorNeedsValue(operator) && value.trim() === '' && !(operator === 'between' && valueTo?.trim())) return null;
+  if (!isValidCondition(condition)) return null;
+
+  const valuesOf = (row: DataRow): (string | number | undefined)[] => name ? [row[name]] : Object.values(row);
+  const some = (test: (cell: string | number | undefined) => boolean): RowPredicate => row => valuesOf(row).some(test);
+
+  switch (operator) {
+    case 'contains': {
+      const needle = value.trim().toLowerCase();
+      return some(cell => String(cell ?? '').toLowerCase().includes(needle));
+    }
+    case 'regex': {
+      const pattern = new RegExp(value, 'i');
+      return some(cell => pattern.test(String(cell ?? '')));
+    }
+    case 'isEmpty':
+      return row => valuesOf(row).every(isEmptyValue);
+    case 'notEmpty':
+      return some(cell => !isEmptyValue(cell));
+    case 'equals':
+    case 'notEquals': {
+      const target = toComparable(value, column);
+      if (target === null) return null;
+      const matches = (cell: string | number | undefined) => {
+        const current = rowComparable(cell, column);
+        return current !== null && compare(current, target) === 0;
+      };
+      return operator === 'equals' ? some(matches) : row => !valuesOf(row).some(matches);
+    }
+    case 'in': {
+      const targets = splitList(value).map(v => toComparable(v, column)).filter((v): v is number | string => v !== null);
+      return some(cell => {
+        const current = rowComparable(cell, column);
+        return current !== null && targets.some(t => compare(current, t) === 0);
+      });
+    }
+    case 'between':
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const lower = operator === 'between' || operator === 'gt' || operator === 'gte' ? toComparable(value, column) : null;
+      const upper = operator === 'between' ? toComparable(valueTo ?? '', column, true)
+        : operator === 'lt' || operator === 'lte' ? toComparable(value, column, operator === 'lte') : null;
+      if (lower === null && upper === null) return null;
+      return some(cell => {
+        const current = rowComparable(cell, column);
+        if (current === null) return false;
+        if (lower !== null) {
+          const diff = compare(current, lower);
+          if (operator === 'gt' ? diff <= 0 : diff < 0) return false;
+        }
+        if (upper !== null) {
+          const diff = compare(current, upper);
+          if (operator === 'lt' ? diff >= 0 : diff > 0) return false;
+        }
+        return true;
+      });
+    }
+    case 'topN':
+    case 'aboveMean':
+    case 'belowMean': {
+      if (!column) return null;
+      const numbers = data.map(row => row[column.name]).filter((v): v is number => typeof v === 'number');
+      if (numbers.length === 0) return () => false;
+      if (operator === 'topN') {
+        const n = Math.max(1, Math.floor(Number(value)) || 10);
+        // Los empates con el último puesto también entran
+        const threshold = [...numbers].sort((a, b) => b - a)[Math.min(n, numbers.length) - 1];
+        return row => typeof row[column.name] === 'number' && (row[column.name] as number) >= threshold;
+      }
+      const mean = numbers.reduce((acc, v) => acc + v, 0) / numbers.length;
+      return row => {
+        const current = row[column.name];
+        if (typeof current !== 'number') return false;
+        return operator === 'aboveMean' ? current > mean : current < mean;
+      };
+    }
+  }
+};
+
+export const compileFilterQuery = (query: FilterQuery | null, data: DataRow[], metadata: ColumnMetadata[]): RowPredicate => {
+  if (!query) return () => true;
+  const groups = query.groups
+    .map(group => ({
+      combinator: group.combinator,
+      predicates: group.conditions
+        .map(condition => compileCondition(condition, data, metadata))
+        .filter((p): p is RowPredicate => p !== null)
+    }))
+    .filter(group => group.predicates.length > 0);
+  if (groups.length === 0) return () => true;
+
+  const matchesGroup = (group: typeof groups[number], row: DataRow) =>
+    group.combinator === 'and' ? group.predicates.every(p => p(row)) : group.predicates.some(p => p(row));
+
+  return query.combinator === 'and'
+    ? row => groups.every(group => matchesGroup(group, row))
+    : row => groups.some(group => matchesGroup(group, row));
+};
+
+// --- Sintaxis de texto: team:"Oxford A" speaks>=75 OR motion~economía ---
+
+export interface ParsedFilterText {
+  query: FilterQuery;
+  // Posición de cada condición en el texto, para poder quitarla desde su etiqueta
+  spans: { [conditionId: string]: [number, number] };
+}
+
+const TOKEN_PATTERN = /(?:"([^"]*)"|([^\s:<>=!~"]+))(>=|<=|!=|:|=|>|<|~)(\/(?:[^/\\]|\\.)*\/|"([^"]*)"|[^\s"]*)|"([^"]*)"|(\S+)/g;
+
+const OR_KEYWORD = 'OR';
+
+const conditionFromToken = (column: ColumnMetadata, op: string, rawValue: string, quoted: boolean): Omit<FilterCondition, 'id'> => {
+  const base = { column: column.name, value: rawValue };
+  const isNumber = column.type === 'number';
+
+  if (op === ':' || op === '=') {
+    if (quoted && rawValue === '') return { ...base, operator: 'isEmpty' };
+    if (!quoted && /^\/.*\/$/.test(rawValue) && rawValue.length > 1) return { ...base, operator: 'regex', value: rawValue.slice(1, -1) };
+    if (!quoted && isNumber && /^top\d+$/i.test(rawValue)) return { ...base, operator: 'topN', value: rawValue.slice(3) };
+    if (!quoted && rawValue.includes('..')) {
+      const [from, to] = rawValue.split('..');
+      return { ...base, operator: 'between', value: from, valueTo: to };
+    }
+    if (!quoted && rawValue.includes(',') && !isNumber) return { ...base, operator: 'in' };
+    return { ...base, operator: 'equals' };
+  }
+  if (op === '!=') return quoted && rawValue === '' ? { ...base, operator: 'notEmpty' } : { ...base, operator: 'notEquals' };
+  if (op === '~') return { ...base, operator: 'contains' };
+  if (isNumber && rawValue.toLowerCase() === 'media') {
+    if (op === '>' || op === '>=') return { ...base, operator: 'aboveMean', value: '' };
+    return { ...base, operator: 'belowMean', value: '' };
+  }
+  const operator: FilterOperator = op === '>' ? 'gt' : op === '>=' ? 'gte' : op === '<' ? 'lt' : 'lte';
+  return { ...base, operator };
+};
+
+export const parseFilterText = (text: string, metadata: ColumnMetadata[]): ParsedFilterText => {
+  const spans: ParsedFilterText['spans'] = {};
+  const groups: FilterQuery['groups'] = [{ id: 'text-0', combinator: 'and', conditions: [] }];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [raw, quotedColumn, bareColumn, op, value, quotedValue, quotedText, word] = match;
+    const start = match.index ?? 0;
+
+    if (word === OR_KEYWORD) {
+      groups.push({ id: `text-${groups.length}`, combinator: 'and', conditions: [] });
+      continue;
+    }
+
+    const id = `text-${start}`;
+    const columnName = quotedColumn ?? bareColumn;
+    const column = columnName !== undefined
+      ? metadata.find(m => m.name.toLowerCase() === columnName.toLowerCase())
+      : undefined;
+
+    let condition: FilterCondition;
+    if (column && op) {
+      const quoted = quotedValue !== undefined;
+      condition = { id, ...conditionFromToken(column, op, quoted ? quotedValue : value, quoted) };
+    } else {
+      // Palabras sueltas o columnas desconocidas: búsqueda libre en todas las columnas
+      condition = { id, column: '', operator: 'contains', value: quotedText ?? raw };
+    }
+    groups[groups.length - 1].conditions.push(condition);
+    spans[id] = [start, start + raw.length];
+  }
+
+  return { query: { combinator: 'or', groups: groups.filter(g => g.conditions.length > 0) }, spans };
+};
+
+export const removeTextSpan = (text: string, [start, end]: [number, number]) =>
+  (text.slice(0, start) + text.slice(end))
+    .replace(/\s+/g, ' ')
+    .replace(new RegExp(`^\\s*${OR_KEYWORD}\\b|\\b${OR_KEYWORD}\\s*$`, 'g'), '')
+    .replace(new RegExp(`\\b${OR_KEYWORD}\\s+${OR_KEYWORD}\\b`, 'g'), OR_KEYWORD)
+    .trim();
+
+const formatValue = (value: string, column?: ColumnMetadata) => {
+  if (column?.type === 'date') {
+    const iso = parseDateValue(value, column.dateOrder ?? 'dmy');
+    if (iso) return formatDate(iso);
+  }
+  return column?.type === 'number' ? value : `"${value}"`;
+};
+
+export const describeCondition = (condition: FilterCondition, metadata: ColumnMetadata[]) => {
+  const column = metadata.find(m => m.name === condition.column);
+  const subject = condition.column || 'Cualquier columna';
+  const value = formatValue(condition.value, column);
+  switch (condition.operator) {
+    case 'equals': return `${subject} = ${value}`;
+    case 'notEquals': return `${subject} ≠ ${value}`;
+    case 'contains': return condition.column ? `${subject} contiene ${value}` : `"${condition.value}"`;
+    case 'regex': return `${subject} ~ /${condition.value}/`;
+    case 'in': return `${subject} en [${splitList(condition.value).join(', ')}]`;
+    case 'between': return `${subject} entre ${value} y ${formatValue(condition.valueTo ?? '', column)}`;
+    case 'gt': return `${subject} > ${value}`;
+    case 'gte': return `${subject} ≥ ${value}`;
+    case 'lt': return `${subject} < ${value}`;
+    case 'lte': return `${subject} ≤ ${value}`;
+    case 'isEmpty': return `${subject} vacío`;
+    case 'notEmpty': return `${subject} no vacío`;
+    case 'topN': return `${subject}: top ${condition.value || 10}`;
+    case 'aboveMean': return `${subject} > media`;
+    case 'belowMean': return `${subject} < media`;
+  }
+};
@@ -0,0 +1,295 @@
+import { ColumnMetadata, ColumnType, DataRow } from '../types';
+import { EvaluationContext, ExpressionNode, ExpressionValue, evaluateExpression, expressionToNumber, parseExpression } from './expression';
+import { toTimestamp } from './dateParsing';
+import { isBlank, maximum, minimum } from './statistics';
+
+export type FormulaCategory = 'Lógicas' | 'Matemáticas' | 'Texto' | 'Fechas' | 'Ventana y grupo';
+
+export interface FormulaFunction {
+  name: string;
+  signature: string;
+  description: string;
+  category: FormulaCategory;
+  minArgs: number;
+  maxArgs: number;
+}
+
+const VARIADIC = Infinity;
+
+export const FORMULA_FUNCTIONS: FormulaFunction[] = [
+  { name: 'if', signature: 'if(condición, sí, no)', description: 'Devuelve "sí" cuando la condición es verdadera', category: 'Lógicas', minArgs: 2, maxArgs: 3 },
+  { name: 'and', signature: 'and(a, b, ...)', description: '1 si todas las condiciones se cumplen', category: 'Lógicas', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'or', signature: 'or(a, b, ...)', description: '1 si alguna condición se cumple', category: 'Lógicas', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'not', signature: 'not(a)', description: 'Invierte una condición', category: 'Lógicas', minArgs: 1, maxArgs: 1 },
+  { name: 'isblank', signature: 'isblank(valor)', description: '1 si el valor está vacío', category: 'Lógicas', minArgs: 1, maxArgs: 1 },
+  { name: 'coalesce', signature: 'coalesce(a, b, ...)', description: 'Primer valor no vacío', category: 'Lógicas', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'abs', signature: 'abs(x)', description: 'Valor absoluto', category: 'Matemáticas', minArgs: 1, maxArgs: 1 },
+  { name: 'sqrt', signature: 'sqrt(x)', description: 'Raíz cuadrada', category: 'Matemáticas', minArgs: 1, maxArgs: 1 },
+  { name: 'round', signature: 'round(x, decimales)', description: 'Redondeo a los decimales indicados', category: 'Matemáticas', minArgs: 1, maxArgs: 2 },
+  { name: 'floor', signature: 'floor(x)', description: 'Redondeo hacia abajo', category: 'Matemáticas', minArgs: 1, maxArgs: 1 },
+  { name: 'ceil', signature: 'ceil(x)', description: 'Redondeo hacia arriba', category: 'Matemáticas', minArgs: 1, maxArgs: 1 },
+  { name: 'min', signature: 'min(a, b, ...)', description: 'Menor de los valores de la fila', category: 'Matemáticas', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'max', signature: 'max(a, b, ...)', description: 'Mayor de los valores de la fila', category: 'Matemáticas', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'ln', signature: 'ln(x)', description: 'Logaritmo natural', category: 'Matemáticas', minArgs: 1, maxArgs: 1 },
+  { name: 'exp', signature: 'exp(x)', description: 'Exponencial', category: 'Matemáticas', minArgs: 1, maxArgs: 1 },
+  { name: 'concat', signature: 'concat(a, b, ...)', description: 'Une textos', category: 'Texto', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'upper', signature: 'upper(texto)', description: 'Convierte a mayúsculas', category: 'Texto', minArgs: 1, maxArgs: 1 },
+  { name: 'lower', signature: 'lower(texto)', description: 'Convierte a minúsculas', category: 'Texto', minArgs: 1, maxArgs: 1 },
+  { name: 'trim', signature: 'trim(texto)', description: 'Quita los espacios sobrantes', category: 'Texto', minArgs: 1, maxArgs: 1 },
+  { name: 'len', signature: 'len(texto)', description: 'Número de caracteres', category: 'Texto', minArgs: 1, maxArgs: 1 },
+  { name: 'left', signature: 'left(texto, n)', description: 'Primeros n caracteres', category: 'Texto', minArgs: 2, maxArgs: 2 },
+  { name: 'right', signature: 'right(texto, n)', description: 'Últimos n caracteres', category: 'Texto', minArgs: 2, maxArgs: 2 },
+  { name: 'mid', signature: 'mid(texto, inicio, n)', description: 'n caracteres desde la posición inicial (desde 1)', category: 'Texto', minArgs: 3, maxArgs: 3 },
+  { name: 'contains', signature: 'contains(texto, buscado)', description: '1 si el texto contiene lo buscado', category: 'Texto', minArgs: 2, maxArgs: 2 },
+  { name: 'replace', signature: 'replace(texto, buscado, nuevo)', description: 'Sustituye todas las apariciones', category: 'Texto', minArgs: 3, maxArgs: 3 },
+  { name: 'number', signature: 'number(valor)', description: 'Convierte a número', category: 'Texto', minArgs: 1, maxArgs: 1 },
+  { name: 'text', signature: 'text(valor)', description: 'Convierte a texto', category: 'Texto', minArgs: 1, maxArgs: 1 },
+  { name: 'year', signature: 'year(fecha)', description: 'Año de una fecha', category: 'Fechas', minArgs: 1, maxArgs: 1 },
+  { name: 'month', signature: 'month(fecha)', description: 'Mes de una fecha (1 a 12)', category: 'Fechas', minArgs: 1, maxArgs: 1 },
+  { name: 'day', signature: 'day(fecha)', description: 'Día del mes', category: 'Fechas', minArgs: 1, maxArgs: 1 },
+  { name: 'datediff', signature: 'datediff(inicio, fin)', description: 'Días transcurridos entre dos fechas', category: 'Fechas', minArgs: 2, maxArgs: 2 },
+  { name: 'rank', signature: 'rank(x, grupo, ...)', description: 'Puesto dentro del grupo; 1 es el valor más alto', category: 'Ventana y grupo', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'rankasc', signature: 'rankasc(x, grupo, ...)', description: 'Puesto dentro del grupo; 1 es el valor más bajo', category: 'Ventana y grupo', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'rownumber', signature: 'rownumber(grupo, ...)', description: 'Posición de la fila dentro de su grupo', category: 'Ventana y grupo', minArgs: 0, maxArgs: VARIADIC },
+  { name: 'cumsum', signature: 'cumsum(x, grupo, ...)', description: 'Suma acumulada en el orden de las filas', category: 'Ventana y grupo', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'groupmean', signature: 'groupmean(x, grupo, ...)', description: 'Media del grupo (sin grupo: de todo el conjunto)', category: 'Ventana y grupo', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'groupsum', signature: 'groupsum(x, grupo, ...)', description: 'Suma del grupo', category: 'Ventana y grupo', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'groupmin', signature: 'groupmin(x, grupo, ...)', description: 'Mínimo del grupo', category: 'Ventana y grupo', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'groupmax', signature: 'groupmax(x, grupo, ...)', description: 'Máximo del grupo', category: 'Ventana y grupo', minArgs: 1, maxArgs: VARIADIC },
+  { name: 'groupcount', signature: 'groupcount(grupo, ...)', description: 'Número de filas del grupo', category: 'Ventana y grupo', minArgs: 0, maxArgs: VARIADIC }
+];
+
+const FUNCTIONS_BY_NAME = new Map(FORMULA_FUNCTIONS.map(fn => [fn.name, fn]));
+
+// Funciones que miran todas las filas; el resto se calcula con la fila actual
+const isWindowFunction = (name: string) => FUNCTIONS_BY_NAME.get(name)?.category === 'Ventana y grupo';
+
+// Solo agrupan: todos sus argumentos forman la clave del grupo
+const GROUP_ONLY = ['rownumber', 'groupcount'];
+
+const resolveColumn = (name: string, columns: ColumnMetadata[]) =>
+  columns.find(c => c.name === name) ?? columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+
+// Comprueba columnas y funciones antes de recorrer los datos para dar errores claros en el editor
+export const compileColumnFormula = (formula: string, columns: ColumnMetadata[]): ExpressionNode => {
+  if (!formula.trim()) throw new Error('Escriba una fórmula');
+  const node = parseExpression(formula);
+  const check = (current: ExpressionNode) => {
+    switch (current.type) {
+      case 'identifier':
+        if (!resolveColumn(current.name, columns)) throw new Error(`Columna desconocida: ${current.name}`);
+        break;
+      case 'unary':
+        check(current.operand);
+        break;
+      case 'binary':
+        check(current.left);
+        check(current.right);
+        break;
+      case 'call': {
+        const fn = FUNCTIONS_BY_NAME.get(current.name);
+        if (!fn) throw new Error(`Función desconocida: ${current.name}`);
+        if (current.args.length < fn.minArgs || current.args.length > fn.maxArgs) {
+          throw new Error(`Número de argumentos incorrecto: ${fn.signature}`);
+        }
+        current.args.forEach(check);
+        break;
+      }
+    }
+  };
+  check(node);
+  return node;
+};
+
+const toText = (value: ExpressionValue) => value === null ? '' : String(value);
+
+const isTruthy = (value: ExpressionValue) => {
+  const number = expressionToNumber(value);
+  if (number !== null) return number !== 0;
+  return value !== null && value !== '' && String(value).toLowerCase() !== 'false';
+};
+
+const dateParts = (value: ExpressionValue) => {
+  const timestamp = value === null ? NaN : toTimestamp(value);
+  return isNaN(timestamp) ? null : new Date(timestamp);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rowFunction = (name: string, args: ExpressionNode[], evaluate: (node: ExpressionNode) => ExpressionValue): ExpressionValue => {
+  // Las condicionales evalúan sus ramas bajo demanda
+  switch (name) {
+    case 'if': return isTruthy(evaluate(args[0])) ? evaluate(args[1]) : args[2] ? evaluate(args[2]) : null;
+    case 'and': return args.every(arg => isTruthy(evaluate(arg))) ? 1 : 0;
+    case 'or': return args.some(arg => isTruthy(evaluate(arg))) ? 1 : 0;
+    case 'coalesce': {
+      for (const arg of args) {
+        const value = evaluate(arg);
+        if (value !== null && value !== '') return value;
+      }
+      return null;
+    }
+  }
+
+  const values = args.map(evaluate);
+  const [first] = values;
+  const numbers = values.map(expressionToNumber);
+  const [x, y] = numbers;
+  switch (name) {
+    case 'not': return isTruthy(first) ? 0 : 1;
+    case 'isblank': return first === null || first === '' ? 1 : 0;
+    case 'concat': return values.map(toText).join('');
+    case 'upper': return first === null ? null : toText(first).toLocaleUpperCase('es');
+    case 'lower': return first === null ? null : toText(first).toLocaleLowerCase('es');
+    case 'trim': return first === null ? null : toText(first).trim().replace(/\s+/g, ' ');
+    case 'len': return first === null ? null : toText(first).length;
+    case 'left': return first === null || y === null ? null : toText(first).slice(0, Math.max(0, y));
+    case 'right': return first === null || y === null ? null : y <= 0 ? '' : toText(first).slice(-y);
+    case 'mid': {
+      const [, , length] = numbers;
+      return first === null || y === null || length === null ? null : toText(first).substr(Math.max(0, y - 1), Math.max(0, length));
+    }
+    case 'contains': return first === null ? 0 : toText(first).toLocaleLowerCase('es').includes(toText(values[1]).toLocaleLowerCase('es')) ? 1 : 0;
+    case 'replace': return first === null ? null : toText(values[1]) ? toText(first).split(toText(values[1])).join(toText(values[2])) : toText(first);
+    case 'number': return x;
+    case 'text': return first === null ? null : toText(first);
+    case 'year': return dateParts(first)?.getUTCFullYear() ?? null;
+    case 'month': {
+      const date = dateParts(first);
+      return date ? date.getUTCMonth() + 1 : null;
+    }
+    case 'day': return dateParts(first)?.getUTCDate() ?? null;
+    case 'datediff': {
+      const start = dateParts(first);
+      const end = dateParts(values[1]);
+      return start && end ? Math.round((end.getTime() - start.getTime()) / DAY_MS) : null;
+    }
+  }
+
+  // Funciones matemáticas: un argumento vacío deja vacío el resultado
+  if (numbers.some(n => n === null)) return null;
+  const n = numbers as number[];
+  switch (name) {
+    case 'abs': return Math.abs(n[0]);
+    case 'sqrt': return n[0] < 0 ? null : Math.sqrt(n[0]);
+    case 'round': {
+      const factor = Math.pow(10, n[1] ?? 0);
+      return Math.round(n[0] * factor) / factor;
+    }
+    case 'floor': return Math.floor(n[0]);
+    case 'ceil': return Math.ceil(n[0]);
+    case 'min': return Math.min(...n);
+    case 'max': return Math.max(...n);
+    case 'ln': return n[0] <= 0 ? null : Math.log(n[0]);
+    case 'exp': return Math.exp(n[0]);
+    default: throw new Error(`Función desconocida: ${name}`);
+  }
+};
+
+// Calcula la función de ventana para todas las filas de una vez
+const windowFunction = (name: string, args: ExpressionNode[], rowCount: number, valueAt: (node: ExpressionNode, row: number) => ExpressionValue) => {
+  const groupArgs = GROUP_ONLY.includes(name) ? args : args.slice(1);
+  const measure = GROUP_ONLY.includes(name) ? [] : Array.from({ length: rowCount }, (_, i) => expressionToNumber(valueAt(args[0], i)));
+  const groups = new Map<string, number[]>();
+  for (let i = 0; i < rowCount; i++) {
+    const key = groupArgs.map(arg => toText(valueAt(arg, i))).join('\u0001');
+    const members = groups.get(key);
+    if (members) members.push(i);
+    else groups.set(key, [i]);
+  }
+
+  const result: ExpressionValue[] = new Array(rowCount).fill(null);
+  groups.forEach(members => {
+    switch (name) {
+      case 'rownumber':
+        members.forEach((row, position) => { result[row] = position + 1; });
+        break;
+      case 'groupcount':
+        members.forEach(row => { result[row] = members.length; });
+        break;
+      case 'rank':
+      case 'rankasc': {
+        // Empates con el mismo puesto y salto posterior (1, 2, 2, 4)
+        const ranked = members.filter(row => measure[row] !== null)
+          .sort((a, b) => name === 'rank' ? measure[b]! - measure[a]! : measure[a]! - measure[b]!);
+        ranked.forEach((row, position) => {
+          const previous = ranked[position - 1];
+          result[row] = position > 0 && measure[previous] === measure[row] ? result[previous] : position + 1;
+        });
+        break;
+      }
+      case 'cumsum': {
+        let total = 0;
+        members.forEach(row => {
+          const value = measure[row];
+          if (value === null) return;
+          total += value;
+          result[row] = total;
+        });
+        break;
+      }
+      default: {
+        const values = members.map(row => measure[row]).filter((v): v is number => v !== null);
+        if (values.length === 0) return;
+        const total = values.reduce((acc, v) => acc + v, 0);
+        const aggregate = name === 'groupsum' ? total
+          : name === 'groupmin' ? minimum(values)
+          : name === 'groupmax' ? maximum(values)
+          : total / values.length;
+        members.forEach(row => { result[row] = aggregate; });
+      }
+    }
+  });
+  return result;
+};
+
+export const evaluateColumnFormula = (formula: string, rows: DataRow[], columns: ColumnMetadata[]): ExpressionValue[] => {
+  const node = compileColumnFormula(formula, columns);
+  // Resultados de cada llamada de ventana, identificada por su lista de argumentos
+  const windows = new Map<ExpressionNode[], ExpressionValue[]>();
+  let current = 0;
+
+  const context: EvaluationContext = {
+    identifier: name => {
+      const value = rows[current][resolveColumn(name, columns)!.name];
+      return isBlank(value) ? null : value;
+    },
+    call: (name, args, evaluate) => {
+      if (!isWindowFunction(name)) return rowFunction(name, args, evaluate);
+      let values = windows.get(args);
+      if (!values) {
+        values = windowFunction(name, args, rows.length, valueAt);
+        windows.set(args, values);
+      }
+      return values[current];
+    }
+  };
+
+  const valueAt = (target: ExpressionNode, row: number) => {
+    const saved = current;
+    current = row;
+    try {
+      return evaluateExpression(target, context);
+    } finally {
+      current = saved;
+    }
+  };
+
+  return rows.map((_, row) => valueAt(node, row));
+};
+
+// Numérica si todos los resultados no vacíos son números
+export const inferFormulaType = (values: ExpressionValue[]): ColumnType =>
+  values.every(value => value === null || typeof value === 'number') ? 'number' : 'string';
+
+export const addCalculatedColumn = (rows: DataRow[], columns: ColumnMetadata[], name: string, formula: string) => {
+  const values = evaluateColumnFormula(formula, rows, columns);
+  const column: ColumnMetadata = { name, type: inferFormulaType(values), formula };
+  return {
+    columns: [...columns, column],
+    data: rows.map((row, i) => {
+      const value = values[i];
+      return { ...row, [name]: value === null || (typeof value === 'number' && !isFinite(value)) ? '' : value };
+    })
+  };
+};
@@ -0,0 +1,151 @@
+import { HistogramBinRule } from '../types';
+import { kurtosis, maximum, mean, minimum, quantile, skewness, sortNumbers, standardDeviation } from './statistics';
+
+export const HISTOGRAM_BIN_RULES: { id: HistogramBinRule; label: string; description: string }[] = [
+  { id: 'fixed', label: 'Número fijo', description: 'la selección manual' },
+  { id: 'sturges', label: 'Sturges', description: 'la regla de Sturges (⌈log₂ n⌉ + 1), pensada para distribuciones aproximadamente normales' },
+  { id: 'freedman-diaconis', label: 'Freedman–Diaconis', description: 'la regla de Freedman–Diaconis (ancho 2·RIC·n^-1/3), robusta frente a valores atípicos' },
+  { id: 'scott', label: 'Scott', description: 'la regla de Scott (ancho 3,49·σ·n^-1/3), óptima para datos normales' },
+  { id: 'custom', label: 'Cortes personalizados', description: 'los cortes definidos manualmente' }
+];
+
+export const MAX_BINS = 100;
+
+export interface BinLayout {
+  edges: number[];
+  // Regla realmente aplicada: las basadas en ancho recurren a Sturges si la dispersión es nula
+  rule: HistogramBinRule;
+}
+
+const clampBins = (count: number) => Math.min(MAX_BINS, Math.max(1, Math.round(count)));
+
+const sturgesCount = (n: number) => Math.ceil(Math.log2(n)) + 1;
+
+// Las reglas de Freedman–Diaconis y Scott fijan el ancho; el número de intervalos sale del rango
+const countFromWidth = (range: number, width: number) => width > 0 && isFinite(width) ? Math.ceil(range / width) : null;
+
+// Cortes separados por punto y coma o espacios; la coma se acepta como separador decimal
+export const parseBinEdges = (text: string) =>
+  text.split(/[;\s]+/).filter(part => part !== '').map(part => Number(part.replace(',', '.'))).filter(isFinite);
+
+export const computeBinLayout = (values: number[], rule: HistogramBinRule, binCount: number, customEdges: number[]): BinLayout => {
+  const sorted = sortNumbers(values);
+  const n = sorted.length;
+  if (rule === 'custom') {
+    const edges = sortNumbers(Array.from(new Set(customEdges.filter(isFinite))));
+    if (edges.length >= 2) return { edges, rule };
+  }
+  if (n === 0) return { edges: [], rule };
+
+  const min = sorted[0];
+  const max = sorted[n - 1];
+  // Todos los valores iguales: un único intervalo centrado en vez de un ancho cero
+  if (min === max) return { edges: [min - 0.5, max + 0.5], rule };
+
+  let count: number | null;
+  let applied = rule;
+  switch (rule) {
+    case 'fixed':
+      count = binCount;
+      break;
+    case 'freedman-diaconis':
+      count = countFromWidth(max - min, 2 * (quantile(sorted, 0.75) - quantile(sorted, 0.25)) * n ** (-1 / 3));
+      break;
+    case 'scott':
+      count = countFromWidth(max - min, 3.49 * standardDeviation(sorted) * n ** (-1 / 3));
+      break;
+    default:
+      count = null;
+  }
+  if (count === null) {
+    count = sturgesCount(n);
+    applied = 'sturges';
+  }
+
+  const bins = clampBins(count);
+  const step = (max - min) / bins;
+  // El último corte es exactamente el máximo para no perderlo por redondeo
+  const edges = Array.from({ length: bins + 1 }, (_, i) => i === bins ? max : min + i * step);
+  return { edges, rule: applied };
+};
+
+// Intervalos cerrados por la izquierda; el último incluye también su extremo derecho
+export const binIndex = (edges: number[], value: number) => {
+  const last = edges.length - 1;
+  if (last < 1 || value < edges[0] || value > edges[last]) return -1;
+  if (value === edges[last]) return last - 1;
+  let low = 0;
+  let high = last - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (edges[middle] <= value) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+// Decimales justos para distinguir los cortes, sin arrastrar ruido de coma flotante
+const edgeDecimals = (edges: number[]) => {
+  const minStep = edges.slice(1).reduce((acc, edge, i) => Math.min(acc, edge - edges[i]), Infinity);
+  const needed = isFinite(minStep) && minStep > 0 ? Math.max(0, Math.ceil(-Math.log10(minStep)) + 1) : 0;
+  let decimals = 0;
+  while (decimals < Math.min(6, needed) && !edges.every(e => Math.abs(Number(e.toFixed(decimals)) - e) < 1e-9 * Math.max(1, Math.abs(e)))) {
+    decimals++;
+  }
+  return decimals;
+};
+
+export const binLabels = (edges: number[]) => {
+  const decimals = edgeDecimals(edges);
+  const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: decimals });
+  return edges.slice(0, -1).map((edge, i) => `${format(edge)} – ${format(edges[i + 1])}`);
+};
+
+// Núcleo gaussiano con el ancho de banda de Silverman; null si los datos no varían
+export const kernelDensity = (values: number[], points: number[]) => {
+  const n = values.length;
+  if (n < 2) return null;
+  const sorted = sortNumbers(values);
+  const sd = standardDeviation(values);
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const spread = iqr > 0 ? Math.min(sd, iqr / 1.34) : sd;
+  const bandwidth = 0.9 * spread * n ** -0.2;
+  if (!(bandwidth > 0)) return null;
+  const factor = 1 / (n * bandwidth * Math.sqrt(2 * Math.PI));
+  return points.map(x => factor * values.reduce((acc, v) => acc + Math.exp(-0.5 * ((x - v) / bandwidth) ** 2), 0));
+};
+
+export const DISTRIBUTION_QUANTILES = [0.05, 0.25, 0.75, 0.95];
+
+export interface DistributionSummary {
+  count: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  skewness: number;
+  kurtosis: number;
+  min: number;
+  max: number;
+  quantiles: { p: number; value: number }[];
+}
+
+export const summarizeDistribution = (values: number[]): DistributionSummary => {
+  const sorted = sortNumbers(values);
+  return {
+    count: values.length,
+    mean: mean(values),
+    median: quantile(sorted, 0.5),
+    stdDev: standardDeviation(values),
+    skewness: skewness(values),
+    kurtosis: kurtosis(values),
+    min: minimum(values),
+    max: maximum(values),
+    quantiles: DISTRIBUTION_QUANTILES.map(p => ({ p, value: quantile(sorted, p) }))
+  };
+};
+
+export const describeBinRule = ({ edges, rule }: BinLayout) => {
+  const description = HISTOGRAM_BIN_RULES.find(r => r.id === rule)?.description ?? rule;
+  const bins = Math.max(0, edges.length - 1);
+  return `${bins} ${bins === 1 ? 'intervalo' : 'intervalos'} según ${description}`;
+};
@@ -0,0 +1,308 @@
+/// <reference lib="webworker" />
+import * as XLSX from 'xlsx';
+import {
+  ColumnMetadata,
+  ColumnTypeIssue,
+  DataRow,
+  ImportReport,
+  ImportWarning,
+  ImportWorkerRequest,
+  ImportWorkerResponse,
+  NumberLocale,
+  SheetSelection,
+  SheetSummary
+} from '../types';
+import { coerceRow, inferColumn, toRawValue } from '../utils/dataParsing';
+import { CsvEncoding, createCsvParser, detectDelimiter, detectEncoding, normalizeHeaders } from '../utils/csvParser';
+import { NamedDataset, joinDatasets } from '../utils/workbookJoin';
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+const MAX_STORED_WARNINGS = 100;
+const SAMPLE_SIZE = 2000;
+const PREVIEW_SIZE = 20;
+const SHEET_PREVIEW_SIZE = 5;
+
+// Las filas quedan en bruto dentro del worker hasta que el analista confirma los tipos de columna
+let rawRows: DataRow[] = [];
+let headers: string[] = [];
+let workbook: XLSX.WorkBook | null = null;
+// Hojas que aún faltan por importar como conjuntos independientes
+let pendingSheets: { sheet: string; alias: string }[] = [];
+let datasetName: string | undefined;
+let report: ImportReport = { warnings: [], warningCount: 0, warningsByKind: {} };
+let chunkSize = 5000;
+let fileSize = 0;
+
+const post = (message: ImportWorkerResponse) => ctx.postMessage(message);
+
+const postProgress = (bytesRead: number) => {
+  post({ type: 'progress', phase: 'parsing', rowsParsed: rawRows.length, totalRows: 0, bytesRead, totalBytes: fileSize });
+};
+
+const addWarning = (warning: ImportWarning) => {
+  report.warningCount++;
+  report.warningsByKind[warning.kind] = (report.warningsByKind[warning.kind] ?? 0) + 1;
+  if (report.warnings.length < MAX_STORED_WARNINGS) report.warnings.push(warning);
+};
+
+const toRow = (columns: string[], values: unknown[]): DataRow => {
+  const row: DataRow = {};
+  columns.forEach((header, index) => {
+    row[header] = toRawValue(values[index]);
+  });
+  return row;
+};
+
+const parseCsv = async (file: File, forcedEncoding?: CsvEncoding): Promise<void> => {
+  const reader = file.stream().getReader();
+  let decoder: TextDecoder | null = null;
+  let parser: ReturnType<typeof createCsvParser> | null = null;
+  let bytesRead = 0;
+  let lastLine = 0;
+
+  const handleRecord = (fields: string[], line: number) => {
+    lastLine = line;
+    if (fields.length === 1 && fields[0] === '') return;
+    if (headers.length === 0) {
+      headers = normalizeHeaders(fields);
+      return;
+    }
+    // La fila se conserva: se completa con vacíos o se recortan los campos sobrantes
+    if (fields.length !== headers.length) {
+      const fix = fields.length < headers.length ? 'completada con vacíos' : `${fields.length - headers.length} campos sobrantes descartados`;
+      addWarning({
+        kind: 'fieldCount',
+        line,
+        row: rawRows.length + 1,
+        expected: headers.length,
+        found: fields.length,
+        message: `Línea ${line} (fila ${rawRows.length + 1}): se esperaban ${headers.length} campos y se encontraron ${fields.length}; ${fix}`
+      });
+    }
+    rawRows.push(toRow(headers, fields));
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytesRead += value.byteLength;
+
+      if (!decoder || !parser) {
+        const encoding = forcedEncoding ?? detectEncoding(value);
+        // El primer fragmento solo es una muestra: el resto se sigue validando como UTF-8
+        decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+        const text = decoder.decode(value, { stream: true });
+        const delimiter = detectDelimiter(text);
+        report.encoding = encoding;
+        report.delimiter = delimiter;
+        parser = createCsvParser({ delimiter, onRecord: handleRecord, onWarning: addWarning });
+        parser.push(text);
+      } else {
+        parser.push(decoder.decode(value, { stream: true }));
+      }
+
+      postProgress(bytesRead);
+    }
+
+    if (decoder && parser) {
+      parser.push(decoder.decode());
+      parser.end();
+    }
+  } catch (error) {
+    // Un byte que no es UTF-8 después de la muestra inicial: se relee el archivo completo como windows-1252
+    if (!(error instanceof TypeError) || report.encoding !== 'utf-8' || forcedEncoding) throw error;
+    await reader.cancel();
+    rawRows = [];
+    headers = [];
+    report = { warnings: [], warningCount: 0, warningsByKind: {} };
+    addWarning({
+      kind: 'encoding',
+      line: lastLine + 1,
+      message: `Se encontraron bytes que no son UTF-8 cerca de la línea ${lastLine + 1}; el archivo se ha leído como windows-1252`
+    });
+    return parseCsv(file, 'windows-1252');
+  }
+};
+
+const readSheet = (sheetName: string, alias: string): NamedDataset => {
+  const worksheet = workbook!.Sheets[sheetName];
+  const [headerRow = [], ...records] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', blankrows: false });
+  const sheetHeaders = normalizeHeaders(headerRow.map(h => String(h ?? '')));
+  return { name: alias, headers: sheetHeaders, rows: records.map(values => toRow(sheetHeaders, values)) };
+};
+
+const summarizeSheet = (sheetName: string): SheetSummary => {
+  const worksheet = workbook!.Sheets[sheetName];
+  if (!worksheet['!ref']) return { name: sheetName, rowCount: 0, columnCount: 0, headers: [], preview: [] };
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const previewRange = { s: range.s, e: { r: Math.min(range.e.r, range.s.r + SHEET_PREVIEW_SIZE), c: range.e.c } };
+  const [headerRow = [], ...records] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', range: previewRange });
+
+  return {
+    name: sheetName,
+    rowCount: range.e.r - range.s.r,
+    columnCount: range.e.c - range.s.c + 1,
+    headers: normalizeHeaders(headerRow.map(h => String(h ?? ''))),
+    preview: records.map(values => values.map(toRawValue))
+  };
+};
+
+const parseExcel = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  postProgress(file.size);
+
+  workbook = XLSX.read(new Uint8Array(buffer), { type: 'array', cellDates: true });
+  if (workbook.SheetNames.length > 1) {
+    // El analista elige qué hojas importar y cómo unirlas antes de continuar
+    post({ type: 'workbook', sheets: workbook.SheetNames.map(summarizeSheet) });
+    return false;
+  }
+
+  const sheet = readSheet(workbook.SheetNames[0], workbook.SheetNames[0]);
+  headers = sheet.headers;
+  rawRows = sheet.rows;
+  workbook = null;
+  return true;
+};
+
+const loadNextSheet = () => {
+  const next = pendingSheets.shift()!;
+  report = { warnings: [], warningCount: 0, warningsByKind: {} };
+  const sheet = readSheet(next.sheet, next.alias);
+  headers = sheet.headers;
+  rawRows = sheet.rows;
+  datasetName = next.alias;
+  if (pendingSheets.length === 0) workbook = null;
+  publishParsed();
+};
+
+const selectSheets = (selection: SheetSelection) => {
+  if (selection.mode === 'separate') {
+    pendingSheets = [selection.base, ...selection.joins.map(({ sheet, alias }) => ({ sheet, alias }))];
+    loadNextSheet();
+    return;
+  }
+
+  const base = readSheet(selection.base.sheet, selection.base.alias);
+  const joins = selection.joins.map(join => ({
+    dataset: readSheet(join.sheet, join.alias),
+    baseKey: join.baseKey,
+    key: join.sheetKey,
+    type: join.type
+  }));
+
+  const joined = joinDatasets(base, joins, (dataset, key, rowIndex) => {
+    addWarning({
+      kind: 'duplicateKey',
+      line: rowIndex + 2,
+      message: `Hoja ${dataset.name}, fila ${rowIndex + 2}: clave duplicada "${key}" (se conserva la primera)`
+    });
+  });
+  headers = joined.headers;
+  rawRows = joined.rows;
+  datasetName = selection.base.alias;
+  workbook = null;
+  publishParsed();
+};
+
+const collectSamples = () => {
+  const samples: (string | number)[][] = headers.map(() => []);
+  for (const row of rawRows) {
+    let complete = true;
+    headers.forEach((header, index) => {
+      const value = row[header];
+      if (samples[index].length >= SAMPLE_SIZE) return;
+      complete = false;
+      if (value !== '' && value !== undefined) samples[index].push(value);
+    });
+    if (complete) break;
+  }
+  return samples;
+};
+
+const publishParsed = () => {
+  if (headers.length === 0 || rawRows.length === 0) throw new Error('Archivo insuficiente');
+
+  // Los CSV delimitados por punto y coma suelen venir de un Excel en español
+  const fallbackLocale: NumberLocale = report.delimiter === ';' ? 'es-ES' : 'en-US';
+  const samples = collectSamples();
+  const columns = headers.map((header, index) => inferColumn(header, samples[index], fallbackLocale));
+
+  post({ type: 'parsed', rowCount: rawRows.length, report, columns, preview: rawRows.slice(0, PREVIEW_SIZE), datasetName });
+};
+
+const start = async (file: File) => {
+  rawRows = [];
+  headers = [];
+  workbook = null;
+  pendingSheets = [];
+  datasetName = undefined;
+  report = { warnings: [], warningCount: 0, warningsByKind: {} };
+  fileSize = file.size;
+  const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
+
+  if (isExcel) {
+    const ready = await parseExcel(file);
+    if (!ready) return;
+  } else {
+    await parseCsv(file);
+  }
+  publishParsed();
+};
+
+const MAX_TYPE_EXAMPLES = 3;
+
+const finalize = (columns: ColumnMetadata[]) => {
+  const totalRows = rawRows.length;
+  const typeIssues: ColumnTypeIssue[] = columns.map(column => ({ column: column.name, invalid: 0, examples: [] }));
+  // Un valor no vacío que se convierte en vacío no encajaba en el tipo de la columna
+  const coerceTracked = (raw: DataRow) => {
+    const row = coerceRow(raw, columns);
+    columns.forEach((column, index) => {
+      const value = raw[column.name];
+      if (row[column.name] !== '' || value === undefined || value === '') return;
+      const issue = typeIssues[index];
+      issue.invalid++;
+      if (issue.examples.length < MAX_TYPE_EXAMPLES && !issue.examples.includes(String(value))) issue.examples.push(String(value));
+    });
+    return row;
+  };
+  for (let offset = 0; offset < totalRows; offset += chunkSize) {
+    const rows = rawRows.slice(offset, offset + chunkSize).map(coerceTracked);
+    post({ type: 'chunk', rows });
+    post({
+      type: 'progress',
+      phase: 'converting',
+      rowsParsed: offset + rows.length,
+      totalRows,
+      bytesRead: fileSize,
+      totalBytes: fileSize
+    });
+  }
+  rawRows = [];
+  post({ type: 'done', rowCount: totalRows, typeIssues: typeIssues.filter(issue => issue.invalid > 0), remainingSheets: pendingSheets.length });
+  if (pendingSheets.length > 0) loadNextSheet();
+};
+
+ctx.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'start':
+        chunkSize = request.chunkSize;
+        await start(request.file);
+        break;
+      case 'selectSheets':
+        selectSheets(request.selection);
+        break;
+      case 'finalize':
+        finalize(request.columns);
+        break;
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,189 @@
+import { ColumnMetadata, ComparisonDataset, DataRow, KpiAggregation, KpiBaseline, KpiDefinition } from '../types';
+import { evaluateExpression, expressionToNumber, ExpressionNode, parseExpression } from './expression';
+import { blankCount, distinctCount, maximum, mean, median, minimum, numericValues, quantile, sortNumbers, standardDeviation, sum } from './statistics';
+
+export interface KpiValue {
+  label: string;
+  value: number;
+  baseline?: number;
+  baselineLabel?: string;
+  error?: string;
+}
+
+export interface KpiSources {
+  data: DataRow[];
+  metadata: ColumnMetadata[];
+  comparison?: ComparisonDataset | null;
+  unfiltered?: DataRow[];
+}
+
+export const KPI_AGGREGATIONS: { id: KpiAggregation; label: string; numeric: boolean }[] = [
+  { id: 'count', label: 'Recuento', numeric: false },
+  { id: 'sum', label: 'Suma', numeric: true },
+  { id: 'mean', label: 'Promedio', numeric: true },
+  { id: 'median', label: 'Mediana', numeric: true },
+  { id: 'percentile', label: 'Percentil', numeric: true },
+  { id: 'stdDev', label: 'Desv. Estándar', numeric: true },
+  { id: 'min', label: 'Mínimo', numeric: true },
+  { id: 'max', label: 'Máximo', numeric: true },
+  { id: 'distinct', label: 'Valores Únicos', numeric: false },
+  { id: 'nulls', label: 'Valores Vacíos', numeric: false },
+  { id: 'formula', label: 'Fórmula', numeric: false }
+];
+
+export const KPI_BASELINES: { id: KpiBaseline; label: string }[] = [
+  { id: 'none', label: 'Sin referencia' },
+  { id: 'comparison', label: 'Conjunto de comparación' },
+  { id: 'unfiltered', label: 'Datos sin filtrar' },
+  { id: 'target', label: 'Valor objetivo' }
+];
+
+// Nombres admitidos dentro de las fórmulas personalizadas
+const FORMULA_AGGREGATIONS: Record<string, KpiAggregation> = {
+  count: 'count',
+  sum: 'sum',
+  mean: 'mean',
+  avg: 'mean',
+  median: 'median',
+  percentile: 'percentile',
+  stddev: 'stdDev',
+  min: 'min',
+  max: 'max',
+  distinct: 'distinct',
+  nulls: 'nulls'
+};
+
+export const createKpiId = () => Math.random().toString(36).slice(2, 10);
+
+export const createKpiDefinition = (metadata: ColumnMetadata[], overrides: Partial<KpiDefinition> = {}): KpiDefinition => ({
+  id: createKpiId(),
+  label: '',
+  column: metadata.find(m => m.type === 'number')?.name ?? '',
+  aggregation: 'mean',
+  percentile: 90,
+  formula: '',
+  baseline: 'comparison',
+  target: 0,
+  ...overrides
+});
+
+// Disposición inicial: recuento y resumen de la primera columna numérica
+export const createDefaultKpiDefinitions = (metadata: ColumnMetadata[]): KpiDefinition[] => {
+  const total = createKpiDefinition(metadata, { aggregation: 'count', column: '', label: 'Total Registros' });
+  const mainCol = metadata.find(m => m.type === 'number')?.name;
+  if (!mainCol) return [total];
+  return [
+    total,
+    createKpiDefinition(metadata, { aggregation: 'mean', column: mainCol }),
+    createKpiDefinition(metadata, { aggregation: 'max', column: mainCol, label: 'Valor Máximo' }),
+    createKpiDefinition(metadata, { aggregation: 'min', column: mainCol, label: 'Valor Mínimo' })
+  ];
+};
+
+export const kpiLabel = (definition: KpiDefinition) => {
+  if (definition.label.trim()) return definition.label.trim();
+  const { aggregation, column, percentile, formula } = definition;
+  if (aggregation === 'formula') return formula.trim() || 'Fórmula';
+  if (aggregation === 'count' && !column) return 'Total Registros';
+  const name = aggregation === 'percentile'
+    ? `Percentil ${percentile}`
+    : KPI_AGGREGATIONS.find(a => a.id === aggregation)?.label ?? aggregation;
+  return `${name} (${column})`;
+};
+
+export const aggregateColumn = (rows: DataRow[], column: string, aggregation: KpiAggregation, percentile = 50): number => {
+  switch (aggregation) {
+    case 'count': return column ? rows.length - blankCount(rows, column) : rows.length;
+    case 'distinct': return distinctCount(rows, column);
+    case 'nulls': return blankCount(rows, column);
+    case 'sum': return sum(numericValues(rows, column));
+    case 'mean': return mean(numericValues(rows, column));
+    case 'median': return median(numericValues(rows, column));
+    case 'percentile': return quantile(sortNumbers(numericValues(rows, column)), percentile / 100);
+    case 'stdDev': return standardDeviation(numericValues(rows, column));
+    case 'min': return minimum(numericValues(rows, column));
+    case 'max': return maximum(numericValues(rows, column));
+    default: return NaN;
+  }
+};
+
+const resolveColumn = (node: ExpressionNode | undefined, metadata: ColumnMetadata[]) => {
+  if (!node || (node.type !== 'identifier' && node.type !== 'string')) {
+    throw new Error('Las agregaciones necesitan una columna como primer argumento');
+  }
+  const name = node.type === 'identifier' ? node.name : node.value;
+  const column = metadata.find(m => m.name === name) ?? metadata.find(m => m.name.toLowerCase() === name.toLowerCase());
+  if (!column) throw new Error(`Columna desconocida: ${name}`);
+  return column.name;
+};
+
+// Fórmulas sobre agregados, p. ej. sum(puntos) / distinct(equipo); nunca se usa eval
+export const evaluateKpiFormula = (formula: string, rows: DataRow[], metadata: ColumnMetadata[]): number => {
+  if (!formula.trim()) throw new Error('Escriba una fórmula');
+  const result = evaluateExpression(parseExpression(formula), {
+    identifier: name => {
+      throw new Error(`"${name}" debe ir dentro de una agregación, p. ej. mean(${name})`);
+    },
+    call: (name, args, evaluate) => {
+      const aggregation = FORMULA_AGGREGATIONS[name];
+      if (aggregation) {
+        if (aggregation === 'count' && args.length === 0) return rows.length;
+        const column = resolveColumn(args[0], metadata);
+        let percentile = 50;
+        if (aggregation === 'percentile') {
+          const p = args[1] ? expressionToNumber(evaluate(args[1])) : null;
+          if (p === null || p < 0 || p > 100) throw new Error('percentile(columna, p) necesita un percentil entre 0 y 100');
+          percentile = p;
+        }
+        const value = aggregateColumn(rows, column, aggregation, percentile);
+        return isFinite(value) ? value : null;
+      }
+      if (!['abs', 'sqrt', 'round'].includes(name)) throw new Error(`Función desconocida: ${name}`);
+      const values = args.map(arg => expressionToNumber(evaluate(arg)));
+      if (values.some(v => v === null)) return null;
+      const [x, digits] = values as number[];
+      switch (name) {
+        case 'abs': return Math.abs(x);
+        case 'sqrt': return x < 0 ? null : Math.sqrt(x);
+        default: {
+          const factor = Math.pow(10, digits ?? 0);
+          return Math.round(x * factor) / factor;
+        }
+      }
+    }
+  });
+  return expressionToNumber(result) ?? NaN;
+};
+
+export const computeKpi = (definition: KpiDefinition, rows: DataRow[], metadata: ColumnMetadata[]) =>
+  definition.aggregation === 'formula'
+    ? evaluateKpiFormula(definition.formula, rows, metadata)
+    : aggregateColumn(rows, definition.column, definition.aggregation, definition.percentile);
+
+export const evaluateKpis = (definitions: KpiDefinition[], { data, metadata, comparison, unfiltered }: KpiSources): KpiValue[] =>
+  definitions.map(definition => {
+    const label = kpiLabel(definition);
+    try {
+      const kpi: KpiValue = { label, value: computeKpi(definition, data, metadata) };
+      if (definition.baseline === 'comparison' && comparison) {
+        kpi.baseline = computeKpi(definition, comparison.data, metadata);
+        kpi.baselineLabel = comparison.name;
+      } else if (definition.baseline === 'unfiltered' && unfiltered) {
+        kpi.baseline = computeKpi(definition, unfiltered, metadata);
+        kpi.baselineLabel = 'Sin filtros';
+      } else if (definition.baseline === 'target') {
+        kpi.baseline = definition.target;
+        kpi.baselineLabel = 'Objetivo';
+      }
+      return kpi;
+    } catch (err) {
+      return { label, value: NaN, error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+export const formatKpiValue = (value: number) =>
+  isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '—';
+
+// Variación porcentual frente a la línea base, o null si no es calculable
+export const kpiDelta = ({ value, baseline }: KpiValue) =>
+  baseline !== undefined && isFinite(baseline) && isFinite(value) && baseline !== 0 ? ((value - baseline) / Math.abs(baseline)) * 100 : null;
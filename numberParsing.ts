@@ -0,0 +1,88 @@
+import { NumberLocale } from '../types';
+
+export interface ParsedNumber {
+  value: number;
+  unit: string | null;
+}
+
+const PATTERNS: Record<NumberLocale, RegExp[]> = {
+  'es-ES': [/^\d{1,3}(\.\d{3})+(,\d+)?$/, /^\d{1,3}( \d{3})+(,\d+)?$/, /^\d*,\d+$/, /^\d+$/],
+  'en-US': [/^\d{1,3}(,\d{3})+(\.\d+)?$/, /^\d{1,3}( \d{3})+(\.\d+)?$/, /^\d*\.\d+$/, /^\d+$/]
+};
+
+export const splitUnit = (raw: string): { body: string; unit: string | null; negative: boolean } => {
+  let body = raw.trim();
+  let unit: string | null = null;
+  let negative = false;
+
+  if (/^\(.*\)$/.test(body)) {
+    negative = true;
+    body = body.slice(1, -1).trim();
+  }
+  if (/^[-+]/.test(body)) {
+    negative = negative || body[0] === '-';
+    body = body.slice(1).trim();
+  }
+
+  const prefix = body.match(/^([€$£])\s*/);
+  if (prefix) {
+    unit = prefix[1];
+    body = body.slice(prefix[0].length);
+  }
+  const suffix = body.match(/\s*([€$£%])$/);
+  if (suffix) {
+    unit = suffix[1];
+    body = body.slice(0, -suffix[0].length);
+  }
+  if (/^-/.test(body)) {
+    negative = true;
+    body = body.slice(1);
+  }
+
+  return { body, unit, negative };
+};
+
+export const parseLocaleNumber = (raw: string | number, locale: NumberLocale): ParsedNumber | null => {
+  if (typeof raw === 'number') return isNaN(raw) ? null : { value: raw, unit: null };
+
+  const { body, unit, negative } = splitUnit(raw);
+  if (body === '' || !PATTERNS[locale].some(pattern => pattern.test(body))) return null;
+
+  const [thousands, decimal] = locale === 'es-ES' ? ['.', ','] : [',', '.'];
+  const normalized = body.split(thousands).join('').replace(/ /g, '').replace(decimal, '.');
+  const value = parseFloat(normalized);
+  if (isNaN(value)) return null;
+
+  return { value: negative ? -value : value, unit };
+};
+
+// Devuelve el locale que sugiere un valor aislado, o null si es ambiguo (p. ej. "1.234")
+const voteLocale = (raw: string): NumberLocale | null => {
+  const { body } = splitUnit(raw);
+  const lastDot = body.lastIndexOf('.');
+  const lastComma = body.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) return lastComma > lastDot ? 'es-ES' : 'en-US';
+  if (lastComma >= 0) {
+    if (/^\d{1,3}(,\d{3}){2,}$/.test(body)) return 'en-US';
+    return /^\d{1,3},\d{3}$/.test(body) ? null : 'es-ES';
+  }
+  if (lastDot >= 0) {
+    if (/^\d{1,3}(\.\d{3}){2,}$/.test(body)) return 'es-ES';
+    return /^\d{1,3}\.\d{3}$/.test(body) ? null : 'en-US';
+  }
+  return null;
+};
+
+export const detectNumberLocale = (values: (string | number)[]): NumberLocale | null => {
+  let es = 0;
+  let en = 0;
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const vote = voteLocale(value);
+    if (vote === 'es-ES') es++;
+    if (vote === 'en-US') en++;
+  });
+  if (es === 0 && en === 0) return null;
+  return es > en ? 'es-ES' : 'en-US';
+};
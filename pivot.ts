@@ -0,0 +1,149 @@
+import { ChartAggregation, DataRow, PivotConfig, PivotDrillThrough, PivotValueField } from '../types';
+import { aggregateValues, aggregationLabel } from './aggregation';
+import { isBlank } from './statistics';
+
+export const BLANK_LABEL = 'N/A';
+export const MAX_PIVOT_COLUMNS = 60;
+
+export const createPivotConfig = (): PivotConfig => ({
+  rows: [],
+  columns: [],
+  values: [],
+  showSubtotals: true,
+  showGrandTotals: true
+});
+
+export const createPivotValueField = (column: string, aggregation: ChartAggregation): PivotValueField => ({
+  id: Math.random().toString(36).slice(2, 10),
+  column,
+  aggregation
+});
+
+export const pivotValueLabel = (field: PivotValueField) => `${aggregationLabel(field.aggregation)} de ${field.column}`;
+
+export interface PivotRowNode {
+  key: string;
+  path: string[];
+  children: PivotRowNode[];
+}
+
+export interface PivotTable {
+  rowTree: PivotRowNode[];
+  columnKeys: string[][];
+  // Combinaciones de columnas que no caben en la vista
+  hiddenColumns: number;
+  // Agrega las filas de la intersección; `columnKey` null es el total de la fila
+  aggregate: (rowPath: string[], columnKey: string[] | null, field: PivotValueField | null) => number;
+  rowCount: (rowPath: string[], columnKey: string[] | null) => number;
+}
+
+const SEPARATOR = '\u0001';
+const TOTAL_KEY = '\u0002total';
+
+const cellLabel = (value: string | number | undefined) => isBlank(value) ? BLANK_LABEL : String(value);
+
+const labelCollator = new Intl.Collator('es', { sensitivity: 'base', numeric: true });
+
+const compareLabels = (a: string, b: string) => {
+  if (a === BLANK_LABEL) return b === BLANK_LABEL ? 0 : 1;
+  if (b === BLANK_LABEL) return -1;
+  return labelCollator.compare(a, b);
+};
+
+const comparePaths = (a: string[], b: string[]) => {
+  for (let i = 0; i < a.length; i++) {
+    const diff = compareLabels(a[i], b[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+// Árbol de grupos a partir de las rutas completas, ordenado por etiqueta en cada nivel
+const buildRowTree = (paths: string[][]) => {
+  const roots: PivotRowNode[] = [];
+  const nodes = new Map<string, PivotRowNode>();
+  paths.sort(comparePaths).forEach(path => {
+    let siblings = roots;
+    path.forEach((_, depth) => {
+      const prefix = path.slice(0, depth + 1);
+      const key = prefix.join(SEPARATOR);
+      let node = nodes.get(key);
+      if (!node) {
+        node = { key, path: prefix, children: [] };
+        nodes.set(key, node);
+        siblings.push(node);
+      }
+      siblings = node.children;
+    });
+  });
+  return roots;
+};
+
+/**
+ * Cada fila de datos se reparte en todos los niveles de subtotal de su ruta, de modo que
+ * los subtotales y totales se agregan sobre los valores originales y no sobre resultados
+ * parciales (el promedio de un grupo es el promedio real de sus filas).
+ */
+export const buildPivotTable = (rows: DataRow[], config: PivotConfig): PivotTable => {
+  const buckets = new Map<string, number[]>();
+  const rowPaths = new Map<string, string[]>();
+  const columnPaths = new Map<string, string[]>();
+
+  const add = (key: string, index: number) => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(index);
+    else buckets.set(key, [index]);
+  };
+
+  rows.forEach((row, index) => {
+    const rowPath = config.rows.map(column => cellLabel(row[column]));
+    const columnPath = config.columns.map(column => cellLabel(row[column]));
+    const columnKey = columnPath.join(SEPARATOR);
+    rowPaths.set(rowPath.join(SEPARATOR), rowPath);
+    columnPaths.set(columnKey, columnPath);
+    for (let depth = 0; depth <= rowPath.length; depth++) {
+      const prefix = rowPath.slice(0, depth).join(SEPARATOR);
+      add(`${prefix}${SEPARATOR}${TOTAL_KEY}`, index);
+      if (config.columns.length > 0) add(`${prefix}${SEPARATOR}${TOTAL_KEY}${columnKey}`, index);
+    }
+  });
+
+  const allColumns = config.columns.length > 0 ? Array.from(columnPaths.values()).sort(comparePaths) : [];
+  const indexesFor = (rowPath: string[], columnKey: string[] | null) =>
+    buckets.get(`${rowPath.join(SEPARATOR)}${SEPARATOR}${TOTAL_KEY}${columnKey ? columnKey.join(SEPARATOR) : ''}`) ?? [];
+
+  return {
+    rowTree: config.rows.length > 0 ? buildRowTree(Array.from(rowPaths.values())) : [],
+    columnKeys: allColumns.slice(0, MAX_PIVOT_COLUMNS),
+    hiddenColumns: Math.max(0, allColumns.length - MAX_PIVOT_COLUMNS),
+    aggregate: (rowPath, columnKey, field) => {
+      const indexes = indexesFor(rowPath, columnKey);
+      if (!field) return indexes.length;
+      if (indexes.length === 0) return NaN;
+      return aggregateValues(indexes.map(i => rows[i][field.column]), field.aggregation);
+    },
+    rowCount: (rowPath, columnKey) => indexesFor(rowPath, columnKey).length
+  };
+};
+
+export const pivotDrillThrough = (config: PivotConfig, rowPath: string[], columnKey: string[] | null): PivotDrillThrough => {
+  const criteria = [
+    ...rowPath.map((value, i) => ({ column: config.rows[i], value })),
+    ...(columnKey ?? []).map((value, i) => ({ column: config.columns[i], value }))
+  ];
+  return {
+    label: criteria.length > 0 ? criteria.map(c => `${c.column} = ${c.value}`).join(' · ') : 'Total general',
+    criteria
+  };
+};
+
+export const matchesDrillThrough = (row: DataRow, drill: PivotDrillThrough) =>
+  drill.criteria.every(({ column, value }) => cellLabel(row[column]) === value);
+
+// Quita de la configuración las columnas que ya no existen en el conjunto
+export const sanitizePivotConfig = (config: PivotConfig, columnNames: string[]): PivotConfig => ({
+  ...config,
+  rows: config.rows.filter(name => columnNames.includes(name)),
+  columns: config.columns.filter(name => columnNames.includes(name)),
+  values: config.values.filter(field => columnNames.includes(field.column))
+});
@@ -0,0 +1,184 @@
+import { ColumnMetadata, DataRow, UserProfile } from '../types';
+import { KpiValue, formatKpiValue, kpiDelta } from '../utils/kpis';
+import { formatDate } from '../utils/dateParsing';
+import { downloadBlob } from '../utils/dataExport';
+import { maximum, mean, minimum } from '../utils/statistics';
+
+export interface ReportChart {
+  title: string;
+  svg: string;
+}
+
+export interface ReportContent {
+  title: string;
+  profile: UserProfile;
+  datasetName?: string;
+  comparisonName?: string;
+  generatedAt: Date;
+  filters: string[];
+  kpis: KpiValue[];
+  charts: ReportChart[];
+  table: {
+    metadata: ColumnMetadata[];
+    rows: DataRow[];
+    totalRows: number;
+    sampleSize: number;
+  } | null;
+}
+
+const MAX_TABLE_COLUMNS = 8;
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatCell = (value: string | number | undefined, column: ColumnMetadata) => {
+  if (value === undefined || value === '') return '-';
+  if (column.type === 'number') return `${Number(value).toLocaleString()}${column.unit ? ` ${column.unit}` : ''}`;
+  if (column.type === 'date') return formatDate(value);
+  return String(value);
+};
+
+const numericStats = (rows: DataRow[], column: string) => {
+  const values = rows.map(r => r[column]).filter((v): v is number => typeof v === 'number');
+  if (values.length === 0) return null;
+  return {
+    count: values.length,
+    mean: mean(values),
+    min: minimum(values),
+    max: maximum(values)
+  };
+};
+
+const STYLES = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111827; margin: 0; padding: 32px; }
+  .sans { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; }
+  header { display: flex; gap: 24px; align-items: center; border-bottom: 4px solid #d4af37; padding-bottom: 24px; margin-bottom: 24px; }
+  header img { width: 80px; height: 104px; object-fit: cover; border-radius: 8px; border: 2px solid #f3e7bf; }
+  .eyebrow { font-size: 10px; font-weight: 900; letter-spacing: 0.25em; text-transform: uppercase; color: #b8941f; margin: 0 0 4px; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 0 0 12px; }
+  .muted { color: #6b7280; font-size: 12px; margin: 0; }
+  section { margin-bottom: 28px; page-break-inside: avoid; break-inside: avoid; }
+  .filters { background: #f8f9fa; border-left: 4px solid #1e3a8a; padding: 12px 16px; font-size: 12px; }
+  .filters span { display: inline-block; margin: 2px 6px 2px 0; padding: 2px 8px; border-radius: 6px; background: #fff; border: 1px solid #e5e7eb; }
+  .kpis { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .kpi { border: 1px solid #e5e7eb; border-radius: 12px; padding: 12px; }
+  .kpi p { margin: 0; }
+  .kpi .label { font-size: 9px; font-weight: 900; letter-spacing: 0.15em; text-transform: uppercase; color: #9ca3af; }
+  .kpi .value { font-size: 20px; font-weight: bold; margin-top: 4px; }
+  .kpi .delta { font-size: 10px; color: #6b7280; margin-top: 4px; }
+  .up { color: #16a34a; } .down { color: #dc2626; }
+  .chart { border: 1px solid #e5e7eb; border-radius: 12px; padding: 12px; margin-bottom: 16px; }
+  .chart svg { width: 100%; height: auto; }
+  table { width: 100%; border-collapse: collapse; font-size: 10px; }
+  th { text-align: left; font-size: 9px; letter-spacing: 0.1em; text-transform: uppercase; color: #6b7280; border-bottom: 2px solid #e5e7eb; padding: 6px; }
+  td { border-bottom: 1px solid #f3f4f6; padding: 6px; }
+  footer { margin-top: 32px; font-size: 10px; color: #9ca3af; text-align: center; }
+  @media print { body { padding: 0; } }
+`;
+
+export const buildReportHtml = (report: ReportContent) => {
+  const { profile, table } = report;
+  const generated = report.generatedAt.toLocaleString('es-ES');
+
+  const header = `
+    <header>
+      ${profile.image ? `<img src="${escapeHtml(profile.image)}" alt="" />` : ''}
+      <div>
+        <p class="eyebrow sans">Analista Designado</p>
+        <h1>${escapeHtml(profile.fullName || 'Analista No Identificado')}</h1>
+        <p class="muted sans">${escapeHtml(profile.organization)}</p>
+        <p class="muted sans">${escapeHtml(report.title)}${report.datasetName ? ` · ${escapeHtml(report.datasetName)}` : ''} · ${generated}</p>
+      </div>
+    </header>`;
+
+  const filters = `
+    <section class="filters sans">
+      <strong>Filtros activos:</strong>
+      ${report.filters.length > 0 ? report.filters.map(f => `<span>${escapeHtml(f)}</span>`).join('') : 'Ninguno (conjunto completo)'}
+      ${report.comparisonName ? `<div style="margin-top:6px">Comparado con: <strong>${escapeHtml(report.comparisonName)}</strong></div>` : ''}
+    </section>`;
+
+  const kpis = report.kpis.length === 0 ? '' : `
+    <section>
+      <h2>Indicadores Clave</h2>
+      <div class="kpis sans">
+        ${report.kpis.map(kpi => {
+          const delta = kpiDelta(kpi);
+          return `<div class="kpi">
+            <p class="label">${escapeHtml(kpi.label)}</p>
+            <p class="value">${formatKpiValue(kpi.value)}</p>
+            ${kpi.baseline !== undefined && isFinite(kpi.baseline) ? `<p class="delta">${escapeHtml(kpi.baselineLabel ?? report.comparisonName ?? 'Base')}: ${formatKpiValue(kpi.baseline)}${delta !== null ? ` <span class="${delta >= 0 ? 'up' : 'down'}">${delta >= 0 ? '▲' : '▼'} ${Math.abs(delta).toFixed(1)}%</span>` : ''}</p>` : ''}
+          </div>`;
+        }).join('')}
+      </div>
+    </section>`;
+
+  const charts = report.charts.map(chart => `
+    <section class="chart">
+      <h2>${escapeHtml(chart.title)}</h2>
+      ${chart.svg}
+    </section>`).join('');
+
+  let tableSection = '';
+  if (table) {
+    const columns = table.metadata.slice(0, MAX_TABLE_COLUMNS);
+    const stats = table.metadata
+      .filter(m => m.type === 'number')
+      .map(m => ({ name: m.name, stats: numericStats(table.rows, m.name) }))
+      .filter(s => s.stats !== null);
+    tableSection = `
+    <section class="sans">
+      <h2 style="font-family: Georgia, serif">Resumen de la Tabla</h2>
+      <p class="muted">${table.rows.length.toLocaleString()} registros filtrados de ${table.totalRows.toLocaleString()}</p>
+      ${stats.length > 0 ? `<table style="margin: 12px 0 20px">
+        <thead><tr><th>Columna</th><th>Valores</th><th>Media</th><th>Mínimo</th><th>Máximo</th></tr></thead>
+        <tbody>${stats.map(({ name, stats: s }) => `<tr><td>${escapeHtml(name)}</td><td>${s!.count.toLocaleString()}</td><td>${formatKpiValue(s!.mean)}</td><td>${formatKpiValue(s!.min)}</td><td>${formatKpiValue(s!.max)}</td></tr>`).join('')}</tbody>
+      </table>` : ''}
+      ${table.sampleSize > 0 ? `<table>
+        <thead><tr>${columns.map(c => `<th>${escapeHtml(c.name)}</th>`).join('')}</tr></thead>
+        <tbody>${table.rows.slice(0, table.sampleSize).map(row => `<tr>${columns.map(c => `<td>${escapeHtml(formatCell(row[c.name], c))}</td>`).join('')}</tr>`).join('')}</tbody>
+      </table>
+      <p class="muted" style="margin-top:6px">Primeras ${Math.min(table.sampleSize, table.rows.length)} filas${table.metadata.length > MAX_TABLE_COLUMNS ? ` · ${MAX_TABLE_COLUMNS} de ${table.metadata.length} columnas` : ''}</p>` : ''}
+    </section>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(report.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${header}
+${filters}
+${kpis}
+${charts}
+${tableSection}
+<footer class="sans">Informe generado el ${generated}</footer>
+</body>
+</html>`;
+};
+
+export const downloadReportHtml = (html: string, fileName: string) => {
+  downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), fileName);
+};
+
+// Abre el informe en una ventana nueva y lanza el diálogo de impresión (permite guardar como PDF)
+export const printReport = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Se da tiempo a que se decodifiquen la foto y los SVG antes de imprimir
+  setTimeout(() => win.print(), 300);
+  return true;
+};
@@ -0,0 +1,162 @@
+import { DataRow, SavedRecipe, SessionRecord } from '../types';
+
+const DB_NAME = 'performance-debate-bp';
+const DB_VERSION = 2;
+const ROW_CHUNK_SIZE = 5000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Las bases creadas con una versión anterior conservan sus almacenes
+        if (!db.objectStoreNames.contains('sessions')) db.createObjectStore('sessions', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('rows')) {
+          const rows = db.createObjectStore('rows', { keyPath: ['datasetId', 'chunk'] });
+          rows.createIndex('datasetId', 'datasetId');
+          rows.createIndex('sessionId', 'sessionId');
+        }
+        // La imagen de perfil se guarda aparte para no duplicarla en cada escritura de la sesión
+        if (!db.objectStoreNames.contains('images')) db.createObjectStore('images', { keyPath: 'sessionId' });
+        // Las recetas de limpieza no pertenecen a ninguna sesión: sirven para cualquier importación
+        if (!db.objectStoreNames.contains('recipes')) db.createObjectStore('recipes', { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const yieldToMain = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const deleteByIndex = (store: IDBObjectStore, indexName: string, key: IDBValidKey) => {
+  const request = store.index(indexName).openKeyCursor(IDBKeyRange.only(key));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const db = await openDatabase();
+  const sessions = await requestResult<SessionRecord[]>(db.transaction('sessions').objectStore('sessions').getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (id: string): Promise<SessionRecord | undefined> => {
+  const db = await openDatabase();
+  return requestResult<SessionRecord | undefined>(db.transaction('sessions').objectStore('sessions').get(id));
+};
+
+export const saveSession = async (record: SessionRecord) => {
+  const db = await openDatabase();
+  const tx = db.transaction('sessions', 'readwrite');
+  tx.objectStore('sessions').put(record);
+  await transactionDone(tx);
+};
+
+export const renameSession = async (id: string, name: string) => {
+  const record = await getSession(id);
+  if (record) await saveSession({ ...record, name, updatedAt: Date.now() });
+};
+
+export const deleteSession = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(['sessions', 'rows', 'images'], 'readwrite');
+  tx.objectStore('sessions').delete(id);
+  tx.objectStore('images').delete(id);
+  deleteByIndex(tx.objectStore('rows'), 'sessionId', id);
+  await transactionDone(tx);
+};
+
+export const deleteDatasetRows = async (datasetId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction('rows', 'readwrite');
+  deleteByIndex(tx.objectStore('rows'), 'datasetId', datasetId);
+  await transactionDone(tx);
+};
+
+// Cada bloque de filas se escribe en su propia transacción y se cede el hilo entre bloques
+export const saveDatasetRows = async (sessionId: string, datasetId: string, rows: DataRow[]) => {
+  await deleteDatasetRows(datasetId);
+  const db = await openDatabase();
+  for (let chunk = 0; chunk * ROW_CHUNK_SIZE < rows.length; chunk++) {
+    const tx = db.transaction('rows', 'readwrite');
+    tx.objectStore('rows').put({
+      sessionId,
+      datasetId,
+      chunk,
+      rows: rows.slice(chunk * ROW_CHUNK_SIZE, (chunk + 1) * ROW_CHUNK_SIZE)
+    });
+    await transactionDone(tx);
+    await yieldToMain();
+  }
+};
+
+export const loadDatasetRows = async (datasetId: string): Promise<DataRow[]> => {
+  const db = await openDatabase();
+  const index = db.transaction('rows').objectStore('rows').index('datasetId');
+  const chunks = await requestResult<{ chunk: number; rows: DataRow[] }[]>(index.getAll(IDBKeyRange.only(datasetId)));
+  const rows: DataRow[] = [];
+  chunks.sort((a, b) => a.chunk - b.chunk).forEach(chunk => {
+    for (const row of chunk.rows) rows.push(row);
+  });
+  return rows;
+};
+
+export const saveProfileImage = async (sessionId: string, dataUrl: string | null) => {
+  const db = await openDatabase();
+  const tx = db.transaction('images', 'readwrite');
+  if (dataUrl) {
+    tx.objectStore('images').put({ sessionId, dataUrl });
+  } else {
+    tx.objectStore('images').delete(sessionId);
+  }
+  await transactionDone(tx);
+};
+
+export const loadProfileImage = async (sessionId: string): Promise<string | null> => {
+  const db = await openDatabase();
+  const record = await requestResult<{ dataUrl: string } | undefined>(db.transaction('images').objectStore('images').get(sessionId));
+  return record?.dataUrl ?? null;
+};
+
+export const listRecipes = async (): Promise<SavedRecipe[]> => {
+  const db = await openDatabase();
+  const recipes = await requestResult<SavedRecipe[]>(db.transaction('recipes').objectStore('recipes').getAll());
+  return recipes.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveRecipe = async (recipe: SavedRecipe) => {
+  const db = await openDatabase();
+  const tx = db.transaction('recipes', 'readwrite');
+  tx.objectStore('recipes').put(recipe);
+  await transactionDone(tx);
+};
+
+export const deleteRecipe = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction('recipes', 'readwrite');
+  tx.objectStore('recipes').delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,68 @@
+import { ColumnMetadata, DataRow, NullsPosition, SortConfig } from '../types';
+import { toTimestamp } from '../utils/dateParsing';
+
+type SortKey = number | string | null;
+
+const collator = new Intl.Collator('es', { sensitivity: 'base', numeric: true });
+
+// Valor comparable según el tipo de la columna; null representa una celda vacía o inválida
+const sortKeyFor = (value: string | number | undefined, column: ColumnMetadata | undefined): SortKey => {
+  if (value === undefined || value === null || value === '') return null;
+  if (column?.type === 'number') {
+    const num = typeof value === 'number' ? value : Number(value);
+    return isNaN(num) ? null : num;
+  }
+  if (column?.type === 'date') {
+    const time = toTimestamp(value);
+    return isNaN(time) ? null : time;
+  }
+  return String(value);
+};
+
+const compareKeys = (a: SortKey, b: SortKey): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return collator.compare(String(a), String(b));
+};
+
+// Ordena por varias columnas precalculando las claves de cada fila una sola vez
+export const sortRows = (rows: DataRow[], sortConfig: SortConfig[], metadata: ColumnMetadata[], nulls: NullsPosition): DataRow[] => {
+  if (sortConfig.length === 0) return rows;
+  const columns = sortConfig.map(({ key }) => metadata.find(m => m.name === key));
+  const decorated = rows.map((row, index) => ({
+    row,
+    index,
+    keys: sortConfig.map(({ key }, i) => sortKeyFor(row[key], columns[i]))
+  }));
+
+  decorated.sort((a, b) => {
+    for (let i = 0; i < sortConfig.length; i++) {
+      const aKey = a.keys[i];
+      const bKey = b.keys[i];
+      if (aKey === null || bKey === null) {
+        if (aKey === bKey) continue;
+        // Los vacíos mantienen su posición sin importar la dirección del orden
+        return (aKey === null ? -1 : 1) * (nulls === 'first' ? 1 : -1);
+      }
+      const diff = compareKeys(aKey, bKey);
+      if (diff !== 0) return sortConfig[i].direction === 'asc' ? diff : -diff;
+    }
+    return a.index - b.index;
+  });
+
+  return decorated.map(item => item.row);
+};
+
+// Clic: ordena solo por esa columna (asc → desc → sin orden). Mayús+clic: añade la columna o la rota dentro de la lista.
+export const nextSortConfig = (current: SortConfig[], key: string, additive: boolean): SortConfig[] => {
+  const existing = current.find(s => s.key === key);
+  const cycled: SortConfig | null = !existing
+    ? { key, direction: 'asc' }
+    : existing.direction === 'asc' ? { key, direction: 'desc' } : null;
+
+  if (!additive) {
+    if (current.length > 1 || !existing) return [{ key, direction: 'asc' }];
+    return cycled ? [cycled] : [];
+  }
+  if (!cycled) return current.filter(s => s.key !== key);
+  return existing ? current.map(s => s.key === key ? cycled : s) : [...current, cycled];
+};
@@ -0,0 +1,193 @@
+import { DataRow } from '../types';
+
+// Las columnas numéricas llegan ya convertidas; cualquier otro valor cuenta como vacío
+export const numericValues = (rows: DataRow[], column: string): number[] => {
+  const values: number[] = [];
+  for (const row of rows) {
+    const value = row[column];
+    if (typeof value === 'number' && isFinite(value)) values.push(value);
+  }
+  return values;
+};
+
+export const isBlank = (value: string | number | undefined) =>
+  value === undefined || value === null || String(value).trim() === '';
+
+export const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+export const mean = (values: number[]) => values.length === 0 ? NaN : sum(values) / values.length;
+
+// Interpolación lineal entre rangos (mismo criterio que Excel PERCENTIL.INC)
+export const quantile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const sortNumbers = (values: number[]) => [...values].sort((a, b) => a - b);
+
+export const median = (values: number[]) => quantile(sortNumbers(values), 0.5);
+
+// Desviación típica muestral (n - 1)
+export const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return NaN;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+// Evita Math.min(...values), que desborda la pila con cientos de miles de filas
+export const minimum = (values: number[]) => values.length === 0 ? NaN : values.reduce((acc, v) => v < acc ? v : acc, Infinity);
+
+export const maximum = (values: number[]) => values.length === 0 ? NaN : values.reduce((acc, v) => v > acc ? v : acc, -Infinity);
+
+export const distinctCount = (rows: DataRow[], column: string) => {
+  const seen = new Set<string | number>();
+  rows.forEach(row => {
+    if (!isBlank(row[column])) seen.add(row[column]);
+  });
+  return seen.size;
+};
+
+export const blankCount = (rows: DataRow[], column: string) =>
+  rows.reduce((acc, row) => acc + (isBlank(row[column]) ? 1 : 0), 0);
+
+// Coeficiente de Pearson sobre pares completos; null si alguna variable no varía
+export const pearsonCorrelation = (xs: number[], ys: number[]) => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// Mínimos cuadrados ordinarios: y = slope * x + intercept
+export const linearRegression = (xs: number[], ys: number[]) => {
+  const r = pearsonCorrelation(xs, ys);
+  if (r === null) return null;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < xs.length; i++) {
+    numerator += (xs[i] - meanX) * (ys[i] - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  }
+  const slope = numerator / denominator;
+  return { slope, intercept: meanY - slope * meanX, r2: r * r };
+};
+
+// Asimetría muestral ajustada (G1), mismo criterio que COEFICIENTE.ASIMETRIA de Excel
+export const skewness = (values: number[]) => {
+  const n = values.length;
+  const sd = standardDeviation(values);
+  if (n < 3 || !(sd > 0)) return NaN;
+  const avg = mean(values);
+  const cubes = values.reduce((acc, v) => acc + ((v - avg) / sd) ** 3, 0);
+  return (n / ((n - 1) * (n - 2))) * cubes;
+};
+
+// Curtosis en exceso (G2), mismo criterio que CURTOSIS de Excel: 0 para una normal
+export const kurtosis = (values: number[]) => {
+  const n = values.length;
+  const sd = standardDeviation(values);
+  if (n < 4 || !(sd > 0)) return NaN;
+  const avg = mean(values);
+  const fourths = values.reduce((acc, v) => acc + ((v - avg) / sd) ** 4, 0);
+  return (n * (n + 1) / ((n - 1) * (n - 2) * (n - 3))) * fourths - (3 * (n - 1) ** 2) / ((n - 2) * (n - 3));
+};
+
+// Resumen de Tukey: bigotes hasta el último valor dentro de 1,5 veces el rango intercuartílico
+export const boxSummary = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = sortNumbers(values);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lowerFence = q1 - 1.5 * iqr;
+  const upperFence = q3 + 1.5 * iqr;
+  const inside = sorted.filter(v => v >= lowerFence && v <= upperFence);
+  return {
+    min: inside[0],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    max: inside[inside.length - 1],
+    count: sorted.length,
+    outliers: sorted.filter(v => v < lowerFence || v > upperFence)
+  };
+};
+
+// Logaritmo de la función gamma (aproximación de Lanczos)
+const LANCZOS = [676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61503916999185, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  const z = x - 1;
+  const t = z + 7.5;
+  const series = LANCZOS.reduce((acc, c, i) => acc + c / (z + i + 1), 0.99999999999980993);
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(series);
+};
+
+// Gamma incompleta regularizada inferior P(a, x): serie para x pequeño, fracción continua en otro caso
+const regularizedGammaP = (a: number, x: number): number => {
+  if (x <= 0) return 0;
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let total = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(total) * 1e-15; n++) {
+      term *= x / (a + n);
+      total += term;
+    }
+    return total * Math.exp(logPrefix);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return 1 - Math.exp(logPrefix) * h;
+};
+
+// Probabilidad de observar un estadístico chi-cuadrado igual o mayor con los grados de libertad dados
+export const chiSquarePValue = (statistic: number, degreesOfFreedom: number) =>
+  degreesOfFreedom > 0 && isFinite(statistic) ? Math.min(1, Math.max(0, 1 - regularizedGammaP(degreesOfFreedom / 2, statistic / 2))) : NaN;
+
+// Prueba de independencia sobre una tabla de contingencia; se omiten filas y columnas vacías
+export const chiSquareTest = (table: number[][]) => {
+  const rowTotals = table.map(row => sum(row));
+  const columnTotals = (table[0] ?? []).map((_, j) => sum(table.map(row => row[j])));
+  const total = sum(rowTotals);
+  let statistic = 0;
+  table.forEach((row, i) => row.forEach((observed, j) => {
+    const expected = rowTotals[i] * columnTotals[j] / total;
+    if (expected > 0) statistic += (observed - expected) ** 2 / expected;
+  }));
+  const degreesOfFreedom = (rowTotals.filter(t => t > 0).length - 1) * (columnTotals.filter(t => t > 0).length - 1);
+  return { statistic, degreesOfFreedom, pValue: chiSquarePValue(statistic, degreesOfFreedom) };
+};
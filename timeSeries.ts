@@ -0,0 +1,95 @@
+import { ChartAggregation, DataRow, TimePeriod } from '../types';
+import { formatDate, toTimestamp } from '../utils/dateParsing';
+import { aggregateValues } from '../utils/aggregation';
+import { isBlank } from '../utils/statistics';
+
+export interface TimeSeriesPoint {
+  name: string;
+  time: number;
+  value: number;
+  rolling?: number;
+}
+
+interface TimeSeriesOptions {
+  dateColumn: string;
+  valueColumn: string;
+  period: TimePeriod;
+  roundColumn?: string;
+  aggregation?: ChartAggregation;
+}
+
+const DAY_MS = 86400000;
+
+const periodStart = (timestamp: number, period: TimePeriod): number => {
+  const date = new Date(timestamp);
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  switch (period) {
+    case 'week':
+      // Semanas ISO: comienzan en lunes
+      return dayStart - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+    default:
+      return dayStart;
+  }
+};
+
+const periodLabel = (start: number, period: TimePeriod): string => {
+  const iso = new Date(start).toISOString().slice(0, 10);
+  switch (period) {
+    case 'week':
+      return `Sem. ${formatDate(iso)}`;
+    case 'month':
+      return new Date(start).toLocaleDateString('es-ES', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+    default:
+      return formatDate(iso);
+  }
+};
+
+export const buildTimeSeries = (
+  data: DataRow[],
+  { dateColumn, valueColumn, period, roundColumn, aggregation = 'mean' }: TimeSeriesOptions
+): TimeSeriesPoint[] => {
+  const buckets = new Map<string, { name: string; time: number; cells: (string | number)[] }>();
+
+  data.forEach(row => {
+    const time = toTimestamp(row[dateColumn]);
+    // El recuento incluye filas sin valor; las demás agregaciones las descartan
+    if (isNaN(time) || (aggregation !== 'count' && isBlank(row[valueColumn]))) return;
+
+    let key: string;
+    let name: string;
+    let bucketTime: number;
+    if (period === 'round' && roundColumn) {
+      // Cada ronda se ubica en el tiempo por su primera fecha registrada
+      key = String(row[roundColumn] || 'N/A');
+      name = key;
+      bucketTime = time;
+    } else {
+      bucketTime = periodStart(time, period);
+      key = String(bucketTime);
+      name = periodLabel(bucketTime, period);
+    }
+
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.cells.push(row[valueColumn]);
+      bucket.time = Math.min(bucket.time, bucketTime);
+    } else {
+      buckets.set(key, { name, time: bucketTime, cells: [row[valueColumn]] });
+    }
+  });
+
+  return Array.from(buckets.values())
+    .sort((a, b) => a.time - b.time)
+    .map(bucket => ({ name: bucket.name, time: bucket.time, value: aggregateValues(bucket.cells, aggregation) }))
+    .filter(point => isFinite(point.value));
+};
+
+export const applyRollingAverage = (points: TimeSeriesPoint[], window: number): TimeSeriesPoint[] => {
+  if (window <= 1) return points;
+  return points.map((point, index) => {
+    const slice = points.slice(Math.max(0, index - window + 1), index + 1);
+    return { ...point, rolling: slice.reduce((acc, p) => acc + p.value, 0) / slice.length };
+  });
+};
@@ -0,0 +1,327 @@
+import { ColumnMetadata, DataRow, SavedRecipe, TextCase, TransformStep, TransformStepType } from '../types';
+import { dropColumn, excludeOutlierRows, removeBlankRows, removeDuplicateRows } from './dataQuality';
+import { addCalculatedColumn } from './formulas';
+import { isBlank, mean, median, numericValues } from './statistics';
+
+export interface DataTable {
+  data: DataRow[];
+  columns: ColumnMetadata[];
+}
+
+export interface RecipeResult extends DataTable {
+  applied: TransformStep[];
+  errors: { step: TransformStep; message: string }[];
+}
+
+export const TRANSFORM_STEP_LABELS: Record<TransformStepType, string> = {
+  rename: 'Renombrar columna',
+  trim: 'Recortar espacios',
+  case: 'Mayúsculas / minúsculas',
+  replace: 'Buscar y reemplazar',
+  split: 'Dividir columna',
+  merge: 'Unir columnas',
+  fill: 'Rellenar vacíos',
+  mapValues: 'Unificar valores',
+  dropDuplicates: 'Eliminar duplicados',
+  dropColumn: 'Eliminar columna',
+  removeBlankRows: 'Quitar filas vacías',
+  excludeOutliers: 'Excluir atípicos',
+  calculate: 'Columna calculada'
+};
+
+const CASE_LABELS: Record<TextCase, string> = {
+  lower: 'minúsculas',
+  upper: 'mayúsculas',
+  title: 'tipo título'
+};
+
+export const createStepId = () => Math.random().toString(36).slice(2, 10);
+
+const requireColumn = (table: DataTable, name: string) => {
+  const column = table.columns.find(c => c.name === name);
+  if (!column) throw new Error(`La columna "${name}" no existe`);
+  return column;
+};
+
+const requireFreeName = (table: DataTable, name: string, released: string[] = []) => {
+  if (!name.trim()) throw new Error('El nombre de la columna no puede estar vacío');
+  if (table.columns.some(c => c.name === name) && !released.includes(name)) throw new Error(`Ya existe una columna "${name}"`);
+};
+
+// Solo se tocan celdas de texto: los números ya convertidos se conservan
+const mapText = (table: DataTable, column: string, transform: (text: string) => string): DataTable => {
+  requireColumn(table, column);
+  return {
+    columns: table.columns,
+    data: table.data.map(row => {
+      const value = row[column];
+      if (typeof value !== 'string' || value === '') return row;
+      const next = transform(value);
+      return next === value ? row : { ...row, [column]: next };
+    })
+  };
+};
+
+export const applyCase = (text: string, mode: TextCase) => {
+  if (mode === 'lower') return text.toLocaleLowerCase('es');
+  if (mode === 'upper') return text.toLocaleUpperCase('es');
+  return text.toLocaleLowerCase('es').replace(/(^|[\s\-'(])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toLocaleUpperCase('es'));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Inserta columnas nuevas junto a la de referencia, opcionalmente sustituyéndolas
+const spliceColumns = (columns: ColumnMetadata[], anchor: string, added: ColumnMetadata[], removed: string[]) => {
+  const result: ColumnMetadata[] = [];
+  columns.forEach(column => {
+    if (!removed.includes(column.name)) result.push(column);
+    if (column.name === anchor) result.push(...added);
+  });
+  return result;
+};
+
+const withoutKeys = (row: DataRow, keys: string[]) => {
+  if (keys.length === 0) return row;
+  const next = { ...row };
+  keys.forEach(key => delete next[key]);
+  return next;
+};
+
+const fillValue = (table: DataTable, column: ColumnMetadata, step: Extract<TransformStep, { type: 'fill' }>): string | number | null => {
+  switch (step.strategy) {
+    case 'value': {
+      if (column.type !== 'number') return step.value;
+      const parsed = Number(step.value.replace(',', '.'));
+      if (step.value.trim() === '' || !isFinite(parsed)) throw new Error(`"${step.value}" no es un número válido para "${column.name}"`);
+      return parsed;
+    }
+    case 'mean':
+    case 'median': {
+      if (column.type !== 'number') throw new Error('La media y la mediana solo se aplican a columnas numéricas');
+      const values = numericValues(table.data, column.name);
+      const result = step.strategy === 'mean' ? mean(values) : median(values);
+      return isFinite(result) ? result : null;
+    }
+    case 'mode': {
+      const counts = new Map<string | number, number>();
+      table.data.forEach(row => {
+        const value = row[column.name];
+        if (!isBlank(value)) counts.set(value, (counts.get(value) ?? 0) + 1);
+      });
+      let best: string | number | null = null;
+      let bestCount = 0;
+      counts.forEach((count, value) => {
+        if (count > bestCount) {
+          best = value;
+          bestCount = count;
+        }
+      });
+      return best;
+    }
+    default:
+      return null;
+  }
+};
+
+export const applyStep = (table: DataTable, step: TransformStep): DataTable => {
+  switch (step.type) {
+    case 'rename': {
+      requireColumn(table, step.column);
+      requireFreeName(table, step.to);
+      return {
+        columns: table.columns.map(c => c.name === step.column ? { ...c, name: step.to } : c),
+        data: table.data.map(row => withoutKeys({ ...row, [step.to]: row[step.column] }, [step.column]))
+      };
+    }
+    case 'trim':
+      return mapText(table, step.column, text => text.trim().replace(/\s+/g, ' '));
+    case 'case':
+      return mapText(table, step.column, text => applyCase(text, step.mode));
+    case 'replace': {
+      if (!step.find) throw new Error('Indique el texto a buscar');
+      if (step.wholeCell) {
+        const target = step.matchCase ? step.find : step.find.toLocaleLowerCase('es');
+        return mapText(table, step.column, text => (step.matchCase ? text : text.toLocaleLowerCase('es')) === target ? step.replace : text);
+      }
+      const pattern = new RegExp(escapeRegExp(step.find), step.matchCase ? 'g' : 'gi');
+      return mapText(table, step.column, text => text.replace(pattern, () => step.replace));
+    }
+    case 'split': {
+      requireColumn(table, step.column);
+      if (!step.delimiter) throw new Error('Indique el separador');
+      if (step.into.length === 0) throw new Error('Indique al menos una columna de destino');
+      const released = step.keepOriginal ? [] : [step.column];
+      step.into.forEach((name, i) => {
+        requireFreeName(table, name, released);
+        if (step.into.indexOf(name) !== i) throw new Error(`La columna "${name}" está repetida`);
+      });
+      const added = step.into.map(name => ({ name, type: 'string' as const }));
+      return {
+        columns: spliceColumns(table.columns, step.column, added, released),
+        data: table.data.map(row => {
+          const value = row[step.column];
+          const parts = isBlank(value) ? [] : String(value).split(step.delimiter).map(part => part.trim());
+          // Lo que sobra tras la última columna de destino se conserva unido en ella
+          const cells = step.into.map((_, i) => i === step.into.length - 1 ? parts.slice(i).join(step.delimiter) : parts[i] ?? '');
+          const next = withoutKeys(row, released);
+          return Object.assign({ ...next }, ...step.into.map((name, i) => ({ [name]: cells[i] })));
+        })
+      };
+    }
+    case 'merge': {
+      if (step.columns.length < 2) throw new Error('Seleccione al menos dos columnas');
+      step.columns.forEach(name => requireColumn(table, name));
+      const released = step.keepOriginal ? [] : step.columns;
+      requireFreeName(table, step.into, released);
+      return {
+        columns: spliceColumns(table.columns, step.columns[0], [{ name: step.into, type: 'string' }], released)
+          // Si el destino reutiliza el nombre de la primera columna, evita duplicarla
+          .filter((c, i, all) => all.findIndex(other => other.name === c.name) === i),
+        data: table.data.map(row => {
+          const merged = step.columns.map(name => row[name]).filter(value => !isBlank(value)).map(String).join(step.separator);
+          return { ...withoutKeys(row, released), [step.into]: merged };
+        })
+      };
+    }
+    case 'fill': {
+      const column = requireColumn(table, step.column);
+      if (step.strategy === 'previous') {
+        let last: string | number | null = null;
+        return {
+          columns: table.columns,
+          data: table.data.map(row => {
+            const value = row[step.column];
+            if (!isBlank(value)) {
+              last = value;
+              return row;
+            }
+            return last === null ? row : { ...row, [step.column]: last };
+          })
+        };
+      }
+      const replacement = fillValue(table, column, step);
+      if (replacement === null) return table;
+      return {
+        columns: table.columns,
+        data: table.data.map(row => isBlank(row[step.column]) ? { ...row, [step.column]: replacement } : row)
+      };
+    }
+    case 'mapValues': {
+      requireColumn(table, step.column);
+      return {
+        columns: table.columns,
+        data: table.data.map(row => {
+          const key = String(row[step.column] ?? '');
+          return Object.prototype.hasOwnProperty.call(step.mapping, key) ? { ...row, [step.column]: step.mapping[key] } : row;
+        })
+      };
+    }
+    case 'dropDuplicates':
+      return { columns: table.columns, data: removeDuplicateRows(table.data, table.columns) };
+    case 'dropColumn':
+      requireColumn(table, step.column);
+      return dropColumn(table.data, table.columns, step.column);
+    case 'removeBlankRows':
+      requireColumn(table, step.column);
+      return { columns: table.columns, data: removeBlankRows(table.data, step.column) };
+    case 'excludeOutliers':
+      requireColumn(table, step.column);
+      return { columns: table.columns, data: excludeOutlierRows(table.data, step.column) };
+    case 'calculate':
+      requireFreeName(table, step.name);
+      return addCalculatedColumn(table.data, table.columns, step.name, step.formula);
+  }
+};
+
+// Un paso que falla (p. ej. porque su columna ya no existe) se omite y no detiene la receta
+export const applyRecipe = (table: DataTable, steps: TransformStep[]): RecipeResult => {
+  const applied: TransformStep[] = [];
+  const errors: RecipeResult['errors'] = [];
+  const result = steps.reduce((current, step) => {
+    try {
+      const next = applyStep(current, step);
+      applied.push(step);
+      return next;
+    } catch (err) {
+      errors.push({ step, message: err instanceof Error ? err.message : String(err) });
+      return current;
+    }
+  }, table);
+  return { ...result, applied, errors };
+};
+
+export const describeStep = (step: TransformStep) => {
+  switch (step.type) {
+    case 'rename': return `Renombrar «${step.column}» a «${step.to}»`;
+    case 'trim': return `Recortar espacios en «${step.column}»`;
+    case 'case': return `Convertir «${step.column}» a ${CASE_LABELS[step.mode]}`;
+    case 'replace':
+      return `Reemplazar «${step.find}» por «${step.replace}» en «${step.column}»${step.wholeCell ? ' (celda completa)' : ''}`;
+    case 'split': return `Dividir «${step.column}» por «${step.delimiter}» en ${step.into.join(', ')}`;
+    case 'merge': return `Unir ${step.columns.join(', ')} en «${step.into}»`;
+    case 'fill': {
+      const how = {
+        value: `el valor «${step.value}»`,
+        mean: 'la media',
+        median: 'la mediana',
+        mode: 'el valor más frecuente',
+        previous: 'el valor anterior'
+      }[step.strategy];
+      return `Rellenar vacíos de «${step.column}» con ${how}`;
+    }
+    case 'mapValues': {
+      const count = Object.keys(step.mapping).length;
+      return `Unificar ${count} ${count === 1 ? 'valor' : 'valores'} en «${step.column}»`;
+    }
+    case 'dropDuplicates': return 'Eliminar filas duplicadas';
+    case 'dropColumn': return `Eliminar la columna «${step.column}»`;
+    case 'removeBlankRows': return `Quitar filas sin valor en «${step.column}»`;
+    case 'excludeOutliers': return `Excluir valores atípicos de «${step.column}»`;
+    case 'calculate': return `Calcular «${step.name}» = ${step.formula}`;
+  }
+};
+
+const normalizeVariant = (text: string) =>
+  text.normalize('NFD').replace(/[̀-ͯ]/g, '').trim().replace(/\s+/g, ' ').toLocaleLowerCase('es');
+
+export interface ValueGroup {
+  target: string;
+  variants: { value: string; count: number }[];
+}
+
+// Variantes que solo difieren en mayúsculas, tildes o espacios; se propone la más frecuente
+export const suggestValueGroups = (rows: DataRow[], column: string): ValueGroup[] => {
+  const groups = new Map<string, Map<string, number>>();
+  rows.forEach(row => {
+    const value = row[column];
+    if (isBlank(value)) return;
+    const text = String(value);
+    const key = normalizeVariant(text);
+    const variants = groups.get(key) ?? new Map<string, number>();
+    variants.set(text, (variants.get(text) ?? 0) + 1);
+    groups.set(key, variants);
+  });
+  return Array.from(groups.values())
+    .filter(variants => variants.size > 1)
+    .map(variants => {
+      const sorted = Array.from(variants.entries()).sort((a, b) => b[1] - a[1]).map(([value, count]) => ({ value, count }));
+      return { target: sorted[0].value, variants: sorted };
+    });
+};
+
+export const mappingFromGroups = (groups: ValueGroup[]) => {
+  const mapping: Record<string, string> = {};
+  groups.forEach(group => group.variants.forEach(({ value }) => {
+    if (value !== group.target) mapping[value] = group.target;
+  }));
+  return mapping;
+};
+
+export const recipeShape = (columns: ColumnMetadata[]) => columns.map(({ name, type }) => ({ name, type }));
+
+export const sameShape = (a: Pick<ColumnMetadata, 'name' | 'type'>[], b: Pick<ColumnMetadata, 'name' | 'type'>[]) =>
+  a.length === b.length && a.every(column => b.some(other => other.name === column.name && other.type === column.type));
+
+// Receta guardada más reciente cuya forma coincide con las columnas importadas
+export const findMatchingRecipe = (recipes: SavedRecipe[], columns: ColumnMetadata[]) =>
+  recipes.filter(recipe => sameShape(recipe.columns, columns)).sort((a, b) => b.updatedAt - a.updatedAt)[0] ?? null;
@@ -0,0 +1,351 @@
+export interface DataRow {
+  [key: string]: string | number;
+}
+
+export interface UserProfile {
+  fullName: string;
+  organization: string;
+  image: string | null;
+}
+
+export type ColumnType = 'number' | 'string' | 'date' | 'boolean' | 'category';
+
+export type NumberLocale = 'es-ES' | 'en-US';
+
+export type DateOrder = 'dmy' | 'mdy';
+
+export interface ColumnMetadata {
+  name: string;
+  type: ColumnType;
+  numberLocale?: NumberLocale;
+  dateOrder?: DateOrder;
+  unit?: string;
+  // Presente en las columnas calculadas
+  formula?: string;
+}
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'histogram' | 'scatter' | 'box' | 'heatmap';
+
+export type HistogramBinRule = 'fixed' | 'sturges' | 'freedman-diaconis' | 'scott' | 'custom';
+
+export type TimePeriod = 'day' | 'week' | 'month' | 'round';
+
+export type ChartAggregation = 'sum' | 'mean' | 'median' | 'count' | 'min' | 'max' | 'distinct';
+
+export type ChartSortOrder = 'value-desc' | 'value-asc' | 'label' | 'original';
+
+export type BarMode = 'grouped' | 'stacked' | 'percent';
+
+export interface ChartSettings {
+  chartType: ChartType;
+  xAxis: string;
+  yAxis: string;
+  period: TimePeriod;
+  roundColumn: string;
+  rollingWindow: number;
+  aggregation: ChartAggregation;
+  sortOrder: ChartSortOrder;
+  topN: number;
+  otherBucket: boolean;
+  extraMetrics: string[];
+  secondaryAxis: string[];
+  seriesColumn: string;
+  barMode: BarMode;
+  sizeColumn: string;
+  trendLine: boolean;
+  binRule: HistogramBinRule;
+  binCount: number;
+  binEdges: number[];
+  showDensity: boolean;
+}
+
+export interface SortConfig {
+  key: string;
+  direction: 'asc' | 'desc';
+}
+
+export type NullsPosition = 'first' | 'last';
+
+export type TableDisplayMode = 'pages' | 'scroll';
+
+export interface TableViewState {
+  sortConfig: SortConfig[];
+  nullsPosition: NullsPosition;
+  columnFilters: { [key: string]: string };
+  rangeFilters: { [key: string]: { min: string, max: string } };
+  pageSize: number;
+  displayMode: TableDisplayMode;
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportScope = 'view' | 'full';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: string[];
+  delimiter: string;
+  numberLocale: NumberLocale;
+}
+
+export type FilterOperator =
+  | 'equals' | 'notEquals' | 'contains' | 'regex' | 'in' | 'between'
+  | 'gt' | 'gte' | 'lt' | 'lte' | 'isEmpty' | 'notEmpty'
+  | 'topN' | 'aboveMean' | 'belowMean';
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterCondition {
+  id: string;
+  // Columna vacía: la condición se evalúa contra cualquier columna
+  column: string;
+  operator: FilterOperator;
+  value: string;
+  valueTo?: string;
+}
+
+export interface FilterGroup {
+  id: string;
+  combinator: FilterCombinator;
+  conditions: FilterCondition[];
+}
+
+export interface FilterQuery {
+  combinator: FilterCombinator;
+  groups: FilterGroup[];
+}
+
+export type KpiAggregation = 'count' | 'sum' | 'mean' | 'median' | 'percentile' | 'stdDev' | 'min' | 'max' | 'distinct' | 'nulls' | 'formula';
+
+export type KpiBaseline = 'none' | 'comparison' | 'unfiltered' | 'target';
+
+export interface KpiDefinition {
+  id: string;
+  label: string;
+  column: string;
+  aggregation: KpiAggregation;
+  percentile: number;
+  formula: string;
+  baseline: KpiBaseline;
+  target: number;
+}
+
+export type DashboardWidgetKind = 'impact' | 'distribution' | 'chart';
+
+export type WidgetHeight = 'sm' | 'md' | 'lg';
+
+export interface DashboardWidget {
+  id: string;
+  kind: DashboardWidgetKind;
+  title: string;
+  width: 1 | 2 | 3;
+  height: WidgetHeight;
+  chart?: ChartSettings;
+}
+
+export interface DashboardLayout {
+  id: string;
+  name: string;
+  widgets: DashboardWidget[];
+}
+
+export type PivotZone = 'rows' | 'columns' | 'values';
+
+export interface PivotValueField {
+  id: string;
+  column: string;
+  aggregation: ChartAggregation;
+}
+
+export interface PivotConfig {
+  rows: string[];
+  columns: string[];
+  values: PivotValueField[];
+  showSubtotals: boolean;
+  showGrandTotals: boolean;
+}
+
+// Filtro de detalle al pulsar una celda de la tabla dinámica
+export interface PivotDrillThrough {
+  label: string;
+  criteria: { column: string; value: string }[];
+}
+
+export type BpPosition = 'OG' | 'OO' | 'CG' | 'CO';
+
+export type BpRole = 'round' | 'room' | 'team' | 'position' | 'rank' | 'speaker' | 'speakerScore' | 'motion' | 'motionCategory' | 'adjudicator';
+
+// Columna asignada a cada papel; cadena vacía si el conjunto no la tiene
+export type BpColumnMapping = Record<BpRole, string>;
+
+export type BpTiebreak = 'speaks' | 'firsts';
+
+export interface BpSettings {
+  mapping: BpColumnMapping;
+  breakSize: number;
+  // Criterios de desempate tras los puntos, en orden
+  tiebreaks: BpTiebreak[];
+}
+
+export interface DatasetViewState {
+  searchTerm: string;
+  globalCategory: string;
+  filters: FilterQuery | null;
+  table: TableViewState | null;
+  chart: ChartSettings | null;
+  kpis: KpiDefinition[] | null;
+  dashboards: DashboardLayout[] | null;
+  activeDashboardId: string | null;
+  pivot?: PivotConfig | null;
+  bp?: BpSettings | null;
+}
+
+export type TextCase = 'lower' | 'upper' | 'title';
+
+export type FillStrategy = 'value' | 'mean' | 'median' | 'mode' | 'previous';
+
+// Pasos de limpieza; cada uno se aplica sobre el resultado del anterior
+export type TransformStep = { id: string } & (
+  | { type: 'rename'; column: string; to: string }
+  | { type: 'trim'; column: string }
+  | { type: 'case'; column: string; mode: TextCase }
+  | { type: 'replace'; column: string; find: string; replace: string; matchCase: boolean; wholeCell: boolean }
+  | { type: 'split'; column: string; delimiter: string; into: string[]; keepOriginal: boolean }
+  | { type: 'merge'; columns: string[]; separator: string; into: string; keepOriginal: boolean }
+  | { type: 'fill'; column: string; strategy: FillStrategy; value: string }
+  | { type: 'mapValues'; column: string; mapping: Record<string, string> }
+  | { type: 'dropDuplicates' }
+  | { type: 'dropColumn'; column: string }
+  | { type: 'removeBlankRows'; column: string }
+  | { type: 'excludeOutliers'; column: string }
+  | { type: 'calculate'; name: string; formula: string }
+);
+
+export type TransformStepType = TransformStep['type'];
+
+export interface SavedRecipe {
+  id: string;
+  name: string;
+  // Forma del archivo de origen: al importar otro con las mismas columnas se aplica sola
+  columns: Pick<ColumnMetadata, 'name' | 'type'>[];
+  steps: TransformStep[];
+  updatedAt: number;
+}
+
+export interface Dataset {
+  id: string;
+  name: string;
+  fileName: string;
+  data: DataRow[];
+  columns: ColumnMetadata[];
+  importedAt: number;
+  view: DatasetViewState;
+  recipe?: TransformStep[];
+  sourceColumns?: ColumnMetadata[];
+}
+
+export interface StoredDataset extends Omit<Dataset, 'data'> {
+  rowCount: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  profile: Omit<UserProfile, 'image'>;
+  activeDatasetId: string | null;
+  comparisonDatasetId: string | null;
+  datasets: StoredDataset[];
+}
+
+export interface ComparisonDataset {
+  name: string;
+  data: DataRow[];
+}
+
+export interface ImportProgress {
+  phase: 'parsing' | 'joining' | 'converting';
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes: number;
+  fraction: number;
+  etaSeconds: number | null;
+}
+
+export interface ImportReview {
+  fileName: string;
+  datasetName?: string;
+  rowCount: number;
+  report: ImportReport;
+  columns: ColumnMetadata[];
+  preview: DataRow[];
+}
+
+export type ImportWarningKind = 'fieldCount' | 'unclosedQuote' | 'duplicateKey' | 'encoding';
+
+export interface ImportWarning {
+  kind: ImportWarningKind;
+  line: number;
+  message: string;
+  // Posición (1-based) de la fila conservada dentro del conjunto importado
+  row?: number;
+  expected?: number;
+  found?: number;
+}
+
+// Celdas con contenido que no encajan en el tipo confirmado y se importan vacías
+export interface ColumnTypeIssue {
+  column: string;
+  invalid: number;
+  examples: string[];
+}
+
+export interface ImportReport {
+  delimiter?: string;
+  encoding?: string;
+  warnings: ImportWarning[];
+  warningCount: number;
+  warningsByKind: Partial<Record<ImportWarningKind, number>>;
+  typeIssues?: ColumnTypeIssue[];
+}
+
+export type JoinType = 'left' | 'inner';
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+  headers: string[];
+  preview: (string | number)[][];
+}
+
+export interface SheetJoin {
+  sheet: string;
+  alias: string;
+  baseKey: string;
+  sheetKey: string;
+  type: JoinType;
+}
+
+// Unir las hojas en un solo conjunto o importar cada una como conjunto independiente
+export type SheetImportMode = 'join' | 'separate';
+
+export interface SheetSelection {
+  mode: SheetImportMode;
+  base: { sheet: string; alias: string };
+  joins: SheetJoin[];
+}
+
+export type ImportWorkerRequest =
+  | { type: 'start'; file: File; chunkSize: number }
+  | { type: 'selectSheets'; selection: SheetSelection }
+  | { type: 'finalize'; columns: ColumnMetadata[] };
+
+export type ImportWorkerResponse =
+  | { type: 'progress'; phase: ImportProgress['phase']; rowsParsed: number; totalRows: number; bytesRead: number; totalBytes: number }
+  | { type: 'workbook'; sheets: SheetSummary[] }
+  | { type: 'parsed'; rowCount: number; report: ImportReport; columns: ColumnMetadata[]; preview: DataRow[]; datasetName?: string }
+  | { type: 'chunk'; rows: DataRow[] }
+  | { type: 'done'; rowCount: number; typeIssues: ColumnTypeIssue[]; remainingSheets: number }
+  | { type: 'error'; message: string };
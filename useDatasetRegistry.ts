@@ -0,0 +1,157 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { ColumnMetadata, DataRow, Dataset, DatasetViewState, TransformStep } from '../types';
+import { applyRecipe } from '../utils/transforms';
+
+export const createDefaultView = (): DatasetViewState => ({
+  searchTerm: '',
+  globalCategory: 'All',
+  filters: null,
+  table: null,
+  chart: null,
+  kpis: null,
+  dashboards: null,
+  activeDashboardId: null,
+  pivot: null,
+  bp: null
+});
+
+export const createDatasetId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const datasetNameFrom = (fileName: string) => fileName.replace(/\.(csv|xlsx|xls)$/i, '');
+
+const uniqueDatasetName = (base: string, datasets: Dataset[]) => {
+  let name = base;
+  let occurrence = 2;
+  while (datasets.some(d => d.name === name)) name = `${base} (${occurrence++})`;
+  return name;
+};
+
+// Datos previos a la primera transformación de esta sesión; `baked` son los pasos ya incorporados antes
+interface TransformSource {
+  data: DataRow[];
+  columns: ColumnMetadata[];
+  baked: number;
+}
+
+/**
+ * Estado de todos los conjuntos de la sesión. Lo instancia el componente raíz (App), que monta ProfilePage y
+ * AnalysisPage y les pasa este estado por props: a ProfilePage `onDataImport={addDataset}`, `datasets`,
+ * `activeDatasetId`, `onRenameDataset`, `onRemoveDataset`, `onTransformDataset`, `onUndoTransform` y
+ * `undoableSteps`; a AnalysisPage `datasets`, `activeDatasetId`, `comparisonDatasetId`,
+ * `onSelectDataset={selectDataset}`, `onSelectComparison={selectComparison}` y `onViewChange={updateView}`.
+ */
+export const useDatasetRegistry = () => {
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [comparisonDatasetId, setComparisonDatasetId] = useState<string | null>(null);
+  const sourcesRef = useRef(new Map<string, TransformSource>());
+
+  const addDataset = useCallback((data: DataRow[], fileName: string, columns: ColumnMetadata[] = [], name?: string) => {
+    const id = createDatasetId();
+    setDatasets(prev => [...prev, {
+      id,
+      name: uniqueDatasetName(name || datasetNameFrom(fileName), prev),
+      fileName,
+      data,
+      columns,
+      importedAt: Date.now(),
+      view: createDefaultView()
+    }]);
+    setActiveDatasetId(id);
+    return id;
+  }, []);
+
+  const removeDataset = useCallback((id: string) => {
+    const remaining = datasets.filter(d => d.id !== id);
+    sourcesRef.current.delete(id);
+    setDatasets(remaining);
+    if (activeDatasetId === id) setActiveDatasetId(remaining[0]?.id ?? null);
+    if (comparisonDatasetId === id) setComparisonDatasetId(null);
+  }, [datasets, activeDatasetId, comparisonDatasetId]);
+
+  const renameDataset = useCallback((id: string, name: string) => {
+    setDatasets(prev => prev.map(d => d.id === id ? { ...d, name } : d));
+  }, []);
+
+  // Aplica pasos de limpieza y los añade a la receta del conjunto; la vista guardada se conserva
+  const transformDataset = useCallback((id: string, steps: TransformStep[]) => {
+    const dataset = datasets.find(d => d.id === id);
+    if (!dataset) return null;
+    if (!sourcesRef.current.has(id)) {
+      sourcesRef.current.set(id, { data: dataset.data, columns: dataset.columns, baked: dataset.recipe?.length ?? 0 });
+    }
+    const result = applyRecipe(dataset, steps);
+    if (result.applied.length > 0) {
+      setDatasets(prev => prev.map(d => d.id === id ? {
+        ...d,
+        data: result.data,
+        columns: result.columns,
+        recipe: [...(d.recipe ?? []), ...result.applied],
+        sourceColumns: d.sourceColumns ?? d.columns
+      } : d));
+    }
+    return result;
+  }, [datasets]);
+
+  // Solo se pueden deshacer los pasos aplicados desde que se cargaron los datos en memoria
+  const undoableSteps = useCallback((id: string) => {
+    const source = sourcesRef.current.get(id);
+    const dataset = datasets.find(d => d.id === id);
+    return source && dataset ? Math.max(0, (dataset.recipe?.length ?? 0) - source.baked) : 0;
+  }, [datasets]);
+
+  // Reproduce la receta sin su último paso a partir de los datos de origen
+  const undoTransform = useCallback((id: string) => {
+    const source = sourcesRef.current.get(id);
+    const dataset = datasets.find(d => d.id === id);
+    const recipe = dataset?.recipe ?? [];
+    if (!source || recipe.length <= source.baked) return;
+    const result = applyRecipe(source, recipe.slice(source.baked, -1));
+    const kept = [...recipe.slice(0, source.baked), ...result.applied];
+    setDatasets(prev => prev.map(d => d.id === id ? {
+      ...d,
+      data: result.data,
+      columns: result.columns,
+      recipe: kept,
+      sourceColumns: kept.length > 0 ? d.sourceColumns : undefined
+    } : d));
+  }, [datasets]);
+
+  const updateView = useCallback((id: string, changes: Partial<DatasetViewState>) => {
+    setDatasets(prev => prev.map(d => d.id === id ? { ...d, view: { ...d.view, ...changes } } : d));
+  }, []);
+
+  const selectDataset = useCallback((id: string) => {
+    setActiveDatasetId(id);
+    setComparisonDatasetId(prev => prev === id ? null : prev);
+  }, []);
+
+  // Sustituye el registro completo, p. ej. al restaurar una sesión guardada
+  const restore = useCallback((state: { datasets: Dataset[]; activeDatasetId: string | null; comparisonDatasetId: string | null }) => {
+    sourcesRef.current.clear();
+    setDatasets(state.datasets);
+    setActiveDatasetId(state.activeDatasetId);
+    setComparisonDatasetId(state.comparisonDatasetId);
+  }, []);
+
+  const activeDataset = useMemo(() => datasets.find(d => d.id === activeDatasetId) ?? null, [datasets, activeDatasetId]);
+  const comparisonDataset = useMemo(() => datasets.find(d => d.id === comparisonDatasetId) ?? null, [datasets, comparisonDatasetId]);
+
+  return {
+    datasets,
+    activeDataset,
+    activeDatasetId,
+    comparisonDataset,
+    comparisonDatasetId,
+    addDataset,
+    removeDataset,
+    renameDataset,
+    transformDataset,
+    undoTransform,
+    undoableSteps,
+    updateView,
+    selectDataset,
+    selectComparison: setComparisonDatasetId,
+    restore
+  };
+};
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ColumnMetadata,
+  DataRow,
+  ImportProgress,
+  ImportReport,
+  ImportReview,
+  ImportWorkerRequest,
+  ImportWorkerResponse,
+  SheetSelection,
+  SheetSummary
+} from '../types';
+
+const CHUNK_SIZE = 5000;
+
+interface UseFileImportOptions {
+  onComplete: (data: DataRow[], fileName: string, report: ImportReport, columns: ColumnMetadata[], datasetName?: string) => void;
+  onError: (message: string) => void;
+}
+
+export const useFileImport = ({ onComplete, onError }: UseFileImportOptions) => {
+  const workerRef = useRef<Worker | null>(null);
+  const rowsRef = useRef<DataRow[]>([]);
+  const phaseStartedAtRef = useRef(0);
+  const fileNameRef = useRef('');
+  const reviewRef = useRef<ImportReview | null>(null);
+  const columnsRef = useRef<ColumnMetadata[]>([]);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [review, setReview] = useState<ImportReview | null>(null);
+  const [sheets, setSheets] = useState<SheetSummary[] | null>(null);
+  const [fileName, setFileName] = useState('');
+
+  const reset = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    rowsRef.current = [];
+    reviewRef.current = null;
+    setProgress(null);
+    setReview(null);
+    setSheets(null);
+  }, []);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const handleMessage = useCallback((message: ImportWorkerResponse) => {
+    switch (message.type) {
+      case 'chunk':
+        for (const row of message.rows) rowsRef.current.push(row);
+        break;
+      case 'progress': {
+        const fraction = message.phase === 'parsing'
+          ? (message.totalBytes > 0 ? message.bytesRead / message.totalBytes : 0)
+          : (message.totalRows > 0 ? message.rowsParsed / message.totalRows : 0);
+        const elapsed = (performance.now() - phaseStartedAtRef.current) / 1000;
+        const etaSeconds = fraction > 0 && fraction < 1 ? (elapsed / fraction) * (1 - fraction) : null;
+        setProgress({
+          phase: message.phase,
+          rowsParsed: message.rowsParsed,
+          bytesRead: message.bytesRead,
+          totalBytes: message.totalBytes,
+          fraction,
+          etaSeconds
+        });
+        break;
+      }
+      case 'workbook':
+        setProgress(null);
+        setSheets(message.sheets);
+        break;
+      case 'parsed': {
+        const nextReview: ImportReview = {
+          fileName: fileNameRef.current,
+          datasetName: message.datasetName,
+          rowCount: message.rowCount,
+          report: message.report,
+          columns: message.columns,
+          preview: message.preview
+        };
+        reviewRef.current = nextReview;
+        setProgress(null);
+        setReview(nextReview);
+        break;
+      }
+      case 'done': {
+        const rows = rowsRef.current;
+        const completed = reviewRef.current;
+        const columns = columnsRef.current;
+        if (message.remainingSheets > 0) {
+          // El worker sigue vivo: la siguiente hoja llegará como un nuevo 'parsed'
+          rowsRef.current = [];
+          reviewRef.current = null;
+          setProgress({ phase: 'parsing', rowsParsed: 0, bytesRead: 0, totalBytes: 0, fraction: 0, etaSeconds: null });
+        } else {
+          reset();
+        }
+        if (completed) {
+          onComplete(rows, completed.fileName, { ...completed.report, typeIssues: message.typeIssues }, columns, completed.datasetName);
+        }
+        break;
+      }
+      case 'error':
+        reset();
+        onError(message.message);
+        break;
+    }
+  }, [onComplete, onError, reset]);
+
+  const handleMessageRef = useRef(handleMessage);
+  handleMessageRef.current = handleMessage;
+
+  const start = useCallback((file: File) => {
+    reset();
+    phaseStartedAtRef.current = performance.now();
+    fileNameRef.current = file.name;
+    setFileName(file.name);
+    setProgress({ phase: 'parsing', rowsParsed: 0, bytesRead: 0, totalBytes: file.size, fraction: 0, etaSeconds: null });
+
+    const worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => handleMessageRef.current(event.data);
+    worker.onerror = (event) => {
+      reset();
+      onError(event.message);
+    };
+
+    const request: ImportWorkerRequest = { type: 'start', file, chunkSize: CHUNK_SIZE };
+    worker.postMessage(request);
+  }, [onError, reset]);
+
+  const selectSheets = useCallback((selection: SheetSelection) => {
+    const worker = workerRef.current;
+    if (!worker) return;
+    setSheets(null);
+    setProgress({ phase: 'joining', rowsParsed: 0, bytesRead: 0, totalBytes: 0, fraction: 0, etaSeconds: null });
+    const request: ImportWorkerRequest = { type: 'selectSheets', selection };
+    worker.postMessage(request);
+  }, []);
+
+  const confirm = useCallback((columns: ColumnMetadata[]) => {
+    const worker = workerRef.current;
+    if (!worker || !reviewRef.current) return;
+    columnsRef.current = columns;
+    phaseStartedAtRef.current = performance.now();
+    setReview(null);
+    setProgress({
+      phase: 'converting',
+      rowsParsed: 0,
+      bytesRead: 0,
+      totalBytes: 0,
+      fraction: 0,
+      etaSeconds: null
+    });
+    const request: ImportWorkerRequest = { type: 'finalize', columns };
+    worker.postMessage(request);
+  }, []);
+
+  return {
+    progress,
+    review,
+    sheets,
+    fileName,
+    isImporting: progress !== null || review !== null || sheets !== null,
+    start,
+    selectSheets,
+    confirm,
+    cancel: reset
+  };
+};
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DataRow, SessionRecord, UserProfile } from '../types';
+import { useDatasetRegistry } from '../hooks/useDatasetRegistry';
+import {
+  deleteDatasetRows,
+  deleteSession as deleteStoredSession,
+  getSession,
+  listSessions,
+  loadDatasetRows,
+  loadProfileImage,
+  renameSession as renameStoredSession,
+  saveDatasetRows,
+  saveProfileImage,
+  saveSession
+} from '../utils/sessionStore';
+
+interface SessionPersistenceOptions {
+  registry: ReturnType<typeof useDatasetRegistry>;
+  profile: UserProfile;
+  onProfileRestore: (profile: UserProfile) => void;
+}
+
+const SAVE_DELAY = 800;
+
+const createSessionId = () => `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const defaultSessionName = () => `Sesión ${new Date().toLocaleDateString('es-ES')}`;
+
+/**
+ * Guarda y restaura la sesión en IndexedDB. La llama el componente raíz (App) junto a useDatasetRegistry, con el
+ * registro y el perfil que ya posee, y pasa el resultado a ProfilePage: `sessions`, `currentSessionId`,
+ * `isSavingSession={isSaving}`, `onLoadSession={loadSession}`, `onRenameSession={renameSession}`,
+ * `onDeleteSession={deleteSession}` y `onNewSession={newSession}`. Mientras `isRestoring` sea true conviene no montar las páginas.
+ */
+export const useSessionPersistence = ({ registry, profile, onProfileRestore }: SessionPersistenceOptions) => {
+  const { datasets, activeDatasetId, comparisonDatasetId, restore } = registry;
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sessionRef = useRef<{ id: string | null; name: string; createdAt: number }>({ id: null, name: '', createdAt: 0 });
+  // Filas e imagen ya escritas; solo se vuelven a guardar si cambian de referencia
+  const savedRowsRef = useRef(new Map<string, DataRow[]>());
+  const savedImageRef = useRef<string | null>(null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const refreshSessions = useCallback(async () => {
+    setSessions(await listSessions());
+  }, []);
+
+  const loadSession = useCallback(async (id: string) => {
+    setIsRestoring(true);
+    try {
+      // Evita que un guardado pendiente escriba la sesión anterior sobre la nueva
+      await queueRef.current;
+      const record = await getSession(id);
+      if (!record) return;
+      const restored = await Promise.all(record.datasets.map(async ({ rowCount, ...meta }) => ({
+        ...meta,
+        data: await loadDatasetRows(meta.id)
+      })));
+      const image = await loadProfileImage(id);
+
+      sessionRef.current = { id, name: record.name, createdAt: record.createdAt };
+      savedRowsRef.current = new Map(restored.map(d => [d.id, d.data]));
+      savedImageRef.current = image;
+      restore({ datasets: restored, activeDatasetId: record.activeDatasetId, comparisonDatasetId: record.comparisonDatasetId });
+      onProfileRestore({ ...record.profile, image });
+      setCurrentSessionId(id);
+    } catch (error) {
+      console.error("Error al restaurar la sesión:", error);
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [restore, onProfileRestore]);
+
+  const newSession = useCallback(() => {
+    sessionRef.current = { id: null, name: '', createdAt: 0 };
+    savedRowsRef.current = new Map();
+    savedImageRef.current = null;
+    restore({ datasets: [], activeDatasetId: null, comparisonDatasetId: null });
+    setCurrentSessionId(null);
+  }, [restore]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    await deleteStoredSession(id);
+    if (sessionRef.current.id === id) newSession();
+    await refreshSessions();
+  }, [newSession, refreshSessions]);
+
+  const renameSession = useCallback(async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (sessionRef.current.id === id) sessionRef.current.name = trimmed;
+    await renameStoredSession(id, trimmed);
+    await refreshSessions();
+  }, [refreshSessions]);
+
+  // Restaura la sesión más reciente al arrancar
+  useEffect(() => {
+    listSessions()
+      .then(stored => {
+        setSessions(stored);
+        if (stored.length > 0) return loadSession(stored[0].id);
+        setIsRestoring(false);
+      })
+      .catch(error => {
+        console.error("IndexedDB no disponible:", error);
+        setIsRestoring(false);
+      });
+  }, []);
+
+  // Guardado automático: los metadatos en cada cambio y las filas solo cuando son nuevas
+  useEffect(() => {
+    if (isRestoring) return;
+    if (datasets.length === 0 && !sessionRef.current.id) return;
+
+    const handle = setTimeout(() => {
+      queueRef.current = queueRef.current.then(async () => {
+        setIsSaving(true);
+        try {
+          if (!sessionRef.current.id) {
+            sessionRef.current = { id: createSessionId(), name: defaultSessionName(), createdAt: Date.now() };
+            setCurrentSessionId(sessionRef.current.id);
+          }
+          const sessionId = sessionRef.current.id as string;
+          const { fullName, organization } = profile;
+
+          await saveSession({
+            id: sessionId,
+            name: sessionRef.current.name,
+            createdAt: sessionRef.current.createdAt,
+            updatedAt: Date.now(),
+            profile: { fullName, organization },
+            activeDatasetId,
+            comparisonDatasetId,
+            datasets: datasets.map(({ data, ...meta }) => ({ ...meta, rowCount: data.length }))
+          });
+
+          for (const dataset of datasets) {
+            if (savedRowsRef.current.get(dataset.id) === dataset.data) continue;
+            await saveDatasetRows(sessionId, dataset.id, dataset.data);
+            savedRowsRef.current.set(dataset.id, dataset.data);
+          }
+          for (const id of Array.from(savedRowsRef.current.keys())) {
+            if (datasets.some(d => d.id === id)) continue;
+            await deleteDatasetRows(id);
+            savedRowsRef.current.delete(id);
+          }
+          if (profile.image !== savedImageRef.current) {
+            await saveProfileImage(sessionId, profile.image);
+            savedImageRef.current = profile.image;
+          }
+          await refreshSessions();
+        } catch (error) {
+          console.error("Error al guardar la sesión:", error);
+        } finally {
+          setIsSaving(false);
+        }
+      });
+    }, SAVE_DELAY);
+
+    return () => clearTimeout(handle);
+  }, [datasets, activeDatasetId, comparisonDatasetId, profile, isRestoring, refreshSessions]);
+
+  return {
+    sessions,
+    currentSessionId,
+    isRestoring,
+    isSaving,
+    loadSession,
+    newSession,
+    renameSession,
+    deleteSession
+  };
+};
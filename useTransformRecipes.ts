@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ColumnMetadata, SavedRecipe, TransformStep } from '../types';
+import { deleteRecipe as deleteStoredRecipe, listRecipes, saveRecipe as saveStoredRecipe } from '../utils/sessionStore';
+import { recipeShape } from '../utils/transforms';
+
+const createRecipeId = () => `recipe-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useTransformRecipes = () => {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const refreshRecipes = useCallback(async () => {
+    try {
+      setRecipes(await listRecipes());
+    } catch (error) {
+      console.error("Error al cargar las recetas:", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshRecipes();
+  }, [refreshRecipes]);
+
+  // Una receta con el mismo nombre se sobrescribe en lugar de duplicarse
+  const saveRecipe = useCallback(async (name: string, columns: ColumnMetadata[], steps: TransformStep[]) => {
+    const existing = recipes.find(r => r.name === name);
+    const recipe: SavedRecipe = {
+      id: existing?.id ?? createRecipeId(),
+      name,
+      columns: recipeShape(columns),
+      steps,
+      updatedAt: Date.now()
+    };
+    await saveStoredRecipe(recipe);
+    await refreshRecipes();
+    return recipe;
+  }, [recipes, refreshRecipes]);
+
+  const deleteRecipe = useCallback(async (id: string) => {
+    await deleteStoredRecipe(id);
+    await refreshRecipes();
+  }, [refreshRecipes]);
+
+  return { recipes, isLoaded, saveRecipe, deleteRecipe };
+};
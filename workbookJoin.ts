@@ -0,0 +1,68 @@
+import { DataRow, JoinType } from '../types';
+
+export interface NamedDataset {
+  name: string;
+  headers: string[];
+  rows: DataRow[];
+}
+
+export interface DatasetJoin {
+  dataset: NamedDataset;
+  baseKey: string;
+  key: string;
+  type: JoinType;
+}
+
+export const normalizeJoinKey = (value: string | number | undefined) =>
+  String(value ?? '').trim().toLowerCase();
+
+const uniqueName = (name: string, alias: string, used: Set<string>) => {
+  let candidate = used.has(name) ? `${alias}.${name}` : name;
+  let occurrence = 2;
+  while (used.has(candidate)) candidate = `${alias}.${name} (${occurrence++})`;
+  used.add(candidate);
+  return candidate;
+};
+
+// Une hojas por columna clave. Si la hoja unida repite una clave se conserva su primera fila.
+export const joinDatasets = (
+  base: NamedDataset,
+  joins: DatasetJoin[],
+  onDuplicateKey?: (dataset: NamedDataset, key: string, rowIndex: number) => void
+): NamedDataset => {
+  const used = new Set(base.headers);
+  let rows = base.rows;
+  const headers = [...base.headers];
+
+  joins.forEach(({ dataset, baseKey, key, type }) => {
+    const lookup = new Map<string, DataRow>();
+    dataset.rows.forEach((row, index) => {
+      const joinKey = normalizeJoinKey(row[key]);
+      if (joinKey === '') return;
+      if (lookup.has(joinKey)) {
+        onDuplicateKey?.(dataset, String(row[key]), index);
+        return;
+      }
+      lookup.set(joinKey, row);
+    });
+
+    const columns = dataset.headers
+      .filter(header => header !== key)
+      .map(header => ({ source: header, target: uniqueName(header, dataset.name, used) }));
+    headers.push(...columns.map(c => c.target));
+
+    const joined: DataRow[] = [];
+    rows.forEach(row => {
+      const match = lookup.get(normalizeJoinKey(row[baseKey]));
+      if (!match && type === 'inner') return;
+      const merged: DataRow = { ...row };
+      columns.forEach(({ source, target }) => {
+        merged[target] = match ? match[source] ?? '' : '';
+      });
+      joined.push(merged);
+    });
+    rows = joined;
+  });
+
+  return { name: base.name, headers, rows };
+};